@@ -1,8 +1,10 @@
 import { render, screen } from "@testing-library/react";
 import App from "./App";
 
-test("renders learn react link", () => {
+// The editor needs WebGL and workers, which jsdom does not have
+jest.mock("./components/pages/EditorPage", () => () => null);
+
+test("opens on the upload page", () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByText(/drag a 3d model file here/i)).toBeInTheDocument();
 });
@@ -0,0 +1,13 @@
+// CRA's SVG transform builds elements the React 19 renderer rejects; tests
+// get a plain <svg> instead
+const React = require("react");
+
+const SvgMock = React.forwardRef((props, ref) =>
+  React.createElement("svg", { ...props, ref })
+);
+
+module.exports = {
+  __esModule: true,
+  default: "icon.svg",
+  ReactComponent: SvgMock,
+};
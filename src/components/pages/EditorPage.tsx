@@ -1,25 +1,78 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import Editor from "../ui/editor";
+import {
+  createSessionId,
+  listSessions,
+  loadSession,
+  StoredSession,
+} from "../ui/editor/sessionStore";
 
 const EditorPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const uploadedFile = location.state?.file;
+  // The router state is swapped for the session id below, so keep what the
+  // page was opened with
+  const [openedWith] = useState(() => location.state || {});
+  const uploadedFile = openedWith.file;
+  const uploadedResources = openedWith.resources;
+  const uploadedProject = openedWith.project;
+  // Without a file or project, a stored session is restored: the one named
+  // in the router state after a reload, or else the most recent one
+  const restoring = !uploadedFile && !uploadedProject;
+  const [newSessionId] = useState(createSessionId);
+  const [storedSession, setStoredSession] = useState<StoredSession | null>(
+    null
+  );
+  const sessionId = storedSession ? storedSession.id : newSessionId;
 
   useEffect(() => {
-    console.log("EditorPage: location state:", location.state);
-    console.log("EditorPage: Received file:", uploadedFile);
+    if (!restoring) return;
+    let cancelled = false;
+    const restore = async () => {
+      const id = openedWith.sessionId || (await listSessions())[0]?.id;
+      return id ? loadSession(id) : null;
+    };
+    restore()
+      .catch((err) => {
+        console.error("Could not restore the session:", err);
+        return null;
+      })
+      .then((session) => {
+        if (cancelled) return;
+        if (session) {
+          setStoredSession(session);
+        } else {
+          console.log("No file provided, redirecting to upload page");
+          navigate("/upload");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [openedWith, restoring, navigate]);
 
-    if (!uploadedFile) {
-      console.log("No file provided, redirecting to upload page");
-      navigate("/upload");
-    }
-  }, [uploadedFile, navigate, location]);
+  // Reloading the page comes back to this session
+  useEffect(() => {
+    if (restoring && !storedSession) return;
+    navigate("/editor", { replace: true, state: { sessionId } });
+  }, [restoring, storedSession, sessionId, navigate]);
 
   return (
     <div className="w-full h-full mx-3 col-span-12 row-span-12 grid grid-cols-6 grid-rows-6">
-      <Editor initialFile={uploadedFile} />
+      {restoring && !storedSession ? (
+        <p className="col-span-6 row-span-6 grid place-items-center text-gray-400">
+          Restoring your last session...
+        </p>
+      ) : (
+        <Editor
+          initialFile={uploadedFile}
+          initialResources={uploadedResources}
+          initialProject={uploadedProject}
+          initialSession={storedSession || undefined}
+          sessionId={sessionId}
+        />
+      )}
     </div>
   );
 };
@@ -1,32 +1,44 @@
 import React from "react";
 import { useNavigate } from "react-router-dom";
 import ImportComponent from "../ui/ImportComponent";
+import RecentSessions from "../ui/RecentSessions";
+import { ModelResources } from "../ui/editor/modelFormats";
 
 const UploadPage: React.FC = () => {
   const navigate = useNavigate();
 
-  const handleFileUploadSuccess = (file: File) => {
-    console.log(
-      "Upload success: File type:",
-      file.type,
-      "Size:",
-      file.size,
-      "Name:",
-      file.name,
-    );
+  const handleFileUploadSuccess = (file: File, resources: ModelResources) => {
     navigate("/editor", {
-      state: { file },
+      state: { file, resources },
+    });
+  };
+
+  const handleProjectOpen = (project: File) => {
+    navigate("/editor", {
+      state: { project },
+    });
+  };
+
+  const handleSessionOpen = (sessionId: string) => {
+    navigate("/editor", {
+      state: { sessionId },
     });
   };
 
   return (
-    <div className="col-start-4 col-span-6 row-start-6 row-span-4 grid place-items-center">
-      <ImportComponent
-        title="Import 3D Model"
-        showDetails={true}
-        onUploadSuccess={handleFileUploadSuccess}
-      />
-    </div>
+    <>
+      <div className="col-start-4 col-span-6 row-start-6 row-span-4 grid place-items-center">
+        <ImportComponent
+          title="Import 3D Model"
+          showDetails={true}
+          onUploadSuccess={handleFileUploadSuccess}
+          onProjectOpen={handleProjectOpen}
+        />
+      </div>
+      <div className="col-start-4 col-span-6 row-start-10 row-span-3 overflow-y-auto">
+        <RecentSessions onOpen={handleSessionOpen} />
+      </div>
+    </>
   );
 };
 
@@ -1,18 +1,63 @@
 import React, { useState, useRef } from "react";
 import { ReactComponent as UploadIcon } from "../../assets/uploadIcon.svg";
+import {
+  checkModelFile,
+  groupModelFiles,
+  ModelResources,
+  RESOURCE_EXTENSIONS,
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_FORMAT_LABELS,
+} from "./editor/modelFormats";
+import { isProjectFile, PROJECT_EXTENSION } from "./editor/projectFile";
 
 interface ImportComponentProps {
   title: string;
   showDetails?: boolean;
-  onFileImport?: (file: File) => void;
-  onUploadSuccess?: (file: File) => void; // Updated to accept a File parameter
+  onFileImport?: (file: File, resources: ModelResources) => void;
+  onUploadSuccess?: (file: File, resources: ModelResources) => void;
+  // Called instead of onUploadSuccess when a saved project is picked
+  onProjectOpen?: (project: File) => void;
 }
 
+// The picker also offers the files a model can refer to, and projects
+const ACCEPTED_EXTENSIONS = SUPPORTED_EXTENSIONS.concat(
+  RESOURCE_EXTENSIONS,
+  PROJECT_EXTENSION
+).join(",");
+
+type DroppedFile = { path: string; file: File };
+
+// Read every file below a dropped entry, folders included
+const readEntry = (entry: FileSystemEntry): Promise<DroppedFile[]> => {
+  const path = entry.fullPath.replace(/^\//, "");
+  if (entry.isFile) {
+    return new Promise((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(
+        (file) => resolve([{ path, file }]),
+        reject
+      )
+    );
+  }
+
+  // A directory reader hands out its entries in batches until one is empty
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const readBatch = (): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+  const readAll = async (): Promise<DroppedFile[]> => {
+    const batch = await readBatch();
+    if (batch.length === 0) return [];
+    const files = await Promise.all(batch.map(readEntry));
+    return files.flat().concat(await readAll());
+  };
+  return readAll();
+};
+
 const ImportComponent: React.FC<ImportComponentProps> = ({
   title,
   showDetails = false,
   onFileImport,
   onUploadSuccess,
+  onProjectOpen,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [alertMessage, setAlertMessage] = useState<{
@@ -21,16 +66,11 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
   }>({ text: "", type: null });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateFile = (file: File): boolean => {
-    const validExtensions = [".gltf", ".glb"];
-    const fileName = file.name.toLowerCase();
-    const isValid = validExtensions.some((ext) => fileName.endsWith(ext));
+  const validateFile = async (file: File): Promise<boolean> => {
+    const { error } = await checkModelFile(file);
 
-    if (!isValid) {
-      setAlertMessage({
-        text: "Invalid file format! Please upload a GLTF or GLB file.",
-        type: "error",
-      });
+    if (error) {
+      setAlertMessage({ text: error, type: "error" });
       return false;
     }
 
@@ -38,10 +78,21 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
   };
 
   // In your handleFileImport function
-  const handleFileImport = (file: File) => {
-    if (validateFile(file)) {
+  const handleFileImport = async (files: DroppedFile[]) => {
+    // A project holds its own model, so it is opened on its own
+    const project = files.find(({ file }) => isProjectFile(file));
+    if (project && onProjectOpen) {
+      onProjectOpen(project.file);
+      return;
+    }
+
+    const group = groupModelFiles(files);
+    if (!group) return;
+    const { file, resources } = group;
+
+    if (await validateFile(file)) {
       if (onFileImport) {
-        onFileImport(file);
+        onFileImport(file, resources);
       }
 
       setAlertMessage({
@@ -52,7 +103,7 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
       // Make sure to pass the file to the callback
       if (onUploadSuccess) {
         console.log("Calling onUploadSuccess with file:", file.name);
-        onUploadSuccess(file);
+        onUploadSuccess(file, resources);
       }
     }
   };
@@ -79,16 +130,37 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = e.dataTransfer.files;
-    if (files && files.length > 0) {
-      handleFileImport(files[0]); // Fixed: calling handleFileImport instead of handleFile
+    // Entries must be taken while the drop event is being handled
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length > 0) {
+      Promise.all(entries.map(readEntry))
+        .then((files) => handleFileImport(files.flat()))
+        .catch(() =>
+          setAlertMessage({
+            text: "Could not read the dropped files.",
+            type: "error",
+          })
+        );
+    } else {
+      handleFileImport(
+        Array.from(e.dataTransfer.files).map((file) => ({
+          path: file.name,
+          file,
+        }))
+      );
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFileImport(files[0]); // Fixed: calling handleFileImport instead of handleFile
+      // Files picked together come from the same folder
+      handleFileImport(
+        Array.from(files).map((file) => ({ path: file.name, file }))
+      );
     }
   };
 
@@ -118,10 +190,12 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
         onDragOver={handleDragOver}
         onDrop={handleDrop}
       >
-        <p>{isDragging ? "Drop to import" : "Drag glTF or GLB file here"}</p>
+        <p>{isDragging ? "Drop to import" : "Drag a 3D model file here"}</p>
         {showDetails && (
           <p className="text-sm text-gray-400 mt-2">
-            Supported formats: .gltf, .glb
+            Supported formats: {SUPPORTED_FORMAT_LABELS}. Drop a .gltf together
+            with its .bin and texture files, or their folder. Saved{" "}
+            {PROJECT_EXTENSION} projects open with all their cuts.
           </p>
         )}
       </div>
@@ -136,7 +210,8 @@ const ImportComponent: React.FC<ImportComponentProps> = ({
           type="file"
           ref={fileInputRef}
           className="hidden"
-          accept=".gltf,.glb"
+          accept={ACCEPTED_EXTENSIONS}
+          multiple
           onChange={handleFileInputChange}
         />
       </div>
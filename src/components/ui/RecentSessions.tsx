@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from "react";
+import {
+  deleteSession,
+  listSessions,
+  SessionSummary,
+} from "./editor/sessionStore";
+
+interface RecentSessionsProps {
+  onOpen: (sessionId: string) => void;
+}
+
+// Sessions stored in the browser, most recent first. They open without the
+// original files, so earlier work can be picked up offline.
+const RecentSessions: React.FC<RecentSessionsProps> = ({ onOpen }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => console.error("Could not list stored sessions:", err));
+  }, []);
+
+  const handleRemove = (id: string) => {
+    deleteSession(id)
+      .then(() =>
+        setSessions((prev) => prev.filter((session) => session.id !== id))
+      )
+      .catch((err) => console.error("Could not remove the session:", err));
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <section className="text-white p-4 w-full">
+      <p className="font-semibold mb-2">Recent models</p>
+      <ul className="space-y-1 text-sm">
+        {sessions.map(({ id, name, updatedAt, partCount }) => (
+          <li
+            key={id}
+            className="flex items-center bg-gray-900 rounded px-2 py-1"
+          >
+            <button
+              className="flex-1 min-w-0 text-left truncate hover:text-blue-400"
+              onClick={() => onOpen(id)}
+              title={`Reopen ${name}`}
+            >
+              {name}
+            </button>
+            <span className="mx-2 text-gray-400 text-xs whitespace-nowrap">
+              {partCount > 0 ? `${partCount} parts, ` : ""}
+              {new Date(updatedAt).toLocaleString()}
+            </span>
+            <button
+              className="px-2 rounded text-gray-400 hover:bg-gray-700"
+              onClick={() => handleRemove(id)}
+              title="Forget this session"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default RecentSessions;
@@ -1,28 +1,89 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import { useThreeJsSetup } from "./editor/useThreeJsSetup";
 import { useModelLoading } from "./editor/useModelLoading";
-import { useMouseHandlers, EditorMode } from "./editor/useMouseHandlers";
+import {
+  useMouseHandlers,
+  EditorMode,
+  allowsOrbit,
+} from "./editor/useMouseHandlers";
 import { useCuttingLogic } from "./editor/useCuttingLogic";
+import { createCutWorker } from "./editor/createCutWorker";
+import PartTreePanel from "./editor/PartTreePanel";
+import PartInspectorPanel from "./editor/PartInspectorPanel";
+import CutPlanePanel from "./editor/CutPlanePanel";
+import SlicePanel from "./editor/SlicePanel";
+import CutHistoryPanel from "./editor/CutHistoryPanel";
+import JoineryPanel from "./editor/JoineryPanel";
+import MeasurePanel from "./editor/MeasurePanel";
+import { useMeasurements } from "./editor/useMeasurements";
+import { useAreaSelection } from "./editor/useAreaSelection";
+import { useProfileDrawing } from "./editor/useProfileDrawing";
+import { CUT_SHAPES } from "./editor/profileCutter";
+import { useProjectFile } from "./editor/useProjectFile";
+import { useSessionPersistence } from "./editor/useSessionPersistence";
+import { StoredSession } from "./editor/sessionStore";
+import { fromProjectPlane } from "./editor/projectFile";
+import { ModelResources } from "./editor/modelFormats";
+import { EXPORT_COMPRESSIONS, ExportCompression } from "./editor/glbCompression";
+import { PART_FILE_FORMATS, PartPackaging } from "./editor/partExport";
+import { IDENTITY_FRAME, LENGTH_UNITS, LengthUnit } from "./editor/units";
 
 interface EditorProps {
   initialFile?: File;
+  initialResources?: ModelResources;
+  // Project file to open instead of a model
+  initialProject?: File;
+  // Session stored in the browser to restore instead of a model
+  initialSession?: StoredSession;
+  // Id the session is kept in the browser under
+  sessionId: string;
 }
 
-const Editor: React.FC<EditorProps> = ({ initialFile }) => {
+const Editor: React.FC<EditorProps> = ({
+  initialFile,
+  initialResources,
+  initialProject,
+  initialSession,
+  sessionId,
+}) => {
   // Create the ref correctly
   const canvasRef = useRef<HTMLDivElement>(null!);
 
   // State
   const [editorMode, setEditorMode] = useState<EditorMode>(EditorMode.View);
   const [error, setError] = useState<string | null>(null);
+  const [exportPackaging, setExportPackaging] = useState<PartPackaging>("glb");
+  // Cut or slice in the cut history whose planes are being changed
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [showJoinery, setShowJoinery] = useState(false);
 
   // Initialize Three.js scene
-  const { sceneRef, cameraRef, rendererRef, controlsRef, isInitialized } = useThreeJsSetup(canvasRef);
+  const {
+    sceneRef,
+    cameraRef,
+    rendererRef,
+    controlsRef,
+    selectionOutlineRef,
+    hoverOutlineRef,
+    isInitialized,
+  } = useThreeJsSetup(canvasRef);
 
   // Load model
-  const { modelRef, modelLoaded, loadingProgress, error: modelError } = useModelLoading({
+  const {
+    modelRef,
+    modelLoaded,
+    loadingProgress,
+    error: modelError,
+    loadModel,
+    createPristineModel,
+    modelFrame,
+    setModelUnit,
+    getModelSource,
+  } = useModelLoading({
     sceneRef,
-    initialFile
+    rendererRef,
+    initialFile,
+    initialResources
   });
 
   // Set error from model loading
@@ -33,28 +94,246 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
   }, [modelError]);
 
   // Cutting logic
-  const { performCut, toggleEditorMode, objectPartsRef, exportSelectedPart } = useCuttingLogic({
+  const {
+    performCut,
+    cutShape,
+    setCutShape,
+    performProfileCut,
+    objectPartsRef,
+    toggleEditorMode,
+    exportSelectedPart,
+    exportAllParts,
+    exportCompression,
+    setExportCompression,
+    exportFormatId,
+    setExportFormatId,
+    cutSections,
+    partNodes,
+    partDetails,
+    renamePart,
+    setPartColor,
+    setPartVisible,
+    setPartLocked,
+    selectedPartIds,
+    selectPartById,
+    selectPartsInArea,
+    groupSelectedParts,
+    ungroupSelectedParts,
+    deleteSelectedParts,
+    joinSelectedParts,
+    getProjectState,
+    replayProject,
+    operations,
+    editCut,
+    editSlice,
+    getOperationBounds,
+    getOperationExtent,
+    undoLastOperation,
+    redoLastOperation,
+    undoLabel,
+    redoLabel,
+    resetEditor,
+    previewCuttingPlane,
+    getCutBounds,
+    planeGizmoMode,
+    setPlaneGizmoTransformMode,
+    applyPlaneGizmo,
+    cancelPlaneGizmo,
+    cutProgress,
+    cancelCut,
+    drawnSliceDirection,
+    getSliceExtent,
+    previewSlices,
+    performSlice,
+  } = useCuttingLogic({
     sceneRef,
     cameraRef,
     rendererRef,
     controlsRef,
+    selectionOutlineRef,
+    hoverOutlineRef,
     modelRef,
+    createPristineModel,
+    createCutWorker,
+    modelFrame,
     setError,
     setEditorMode
   });
 
-  // Add this state to track if any parts have been cut
-  const [hasCutParts, setHasCutParts] = useState(false);
+  const { saveProject, isOpening } = useProjectFile({
+    initialProject,
+    initialSession,
+    modelFrame,
+    loadModel,
+    setModelUnit,
+    getModelSource,
+    getProjectState,
+    replayProject,
+    setError,
+  });
+
+  useSessionPersistence({
+    sessionId,
+    enabled: modelLoaded && !isOpening,
+    modelFrame,
+    parts: partDetails,
+    getModelSource,
+    getProjectState,
+  });
+
+  // The part tree only grows beyond its root once the model has been cut
+  const hasCutParts = partNodes.length > 1;
+
+  // Undoing the operation being edited closes its panel
+  const editingOperation =
+    editingIndex !== null ? operations[editingIndex] : undefined;
+
+  // Points are measured on the parts, or on the model before the first cut
+  const getMeasureTargets = useCallback(
+    () =>
+      objectPartsRef.current.length > 0
+        ? objectPartsRef.current.filter((part) => part.visible)
+        : modelRef.current
+        ? [modelRef.current]
+        : [],
+    [objectPartsRef, modelRef]
+  );
+
+  const getSelectableParts = useCallback(
+    () => objectPartsRef.current,
+    [objectPartsRef]
+  );
+
+  useAreaSelection({
+    cameraRef,
+    rendererRef,
+    editorMode,
+    getParts: getSelectableParts,
+    onSelect: selectPartsInArea,
+  });
+
+  const {
+    profilePointCount,
+    finishProfile,
+    cancelProfile,
+    removeLastProfilePoint,
+  } = useProfileDrawing({
+    rendererRef,
+    editorMode,
+    cutShape,
+    onDraw: performProfileCut,
+  });
+
+  const {
+    measureTool,
+    setMeasureTool,
+    measurements,
+    pendingPointCount,
+    cancelMeasurement,
+    removeMeasurement,
+    clearMeasurements,
+  } = useMeasurements({
+    sceneRef,
+    cameraRef,
+    rendererRef,
+    getTargets: getMeasureTargets,
+    editorMode,
+    modelFrame,
+    cutSections,
+  });
 
-  // Update hasCutParts when objectPartsRef changes
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) step through the edit history,
+  // Enter / Escape apply or discard the cutting plane gizmo or the cutting
+  // profile being drawn, Backspace takes back its last point, Escape also
+  // cancels a running cut or the measurement being picked, Delete removes
+  // the selected parts and Ctrl+G / Ctrl+Shift+G group and ungroup them
   useEffect(() => {
-    setHasCutParts(objectPartsRef.current.length > 0);
-  }, [objectPartsRef.current]);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) {
+        return;
+      }
+      if (cutProgress !== null && event.key === "Escape") {
+        event.preventDefault();
+        cancelCut();
+        return;
+      }
+      if (planeGizmoMode && event.key === "Enter") {
+        event.preventDefault();
+        applyPlaneGizmo();
+        return;
+      }
+      if (planeGizmoMode && event.key === "Escape") {
+        event.preventDefault();
+        cancelPlaneGizmo();
+        return;
+      }
+      if (editorMode === EditorMode.Measure && event.key === "Escape") {
+        event.preventDefault();
+        cancelMeasurement();
+        return;
+      }
+      if (profilePointCount > 0 && ["Enter", "Escape", "Backspace"].includes(event.key)) {
+        event.preventDefault();
+        if (event.key === "Enter") {
+          finishProfile();
+        } else if (event.key === "Escape") {
+          cancelProfile();
+        } else {
+          removeLastProfilePoint();
+        }
+        return;
+      }
+      if (selectedPartIds.length > 0 && (event.key === "Delete" || event.key === "Backspace")) {
+        event.preventDefault();
+        deleteSelectedParts();
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undoLastOperation();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redoLastOperation();
+      } else if (key === "g") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          ungroupSelectedParts();
+        } else {
+          groupSelectedParts();
+        }
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    undoLastOperation,
+    redoLastOperation,
+    planeGizmoMode,
+    applyPlaneGizmo,
+    cancelPlaneGizmo,
+    cutProgress,
+    cancelCut,
+    editorMode,
+    cancelMeasurement,
+    profilePointCount,
+    finishProfile,
+    cancelProfile,
+    removeLastProfilePoint,
+    selectedPartIds,
+    deleteSelectedParts,
+    groupSelectedParts,
+    ungroupSelectedParts,
+  ]);
 
   // Ensure controls are enabled/disabled based on editor mode
   useEffect(() => {
     if (controlsRef.current) {
-      controlsRef.current.enabled = editorMode === EditorMode.View;
+      controlsRef.current.enabled = allowsOrbit(editorMode);
     }
   }, [editorMode, controlsRef]);
 
@@ -62,8 +341,34 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
     <section className="h-full w-full col-span-8 row-span-8 grid grid-cols-6 grid-rows-6 relative">
       {/* File info overlay */}
       <div className="absolute top-0 left-0 bg-black bg-opacity-50 p-2 z-10 text-white text-xs">
-        {initialFile ? `File: ${initialFile.name}` : "No file provided"}
+        {initialFile
+          ? `File: ${initialFile.name}`
+          : initialProject
+          ? `Project: ${initialProject.name}`
+          : initialSession
+          ? `File: ${initialSession.file.name}`
+          : "No file provided"}
         {modelLoaded ? " - Model loaded" : " - Model not loaded"}
+        {modelFrame && (
+          <label
+            className="ml-2"
+            title="Unit of the model file's coordinates, used for every length shown, typed or exported"
+          >
+            <span className="text-gray-400">Units</span>
+            <select
+              id="modelUnitSelect"
+              className="ml-1 px-1 rounded bg-gray-900 text-white"
+              value={modelFrame.unit}
+              onChange={(e) => setModelUnit(e.target.value as LengthUnit)}
+            >
+              {LENGTH_UNITS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
 
       {/* Tools panel */}
@@ -84,14 +389,68 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
           >
             Cut
           </button>
+          <button
+            id="sliceButton"
+            className={`px-4 py-2 rounded ${editorMode === EditorMode.Slice ? "bg-blue-500" : "bg-gray-600"}`}
+            onClick={() => toggleEditorMode(EditorMode.Slice)}
+            disabled={!modelLoaded}
+          >
+            Slice
+          </button>
+          <button
+            id="measureButton"
+            className={`px-4 py-2 rounded ${editorMode === EditorMode.Measure ? "bg-blue-500" : "bg-gray-600"}`}
+            onClick={() => toggleEditorMode(EditorMode.Measure)}
+            disabled={!modelLoaded}
+          >
+            Measure
+          </button>
           <button
             id="moveButton"
             className={`px-4 py-2 rounded ${editorMode === EditorMode.Move ? "bg-blue-500" : "bg-gray-600"}`}
             onClick={() => toggleEditorMode(EditorMode.Move)}
-            disabled={objectPartsRef.current.length === 0}
+            disabled={!hasCutParts}
           >
             Move
           </button>
+          <div className="flex space-x-2">
+            <button
+              id="undoButton"
+              className={`flex-1 px-2 py-2 rounded ${undoLabel ? "bg-gray-600" : "bg-gray-700 text-gray-500"}`}
+              onClick={undoLastOperation}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+            >
+              Undo
+            </button>
+            <button
+              id="redoButton"
+              className={`flex-1 px-2 py-2 rounded ${redoLabel ? "bg-gray-600" : "bg-gray-700 text-gray-500"}`}
+              onClick={redoLastOperation}
+              disabled={!redoLabel}
+              title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+            >
+              Redo
+            </button>
+          </div>
+          <button
+            id="resetButton"
+            className={`px-4 py-2 rounded ${hasCutParts ? "bg-red-700" : "bg-gray-600"}`}
+            onClick={resetEditor}
+            disabled={!modelLoaded}
+            title="Discard all cuts and restore the original model"
+          >
+            Reset
+          </button>
+          <button
+            id="saveProjectButton"
+            className="px-4 py-2 rounded bg-gray-600"
+            onClick={saveProject}
+            disabled={!modelLoaded}
+            title="Download the model with its cuts, part names, colors and positions as a project file that can be opened again from the upload page"
+          >
+            Save Project
+          </button>
           <button 
             id="downloadButton"
             className={`px-4 py-2 rounded mt-4 ${
@@ -99,17 +458,288 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
             }`}
             onClick={exportSelectedPart}
             disabled={!hasCutParts || editorMode !== EditorMode.Move}
-            title="Select a part first to download it"
+            title="Select a part first to download it. Several selected parts are downloaded as a ZIP in the chosen format."
+          >
+            {selectedPartIds.length > 1
+              ? `Download ${selectedPartIds.length} Selected Parts`
+              : "Download Selected Part"}
+          </button>
+          <div className="flex space-x-2">
+            <button
+              id="groupButton"
+              className={`flex-1 px-2 py-1 rounded ${selectedPartIds.length > 1 ? "bg-gray-600" : "bg-gray-700 text-gray-500"}`}
+              onClick={groupSelectedParts}
+              disabled={selectedPartIds.length < 2}
+              title="Group the selected parts into one part (Ctrl+G)"
+            >
+              Group
+            </button>
+            <button
+              id="ungroupButton"
+              className={`flex-1 px-2 py-1 rounded ${selectedPartIds.length > 0 ? "bg-gray-600" : "bg-gray-700 text-gray-500"}`}
+              onClick={ungroupSelectedParts}
+              disabled={selectedPartIds.length === 0}
+              title="Split the selected groups into their parts (Ctrl+Shift+G)"
+            >
+              Ungroup
+            </button>
+            <button
+              id="deleteButton"
+              className={`flex-1 px-2 py-1 rounded ${selectedPartIds.length > 0 ? "bg-red-700" : "bg-gray-700 text-gray-500"}`}
+              onClick={deleteSelectedParts}
+              disabled={selectedPartIds.length === 0}
+              title="Remove the selected parts (Delete)"
+            >
+              Delete
+            </button>
+          </div>
+          <button
+            id="jointsButton"
+            className={`px-4 py-1 rounded ${showJoinery ? "bg-blue-500" : "bg-gray-600"}`}
+            onClick={() => setShowJoinery(!showJoinery)}
+            disabled={!hasCutParts}
+            title="Add pegs, dovetails or magnet pockets across the face two pieces were cut apart along"
+          >
+            Joints
+          </button>
+          <label className="flex items-center justify-between text-white text-xs">
+            <span className="text-gray-400">Format</span>
+            <select
+              id="exportFormatSelect"
+              className="ml-2 px-1 rounded bg-gray-900 text-white"
+              value={exportFormatId}
+              onChange={(e) => setExportFormatId(e.target.value)}
+            >
+              {PART_FILE_FORMATS.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-white text-xs">
+            <span className="text-gray-400">GLB compression</span>
+            <select
+              id="exportCompressionSelect"
+              className="ml-2 px-1 rounded bg-gray-900 text-white"
+              value={exportCompression}
+              onChange={(e) =>
+                setExportCompression(e.target.value as ExportCompression)
+              }
+            >
+              {EXPORT_COMPRESSIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            id="exportAllButton"
+            className={`px-4 py-2 rounded mt-2 ${hasCutParts ? "bg-green-600" : "bg-gray-600"}`}
+            onClick={() => exportAllParts(exportPackaging)}
+            disabled={!hasCutParts}
+            title="Download every part with a manifest of names, bounds and volumes. A ZIP holds one file per part in the chosen format."
           >
-            Download Selected Part
+            Export All Parts
           </button>
+          <div className="flex space-x-1 text-white text-xs">
+            <select
+              id="exportPackagingSelect"
+              className="flex-1 px-1 rounded bg-gray-900 text-white"
+              value={exportPackaging}
+              onChange={(e) => setExportPackaging(e.target.value as PartPackaging)}
+            >
+              <option value="glb">Single GLB</option>
+              <option value="zip">ZIP of files in the chosen format</option>
+            </select>
+          </div>
         </div>
       </div>
 
+      {/* Part hierarchy and inspector */}
+      {hasCutParts && (
+        <div className="absolute top-20 right-4 w-64 max-h-[60%] flex flex-col space-y-2 z-10">
+          <PartTreePanel
+            partNodes={partNodes}
+            selectedPartIds={selectedPartIds}
+            onSelectPart={selectPartById}
+          />
+          <PartInspectorPanel
+            frame={modelFrame || IDENTITY_FRAME}
+            parts={partDetails}
+            selectedPartIds={selectedPartIds}
+            onSelectPart={selectPartById}
+            onRename={renamePart}
+            onColorChange={setPartColor}
+            onVisibleChange={setPartVisible}
+            onLockedChange={setPartLocked}
+          />
+          <CutHistoryPanel
+            operations={operations}
+            editingIndex={editingOperation ? editingIndex : null}
+            onEdit={setEditingIndex}
+          />
+        </div>
+      )}
+
+      {/* Changing the plane of an earlier cut */}
+      {editingIndex !== null && editingOperation?.type === "cut" && (
+        <CutPlanePanel
+          key={editingIndex}
+          frame={modelFrame || IDENTITY_FRAME}
+          getBounds={() => getOperationBounds(editingIndex)}
+          onPreview={previewCuttingPlane}
+          onApply={(plane) => {
+            setEditingIndex(null);
+            editCut(editingIndex, plane);
+          }}
+          initialPlane={fromProjectPlane(editingOperation.plane)}
+          title={`Edit cut #${editingIndex + 1}`}
+          applyLabel="Recompute"
+          onCancel={() => setEditingIndex(null)}
+        />
+      )}
+
+      {/* Changing the separators of an earlier slice */}
+      {editingIndex !== null && editingOperation?.type === "slice" && (
+        <SlicePanel
+          key={editingIndex}
+          frame={modelFrame || IDENTITY_FRAME}
+          drawnDirection={null}
+          getExtent={(direction) => getOperationExtent(editingIndex, direction)}
+          onPreview={previewSlices}
+          onApply={(separators) => {
+            setEditingIndex(null);
+            editSlice(editingIndex, separators);
+          }}
+          initialSeparators={editingOperation.separators.map(({ start, end }) => ({
+            start: fromProjectPlane(start),
+            end: fromProjectPlane(end),
+          }))}
+          title={`Edit slice #${editingIndex + 1}`}
+          applyLabel="Recompute"
+          onCancel={() => setEditingIndex(null)}
+        />
+      )}
+
+      {/* Joinery between two pieces of a cut */}
+      {showJoinery &&
+        hasCutParts &&
+        !editingOperation &&
+        (editorMode === EditorMode.View || editorMode === EditorMode.Move) && (
+          <JoineryPanel
+            frame={modelFrame || IDENTITY_FRAME}
+            canApply={selectedPartIds.length === 2}
+            onApply={joinSelectedParts}
+            onClose={() => setShowJoinery(false)}
+          />
+        )}
+
+      {/* What Cut mode cuts along */}
+      {editorMode === EditorMode.Cut && !planeGizmoMode && (
+        <div className="absolute top-14 left-1/2 transform -translate-x-1/2 bg-gray-800 bg-opacity-75 p-2 rounded-md z-20 flex space-x-2 text-sm">
+          {CUT_SHAPES.map((entry) => (
+            <button
+              key={entry.shape}
+              className={`px-3 py-1 rounded ${cutShape === entry.shape ? "bg-blue-500" : "bg-gray-600"}`}
+              onClick={() => setCutShape(entry.shape)}
+            >
+              {entry.label}
+            </button>
+          ))}
+          {profilePointCount > 1 && cutShape !== "freehand" && (
+            <button
+              className="px-3 py-1 rounded bg-green-600"
+              onClick={finishProfile}
+              title="Cut along the line (Enter)"
+            >
+              Apply
+            </button>
+          )}
+          {profilePointCount > 0 && (
+            <button
+              className="px-3 py-1 rounded bg-gray-600"
+              onClick={cancelProfile}
+              title="Discard the line (Escape)"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Numeric cutting plane entry */}
+      {editorMode === EditorMode.Cut && cutShape === "plane" && !editingOperation && (
+        <CutPlanePanel
+          frame={modelFrame || IDENTITY_FRAME}
+          getBounds={getCutBounds}
+          onPreview={previewCuttingPlane}
+          onApply={performCut}
+        />
+      )}
+
+      {/* Cutting plane gizmo controls */}
+      {planeGizmoMode && (
+        <div className="absolute top-14 left-1/2 transform -translate-x-1/2 bg-gray-800 bg-opacity-75 p-2 rounded-md z-20 flex space-x-2 text-sm">
+          <button
+            className={`px-3 py-1 rounded ${planeGizmoMode === "translate" ? "bg-blue-500" : "bg-gray-600"}`}
+            onClick={() => setPlaneGizmoTransformMode("translate")}
+          >
+            Move plane
+          </button>
+          <button
+            className={`px-3 py-1 rounded ${planeGizmoMode === "rotate" ? "bg-blue-500" : "bg-gray-600"}`}
+            onClick={() => setPlaneGizmoTransformMode("rotate")}
+          >
+            Rotate plane
+          </button>
+          <button
+            className="px-3 py-1 rounded bg-green-600"
+            onClick={applyPlaneGizmo}
+            title="Apply the cut (Enter)"
+          >
+            Apply
+          </button>
+          <button
+            className="px-3 py-1 rounded bg-gray-600"
+            onClick={cancelPlaneGizmo}
+            title="Discard the plane (Escape)"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Multi-slice settings */}
+      {editorMode === EditorMode.Slice && !editingOperation && (
+        <SlicePanel
+          frame={modelFrame || IDENTITY_FRAME}
+          drawnDirection={drawnSliceDirection}
+          getExtent={getSliceExtent}
+          onPreview={previewSlices}
+          onApply={performSlice}
+        />
+      )}
+
+      {/* Measurement tools */}
+      {editorMode === EditorMode.Measure && (
+        <MeasurePanel
+          frame={modelFrame || IDENTITY_FRAME}
+          tool={measureTool}
+          onToolChange={setMeasureTool}
+          measurements={measurements}
+          pendingPointCount={pendingPointCount}
+          cutSections={cutSections}
+          onRemove={removeMeasurement}
+          onClear={clearMeasurements}
+        />
+      )}
+
       {/* 3D Canvas */}
       <div
         ref={canvasRef}
-        className="w-full h-full col-span-6 row-span-6"
+        className="w-full h-full col-span-6 row-span-6 relative"
       ></div>
       {/* Loading progress indicator */}
       {loadingProgress > 0 && loadingProgress < 100 && (
@@ -124,6 +754,28 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
         </div>
       )}
 
+      {/* Cut progress indicator */}
+      {cutProgress !== null && (
+        <div className="absolute top-14 left-1/2 transform -translate-x-1/2 bg-gray-800 p-3 rounded-md z-20 w-64">
+          <div className="flex items-center justify-between">
+            <p>Cutting: {Math.round(cutProgress * 100)}%</p>
+            <button
+              id="cancelCutButton"
+              className="px-3 py-1 rounded bg-red-700 text-sm"
+              onClick={cancelCut}
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="w-full bg-gray-700 h-2 mt-2 rounded-full overflow-hidden">
+            <div
+              className="bg-blue-500 h-full transition-all"
+              style={{ width: `${cutProgress * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="absolute top-4 right-4 bg-red-800 p-3 rounded-md z-10">
@@ -138,21 +790,58 @@ const Editor: React.FC<EditorProps> = ({ initialFile }) => {
           {editorMode === EditorMode.View && (
             <p className="text-gray-400">Use mouse to orbit, zoom and pan</p>
           )}
-          {editorMode === EditorMode.Cut && (
+          {editorMode === EditorMode.Cut && planeGizmoMode && (
+            <p className="text-gray-400">
+              Drag the handles to adjust the plane, then apply the cut
+            </p>
+          )}
+          {editorMode === EditorMode.Cut && cutShape !== "plane" && (
+            <p className="text-gray-400">
+              {cutShape === "freehand"
+                ? "Drag to draw the line to cut along"
+                : "Click to place points, double-click or press Enter to cut along them"}
+              ; the line is swept along the view direction
+              {hasCutParts &&
+                (selectedPartIds.length > 0
+                  ? " through the selected parts"
+                  : " through all parts")}
+            </p>
+          )}
+          {editorMode === EditorMode.Cut && cutShape === "plane" && !planeGizmoMode && (
             <p className="text-gray-400">
               Click and drag to define a cutting plane
+              {hasCutParts &&
+                (selectedPartIds.length > 0
+                  ? " through the selected parts"
+                  : " through all parts")}
+            </p>
+          )}
+          {editorMode === EditorMode.Slice && (
+            <p className="text-gray-400">
+              Pick an axis or drag to draw the slicing direction
+              {hasCutParts &&
+                (selectedPartIds.length > 0
+                  ? " for the selected parts"
+                  : " for all parts")}
             </p>
           )}
           {editorMode === EditorMode.Move && (
             <p className="text-gray-400">
-              Click and drag to move the parts independently
+              Drag parts to move them (the whole selection when they are
+              selected); Shift-click to select several, drag on empty space to
+              box select or hold Alt to lasso
+            </p>
+          )}
+          {editorMode === EditorMode.Measure && (
+            <p className="text-gray-400">
+              Click points to measure; drag to orbit
             </p>
           )}
         </div>
       )}
 
       {/* Mode indicator */}
-      {editorMode !== EditorMode.View && (
+      {!allowsOrbit(editorMode) && (
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-yellow-700 text-white py-1 px-3 rounded-md z-20 text-sm">
           Camera rotation disabled
         </div>
@@ -0,0 +1,81 @@
+import React from "react";
+import { ProjectOperation } from "./projectFile";
+
+interface CutHistoryPanelProps {
+  operations: ProjectOperation[];
+  // Index of the operation whose planes are being edited
+  editingIndex: number | null;
+  onEdit: (index: number) => void;
+}
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const describeOperation = (operation: ProjectOperation) => {
+  switch (operation.type) {
+    case "cut":
+      return `Cut ${plural(operation.parts.length, "part")}`;
+    case "slice":
+      return `Slice ${plural(operation.parts.length, "part")} into ${
+        operation.separators.length + 1
+      } slabs`;
+    case "profile":
+      return `Profile cut ${plural(operation.parts.length, "part")}`;
+    case "group":
+      return `Group ${plural(operation.members.length, "part")}`;
+    case "ungroup":
+      return `Ungroup ${plural(operation.groups.length, "group")}`;
+    case "delete":
+      return `Delete ${plural(operation.ids.length, "part")}`;
+    case "color":
+      return "Recolor a part";
+    case "joint":
+      return `Join 2 parts with ${plural(
+        operation.options.count,
+        operation.options.kind
+      )}`;
+  }
+};
+
+// The operations applied to the model, in order. Plane cuts and slices can
+// be edited, which computes them and everything after them again.
+const CutHistoryPanel: React.FC<CutHistoryPanelProps> = ({
+  operations,
+  editingIndex,
+  onEdit,
+}) => {
+  if (operations.length === 0) return null;
+
+  return (
+    <div className="max-h-48 overflow-y-auto bg-gray-800 bg-opacity-75 p-2 rounded-md text-sm">
+      <p className="font-semibold mb-1">Cut history</p>
+      <ol className="space-y-1">
+        {operations.map((operation, index) => (
+          <li
+            key={index}
+            className={`flex items-center px-1 rounded ${
+              editingIndex === index ? "bg-blue-500 bg-opacity-50" : ""
+            }`}
+          >
+            <span className="w-8 text-gray-400">#{index + 1}</span>
+            <span className="flex-1 truncate">
+              {describeOperation(operation)}
+            </span>
+            {(operation.type === "cut" || operation.type === "slice") && (
+              <button
+                className="px-2 rounded bg-gray-600 hover:bg-gray-500 text-xs"
+                onClick={() => onEdit(index)}
+                disabled={editingIndex !== null}
+                title="Change the planes and recompute this and later operations"
+              >
+                Edit
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CutHistoryPanel;
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from "react";
+import * as THREE from "three";
+import {
+  Axis,
+  CutPlaneInput,
+  CutPlaneInputMode,
+  planeFromInput,
+} from "./cutPlaneInput";
+import {
+  formatLength,
+  modelToSceneMatrix,
+  ModelFrame,
+  sceneToModelMatrix,
+} from "./units";
+
+interface CutPlanePanelProps {
+  // Coordinates are typed in the model file's units
+  frame: ModelFrame;
+  getBounds: () => THREE.Box3 | null;
+  onPreview: (plane: THREE.Plane | null) => void;
+  onApply: (plane: THREE.Plane) => void;
+  // When editing an earlier cut: its plane in scene coordinates, typed in as
+  // a point and normal to start with
+  initialPlane?: THREE.Plane;
+  title?: string;
+  applyLabel?: string;
+  onCancel?: () => void;
+}
+
+const MODES: { mode: CutPlaneInputMode; label: string }[] = [
+  { mode: "axis", label: "Axis" },
+  { mode: "bounds", label: "Bounds" },
+  { mode: "pointNormal", label: "Point + normal" },
+];
+
+const AXES: Axis[] = ["x", "y", "z"];
+
+const formatNumber = (value: number) => String(Number(value.toFixed(6)));
+
+// Point and normal of a scene plane in file coordinates, the point being
+// the one closest to the middle of the bounds
+const describePlane = (
+  scenePlane: THREE.Plane,
+  frame: ModelFrame,
+  sceneBounds: THREE.Box3 | null
+) => {
+  const plane = scenePlane.clone().applyMatrix4(sceneToModelMatrix(frame));
+  const center = sceneBounds
+    ? sceneBounds
+        .applyMatrix4(sceneToModelMatrix(frame))
+        .getCenter(new THREE.Vector3())
+    : new THREE.Vector3();
+  const point = plane.projectPoint(center, new THREE.Vector3());
+  return {
+    point: point.toArray().map(formatNumber),
+    normal: plane.normal.toArray().map(formatNumber),
+  };
+};
+
+const NumberField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, value, onChange }) => (
+  <label className="flex items-center space-x-1">
+    <span className="w-4 text-gray-400 uppercase">{label}</span>
+    <input
+      type="number"
+      step="any"
+      className="w-16 px-1 rounded bg-gray-900 text-white"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </label>
+);
+
+const CutPlanePanel: React.FC<CutPlanePanelProps> = ({
+  frame,
+  getBounds,
+  onPreview,
+  onApply,
+  initialPlane,
+  title = "Cutting plane",
+  applyLabel = "Apply cut",
+  onCancel,
+}) => {
+  const [initial] = useState(
+    () => initialPlane && describePlane(initialPlane, frame, getBounds())
+  );
+  const [mode, setMode] = useState<CutPlaneInputMode>(
+    initial ? "pointNormal" : "axis"
+  );
+  const [axis, setAxis] = useState<Axis>("x");
+  const [offset, setOffset] = useState("0");
+  const [distance, setDistance] = useState("0");
+  const [point, setPoint] = useState(initial?.point || ["0", "0", "0"]);
+  const [normal, setNormal] = useState(initial?.normal || ["1", "0", "0"]);
+
+  const sceneBounds = getBounds();
+  const bounds =
+    sceneBounds && sceneBounds.applyMatrix4(sceneToModelMatrix(frame));
+  const input: CutPlaneInput = {
+    mode,
+    axis,
+    offset: parseFloat(offset),
+    distance: parseFloat(distance),
+    point: point.map(parseFloat) as [number, number, number],
+    normal: normal.map(parseFloat) as [number, number, number],
+  };
+  const modelPlane = planeFromInput(input, bounds);
+  const plane =
+    modelPlane && modelPlane.applyMatrix4(modelToSceneMatrix(frame));
+
+  // Preview the typed plane. It is rebuilt from its numbers so re-renders
+  // that do not change the plane keep the same one and skip the preview.
+  const [nx, ny, nz] = plane ? plane.normal.toArray() : [];
+  const constant = plane?.constant;
+  const previewPlane = useMemo(
+    () =>
+      constant === undefined
+        ? null
+        : new THREE.Plane(new THREE.Vector3(nx, ny, nz), constant),
+    [nx, ny, nz, constant]
+  );
+  useEffect(() => {
+    onPreview(previewPlane);
+  }, [previewPlane, onPreview]);
+
+  // Remove the preview when the panel closes
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const boundsSize = bounds ? bounds.getSize(new THREE.Vector3()) : null;
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 bg-gray-800 bg-opacity-75 p-2 rounded-md z-10 text-sm">
+      <p className="font-semibold mb-1">{title}</p>
+      <div className="flex space-x-1 mb-2">
+        {MODES.map((entry) => (
+          <button
+            key={entry.mode}
+            className={`flex-1 px-1 py-1 rounded text-xs ${
+              mode === entry.mode ? "bg-blue-500" : "bg-gray-600"
+            }`}
+            onClick={() => setMode(entry.mode)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+
+      {(mode === "axis" || mode === "bounds") && (
+        <div className="flex items-center space-x-2 mb-2">
+          <span className="text-gray-400">Axis</span>
+          {AXES.map((value) => (
+            <button
+              key={value}
+              className={`px-2 rounded uppercase ${
+                axis === value ? "bg-blue-500" : "bg-gray-600"
+              }`}
+              onClick={() => setAxis(value)}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {mode === "axis" && (
+        <div className="flex items-center space-x-1">
+          <NumberField label="at" value={offset} onChange={setOffset} />
+          <span className="text-xs text-gray-400">{frame.unit}</span>
+        </div>
+      )}
+
+      {mode === "bounds" && (
+        <div>
+          <div className="flex items-center space-x-1">
+            <NumberField label="d" value={distance} onChange={setDistance} />
+            <span className="text-xs text-gray-400">{frame.unit}</span>
+          </div>
+          {bounds && boundsSize && (
+            <p className="text-xs text-gray-400 mt-1">
+              Distance from {formatLength(bounds.min[axis], frame.unit)}{" "}
+              (bounding box size {formatLength(boundsSize[axis], frame.unit)})
+            </p>
+          )}
+        </div>
+      )}
+
+      {mode === "pointNormal" && (
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs">Point ({frame.unit})</p>
+          <div className="flex space-x-1">
+            {AXES.map((label, i) => (
+              <NumberField
+                key={label}
+                label={label}
+                value={point[i]}
+                onChange={(value) =>
+                  setPoint(point.map((v, j) => (j === i ? value : v)))
+                }
+              />
+            ))}
+          </div>
+          <p className="text-gray-400 text-xs">Normal</p>
+          <div className="flex space-x-1">
+            {AXES.map((label, i) => (
+              <NumberField
+                key={label}
+                label={label}
+                value={normal[i]}
+                onChange={(value) =>
+                  setNormal(normal.map((v, j) => (j === i ? value : v)))
+                }
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex space-x-2 mt-2">
+        <button
+          className={`flex-1 px-4 py-1 rounded ${
+            plane ? "bg-green-600" : "bg-gray-600"
+          }`}
+          disabled={!plane}
+          onClick={() => plane && onApply(plane)}
+        >
+          {applyLabel}
+        </button>
+        {onCancel && (
+          <button className="px-4 py-1 rounded bg-gray-600" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CutPlanePanel;
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import {
+  JOINT_KINDS,
+  JointKind,
+  JointOptions,
+  MAX_JOINTS,
+} from "./jointPlacement";
+import { convertLength, ModelFrame } from "./units";
+
+interface JoineryPanelProps {
+  // Sizes are typed in the model file's units
+  frame: ModelFrame;
+  // Joints need the two pieces of a cut selected
+  canApply: boolean;
+  onApply: (options: JointOptions) => void;
+  onClose: () => void;
+}
+
+// Starting sizes, in millimeters, that suit common FDM prints
+const DEFAULT_SIZES = { size: 5, depth: 4, clearance: 0.2 };
+
+const SizeField: React.FC<{
+  label: string;
+  unit: string;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, unit, value, onChange }) => (
+  <label className="flex items-center justify-between">
+    <span className="text-gray-400">
+      {label} ({unit})
+    </span>
+    <input
+      type="number"
+      min={0}
+      step="any"
+      className="w-20 px-1 rounded bg-gray-900 text-white"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </label>
+);
+
+const JoineryPanel: React.FC<JoineryPanelProps> = ({
+  frame,
+  canApply,
+  onApply,
+  onClose,
+}) => {
+  const inFileUnits = (millimeters: number) =>
+    String(Number(convertLength(millimeters, "mm", frame.unit).toPrecision(3)));
+
+  const [kind, setKind] = useState<JointKind>("peg");
+  const [size, setSize] = useState(() => inFileUnits(DEFAULT_SIZES.size));
+  const [depth, setDepth] = useState(() => inFileUnits(DEFAULT_SIZES.depth));
+  const [count, setCount] = useState("2");
+  const [clearance, setClearance] = useState(() =>
+    inFileUnits(DEFAULT_SIZES.clearance)
+  );
+
+  const values = {
+    size: parseFloat(size),
+    depth: parseFloat(depth),
+    clearance: parseFloat(clearance),
+    count: Number(count),
+  };
+  const valid =
+    values.size > 0 &&
+    values.depth > 0 &&
+    values.clearance >= 0 &&
+    Number.isInteger(values.count) &&
+    values.count >= 1 &&
+    values.count <= MAX_JOINTS;
+
+  const handleApply = () =>
+    onApply({
+      kind,
+      size: values.size * frame.scale,
+      depth: values.depth * frame.scale,
+      count: values.count,
+      clearance: values.clearance * frame.scale,
+    });
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 bg-gray-800 bg-opacity-75 p-2 rounded-md z-10 text-sm">
+      <p className="font-semibold mb-1">Joints</p>
+      <div className="flex space-x-1 mb-2">
+        {JOINT_KINDS.map((entry) => (
+          <button
+            key={entry.kind}
+            className={`flex-1 px-1 py-1 rounded text-xs ${
+              kind === entry.kind ? "bg-blue-500" : "bg-gray-600"
+            }`}
+            onClick={() => setKind(entry.kind)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <SizeField
+          label={kind === "dovetail" ? "Width" : "Diameter"}
+          unit={frame.unit}
+          value={size}
+          onChange={setSize}
+        />
+        <SizeField
+          label={kind === "magnet" ? "Pocket depth" : "Length"}
+          unit={frame.unit}
+          value={depth}
+          onChange={setDepth}
+        />
+        <SizeField
+          label="Clearance"
+          unit={frame.unit}
+          value={clearance}
+          onChange={setClearance}
+        />
+        <label className="flex items-center justify-between">
+          <span className="text-gray-400">Count</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_JOINTS}
+            step={1}
+            className="w-20 px-1 rounded bg-gray-900 text-white"
+            value={count}
+            onChange={(e) => setCount(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-1">
+        {canApply
+          ? kind === "magnet"
+            ? "Pockets go into both selected pieces."
+            : "The first selected piece gets the joints, the second the matching holes."
+          : "Select the two pieces of a cut."}
+      </p>
+
+      <div className="flex space-x-2 mt-2">
+        <button
+          className={`flex-1 px-4 py-1 rounded ${
+            canApply && valid ? "bg-green-600" : "bg-gray-600"
+          }`}
+          disabled={!canApply || !valid}
+          onClick={handleApply}
+        >
+          Add joints
+        </button>
+        <button className="px-4 py-1 rounded bg-gray-600" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default JoineryPanel;
@@ -0,0 +1,115 @@
+import React from "react";
+import { CutSection } from "./crossSection";
+import { ModelFrame } from "./units";
+import {
+  describeMeasurement,
+  describeSection,
+  Measurement,
+  MeasureTool,
+  POINTS_PER_TOOL,
+} from "./useMeasurements";
+
+interface MeasurePanelProps {
+  frame: ModelFrame;
+  tool: MeasureTool;
+  onToolChange: (tool: MeasureTool) => void;
+  measurements: Measurement[];
+  pendingPointCount: number;
+  cutSections: CutSection[];
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}
+
+const TOOLS: { tool: MeasureTool; label: string }[] = [
+  { tool: "distance", label: "Distance" },
+  { tool: "angle", label: "Angle" },
+];
+
+const MeasurePanel: React.FC<MeasurePanelProps> = ({
+  frame,
+  tool,
+  onToolChange,
+  measurements,
+  pendingPointCount,
+  cutSections,
+  onRemove,
+  onClear,
+}) => {
+  const remaining = POINTS_PER_TOOL[tool] - pendingPointCount;
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 bg-gray-800 bg-opacity-75 p-2 rounded-md z-10 text-sm">
+      <p className="font-semibold mb-1">Measure</p>
+      <div className="flex space-x-1 mb-2">
+        {TOOLS.map((entry) => (
+          <button
+            key={entry.tool}
+            className={`flex-1 px-1 py-1 rounded text-xs ${
+              tool === entry.tool ? "bg-blue-500" : "bg-gray-600"
+            }`}
+            onClick={() => onToolChange(entry.tool)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mb-2">
+        {tool === "angle" && pendingPointCount === 1
+          ? "Click the corner of the angle"
+          : `Click ${remaining} more point${remaining > 1 ? "s" : ""}`}
+        ; points snap to nearby vertices and edges
+      </p>
+
+      {measurements.length > 0 && (
+        <ul className="space-y-1 mb-2 max-h-32 overflow-y-auto">
+          {measurements.map((measurement, i) => (
+            <li
+              key={measurement.id}
+              className="flex items-center justify-between text-xs"
+            >
+              <span>
+                <span className="text-gray-400 capitalize">
+                  {measurement.tool} {i + 1}
+                </span>{" "}
+                {describeMeasurement(measurement, frame)}
+              </span>
+              <button
+                className="px-1 rounded bg-gray-600"
+                onClick={() => onRemove(measurement.id)}
+                title="Remove this measurement"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {cutSections.length > 0 && (
+        <div className="mb-2">
+          <p className="text-gray-400 text-xs">Cut sections</p>
+          <ul className="max-h-32 overflow-y-auto">
+            {cutSections.map((section, i) => (
+              <li key={i} className="text-xs">
+                <span className="text-yellow-300">{section.part}</span>{" "}
+                {describeSection(section, frame)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        className={`w-full px-4 py-1 rounded ${
+          measurements.length > 0 ? "bg-red-700" : "bg-gray-600"
+        }`}
+        disabled={measurements.length === 0}
+        onClick={onClear}
+      >
+        Clear measurements
+      </button>
+    </div>
+  );
+};
+
+export default MeasurePanel;
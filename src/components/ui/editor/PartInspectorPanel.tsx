@@ -0,0 +1,162 @@
+import React, { useEffect, useRef } from "react";
+import { PartDetails } from "./usePartEditing";
+import {
+  formatArea,
+  formatVolume,
+  ModelFrame,
+  toModelArea,
+  toModelLength,
+  toModelPoint,
+  toModelVolume,
+} from "./units";
+
+interface PartInspectorPanelProps {
+  frame: ModelFrame;
+  parts: PartDetails[];
+  selectedPartIds: string[];
+  onSelectPart: (id: string, additive: boolean) => void;
+  onRename: (id: string, name: string) => void;
+  onColorChange: (id: string, color: string) => void;
+  onVisibleChange: (id: string, visible: boolean) => void;
+  onLockedChange: (id: string, locked: boolean) => void;
+}
+
+// Color input that only reports the color once the picker is closed, so
+// dragging through the picker records a single history entry
+const ColorSwatch: React.FC<{
+  color: string;
+  onChange: (color: string) => void;
+}> = ({ color, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (inputRef.current) inputRef.current.value = color;
+  }, [color]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    const handleChange = () => onChange(input.value);
+    input.addEventListener("change", handleChange);
+    return () => input.removeEventListener("change", handleChange);
+  }, [onChange]);
+
+  return (
+    <input
+      ref={inputRef}
+      type="color"
+      defaultValue={color}
+      className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+      title="Part color"
+    />
+  );
+};
+
+const PartInspectorPanel: React.FC<PartInspectorPanelProps> = ({
+  frame,
+  parts,
+  selectedPartIds,
+  onSelectPart,
+  onRename,
+  onColorChange,
+  onVisibleChange,
+  onLockedChange,
+}) => {
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto bg-gray-800 bg-opacity-75 p-2 rounded-md text-sm">
+      <p className="font-semibold mb-1">Inspector</p>
+      <ul className="space-y-2">
+        {parts.map((part) => {
+          const { volume, surfaceArea, triangleCount, bounds, centerOfMass } =
+            part.stats;
+          const size = bounds.max.clone().sub(bounds.min);
+          const center = toModelPoint(frame, centerOfMass);
+
+          return (
+            <li
+              key={part.id}
+              className={`p-1 rounded cursor-pointer ${
+                selectedPartIds.includes(part.id)
+                  ? "bg-blue-500 bg-opacity-50"
+                  : ""
+              } ${part.visible ? "" : "opacity-60"}`}
+              onClick={(event) =>
+                onSelectPart(part.id, event.shiftKey || event.ctrlKey)
+              }
+            >
+              <div
+                className="flex items-center space-x-1"
+                onClick={(event) => event.stopPropagation()}
+              >
+                <ColorSwatch
+                  color={part.color}
+                  onChange={(color) => onColorChange(part.id, color)}
+                />
+                <input
+                  key={part.name}
+                  defaultValue={part.name}
+                  className="flex-1 min-w-0 px-1 rounded bg-gray-700 text-white"
+                  onBlur={(event) => {
+                    onRename(part.id, event.target.value);
+                    // An empty name is rejected; show the current one again
+                    event.target.value = part.name;
+                  }}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") event.currentTarget.blur();
+                  }}
+                />
+                <button
+                  className="px-1 rounded bg-gray-600 text-xs"
+                  onClick={() => onVisibleChange(part.id, !part.visible)}
+                  title={part.visible ? "Hide this part" : "Show this part"}
+                >
+                  {part.visible ? "Hide" : "Show"}
+                </button>
+                <button
+                  className={`px-1 rounded text-xs ${
+                    part.locked ? "bg-yellow-600" : "bg-gray-600"
+                  }`}
+                  onClick={() => onLockedChange(part.id, !part.locked)}
+                  title={
+                    part.locked
+                      ? "Allow moving and cutting this part"
+                      : "Keep this part from being moved or cut"
+                  }
+                >
+                  {part.locked ? "Unlock" : "Lock"}
+                </button>
+              </div>
+              <dl className="grid grid-cols-2 gap-x-2 mt-1 text-xs">
+                <dt className="text-gray-400">Volume</dt>
+                <dd>
+                  {formatVolume(toModelVolume(frame, volume), frame.unit, 2)}
+                </dd>
+                <dt className="text-gray-400">Surface area</dt>
+                <dd>
+                  {formatArea(toModelArea(frame, surfaceArea), frame.unit, 2)}
+                </dd>
+                <dt className="text-gray-400">Size</dt>
+                <dd>
+                  {[size.x, size.y, size.z]
+                    .map((value) => toModelLength(frame, value).toFixed(2))
+                    .join(" × ")}{" "}
+                  {frame.unit}
+                </dd>
+                <dt className="text-gray-400">Center of mass</dt>
+                <dd>
+                  {[center.x, center.y, center.z]
+                    .map((value) => Number(value.toFixed(2)))
+                    .join(", ")}
+                </dd>
+                <dt className="text-gray-400">Triangles</dt>
+                <dd>{triangleCount.toLocaleString()}</dd>
+              </dl>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PartInspectorPanel;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { PartNode } from "./usePartTree";
+
+interface PartTreePanelProps {
+  partNodes: PartNode[];
+  selectedPartIds: string[];
+  // Shift- or Ctrl-clicking adds to the selection
+  onSelectPart: (id: string, additive: boolean) => void;
+}
+
+const PartTreePanel: React.FC<PartTreePanelProps> = ({
+  partNodes,
+  selectedPartIds,
+  onSelectPart,
+}) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  const nodesById = new Map(partNodes.map((node) => [node.id, node]));
+  const root = partNodes.find(
+    (node) => node.parentId === null && node.memberIds.length === 0
+  );
+  // Groups are listed after the model, unless they are part of a group
+  const groups = partNodes.filter(
+    (node) => node.memberIds.length > 0 && !node.groupId && !node.deleted
+  );
+  const isPart = (node: PartNode) =>
+    node.childIds.length === 0 && !node.groupId && !node.deleted;
+  const leafCount = partNodes.filter(isPart).length;
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Grouped parts are shown under their group rather than where they were
+  // cut from
+  const renderNode = (
+    node: PartNode,
+    depth: number,
+    inGroup = false
+  ): React.ReactNode => {
+    if (node.deleted || (node.groupId && !inGroup)) return null;
+
+    const children = [...node.memberIds, ...node.childIds]
+      .map((id) => nodesById.get(id))
+      .filter((child): child is PartNode => !!child);
+    const hasChildren = children.length > 0;
+    const isCollapsed = collapsedIds.has(node.id);
+    const selectable = isPart(node);
+
+    return (
+      <li key={node.id}>
+        <div
+          className={`flex items-center px-1 rounded cursor-pointer ${
+            selectedPartIds.includes(node.id)
+              ? "bg-blue-500"
+              : "hover:bg-gray-700"
+          }`}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          onClick={(event) =>
+            selectable
+              ? onSelectPart(node.id, event.shiftKey || event.ctrlKey)
+              : toggleCollapsed(node.id)
+          }
+        >
+          <span
+            className="w-4 text-gray-400"
+            onClick={(event) => {
+              if (!hasChildren) return;
+              event.stopPropagation();
+              toggleCollapsed(node.id);
+            }}
+          >
+            {!hasChildren ? "•" : isCollapsed ? "▸" : "▾"}
+          </span>
+          <span className={selectable ? "" : "text-gray-400"}>{node.name}</span>
+        </div>
+        {hasChildren && !isCollapsed && (
+          <ul>
+            {children.map((child) =>
+              renderNode(child, depth + 1, node.memberIds.includes(child.id))
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  if (!root) return null;
+
+  return (
+    <div className="max-h-48 shrink-0 overflow-y-auto bg-gray-800 bg-opacity-75 p-2 rounded-md text-sm">
+      <p className="font-semibold mb-1">Parts ({leafCount})</p>
+      <ul>
+        {renderNode(root, 0)}
+        {groups.map((group) => renderNode(group, 0))}
+      </ul>
+    </div>
+  );
+};
+
+export default PartTreePanel;
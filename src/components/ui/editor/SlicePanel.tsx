@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from "react";
+import * as THREE from "three";
+import { Axis, AXIS_VECTORS } from "./cutPlaneInput";
+import { SlabSeparator } from "./planeCutter";
+import { MAX_SLABS, planSlabSeparators, SliceSpacingMode } from "./sliceInput";
+import { formatLength, ModelFrame, modelToSceneMatrix } from "./units";
+
+interface SlicePanelProps {
+  // Spacing and kerf are typed in the model file's units
+  frame: ModelFrame;
+  drawnDirection: THREE.Vector3 | null;
+  getExtent: (direction: THREE.Vector3) => { min: number; max: number } | null;
+  onPreview: (separators: SlabSeparator[] | null) => void;
+  onApply: (separators: SlabSeparator[]) => void;
+  // When editing an earlier slice: the separators it was made with, in
+  // scene coordinates, typed in as a direction, slab count and kerf
+  initialSeparators?: SlabSeparator[];
+  title?: string;
+  applyLabel?: string;
+  onCancel?: () => void;
+}
+
+type DirectionChoice = Axis | "drawn";
+
+const DIRECTIONS: DirectionChoice[] = ["x", "y", "z", "drawn"];
+
+// The axis pointing the same way as the direction, if any
+const axisAlong = (direction: THREE.Vector3) =>
+  (Object.keys(AXIS_VECTORS) as Axis[]).find(
+    (axis) => AXIS_VECTORS[axis].dot(direction) > 1 - 1e-6
+  );
+
+const SlicePanel: React.FC<SlicePanelProps> = ({
+  frame,
+  drawnDirection,
+  getExtent,
+  onPreview,
+  onApply,
+  initialSeparators,
+  title = "Slices",
+  applyLabel = "Slice",
+  onCancel,
+}) => {
+  // A slice being edited that does not run along an axis keeps its own
+  // direction in place of a drawn one
+  const [initialDirection] = useState(() =>
+    initialSeparators?.[0]?.start.normal.clone().normalize()
+  );
+  const [directionChoice, setDirectionChoice] = useState<DirectionChoice>(() =>
+    initialDirection ? axisAlong(initialDirection) || "drawn" : "y"
+  );
+  const [spacingMode, setSpacingMode] = useState<SliceSpacingMode>("count");
+  const [count, setCount] = useState(() =>
+    String(initialSeparators ? initialSeparators.length + 1 : 5)
+  );
+  // Filled in from the extent when spacing mode is first chosen
+  const [spacing, setSpacing] = useState("");
+  const [kerf, setKerf] = useState(() => {
+    const separator = initialSeparators?.[0];
+    if (!separator) return "0";
+    const width = separator.start.constant - separator.end.constant;
+    return String(Number((width / frame.scale).toFixed(6)));
+  });
+  const typedDirection = drawnDirection || initialDirection || null;
+
+  // Drawing a new direction on the canvas selects it
+  useEffect(() => {
+    if (drawnDirection) setDirectionChoice("drawn");
+  }, [drawnDirection]);
+
+  const direction =
+    directionChoice === "drawn"
+      ? typedDirection
+      : AXIS_VECTORS[directionChoice];
+  const sceneExtent = direction ? getExtent(direction) : null;
+  // The extent measured in file coordinates along the direction
+  const origin = direction
+    ? frame.offset.dot(direction.clone().normalize())
+    : 0;
+  const extent = sceneExtent && {
+    min: (sceneExtent.min - origin) / frame.scale,
+    max: (sceneExtent.max - origin) / frame.scale,
+  };
+  const toScene = modelToSceneMatrix(frame);
+  const separators = direction
+    ? planSlabSeparators(
+        {
+          direction,
+          spacingMode,
+          count: Number(count),
+          spacing: parseFloat(spacing),
+          kerf: parseFloat(kerf),
+        },
+        extent
+      )?.map(({ start, end }) => ({
+        start: start.applyMatrix4(toScene),
+        end: end.applyMatrix4(toScene),
+      })) || null
+    : null;
+
+  // Preview the separators. They are rebuilt from their key so re-renders
+  // that do not change them keep the same list and skip the preview.
+  const separatorsKey = separators
+    ? [
+        separators[0].start.normal.toArray().join(","),
+        ...separators.map(
+          ({ start, end }) => `${start.constant},${end.constant}`
+        ),
+      ].join(";")
+    : "";
+  const previewSeparators = useMemo(() => {
+    if (!separatorsKey) return null;
+    const [normalKey, ...constantKeys] = separatorsKey.split(";");
+    const normal = new THREE.Vector3(...normalKey.split(",").map(Number));
+    return constantKeys.map((key) => {
+      const [start, end] = key.split(",").map(Number);
+      return {
+        start: new THREE.Plane(normal.clone(), start),
+        end: new THREE.Plane(normal.clone(), end),
+      };
+    });
+  }, [separatorsKey]);
+  useEffect(() => {
+    onPreview(previewSeparators);
+  }, [previewSeparators, onPreview]);
+
+  // Remove the preview when the panel closes
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const slabCount = separators ? separators.length + 1 : 0;
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 bg-gray-800 bg-opacity-75 p-2 rounded-md z-10 text-sm">
+      <p className="font-semibold mb-1">{title}</p>
+      <div className="flex items-center space-x-2 mb-2">
+        <span className="text-gray-400">Along</span>
+        {DIRECTIONS.map((value) => (
+          <button
+            key={value}
+            className={`px-2 rounded ${value === "drawn" ? "" : "uppercase"} ${
+              directionChoice === value ? "bg-blue-500" : "bg-gray-600"
+            }`}
+            onClick={() => setDirectionChoice(value)}
+            disabled={value === "drawn" && !typedDirection}
+            title={
+              value === "drawn" ? "Drag on the model to draw a direction" : ""
+            }
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex space-x-1 mb-2">
+        {(["count", "spacing"] as SliceSpacingMode[]).map((mode) => (
+          <button
+            key={mode}
+            className={`flex-1 px-1 py-1 rounded text-xs capitalize ${
+              spacingMode === mode ? "bg-blue-500" : "bg-gray-600"
+            }`}
+            onClick={() => {
+              setSpacingMode(mode);
+              if (mode === "spacing" && !spacing && extent) {
+                setSpacing(
+                  String(Number(((extent.max - extent.min) / 5).toPrecision(2)))
+                );
+              }
+            }}
+          >
+            {mode}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        {spacingMode === "count" ? (
+          <label className="flex items-center space-x-1">
+            <span className="text-gray-400">Slabs</span>
+            <input
+              type="number"
+              min={2}
+              max={MAX_SLABS}
+              step={1}
+              className="w-16 px-1 rounded bg-gray-900 text-white"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+            />
+          </label>
+        ) : (
+          <label className="flex items-center space-x-1">
+            <span className="text-gray-400">Every ({frame.unit})</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              className="w-16 px-1 rounded bg-gray-900 text-white"
+              value={spacing}
+              onChange={(e) => setSpacing(e.target.value)}
+            />
+          </label>
+        )}
+        <label className="flex items-center space-x-1">
+          <span className="text-gray-400">Kerf ({frame.unit})</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className="w-16 px-1 rounded bg-gray-900 text-white"
+            value={kerf}
+            onChange={(e) => setKerf(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {extent && (
+        <p className="text-xs text-gray-400 mt-1">
+          Extent {formatLength(extent.max - extent.min, frame.unit)}
+          {separators
+            ? `, ${slabCount} slabs`
+            : ` (at most ${MAX_SLABS} slabs, kerf thinner than a slab)`}
+        </p>
+      )}
+
+      <div className="flex space-x-2 mt-2">
+        <button
+          className={`flex-1 px-4 py-1 rounded ${
+            separators ? "bg-green-600" : "bg-gray-600"
+          }`}
+          disabled={!separators}
+          onClick={() => separators && onApply(separators)}
+        >
+          {applyLabel}
+        </button>
+        {onCancel && (
+          <button className="px-4 py-1 rounded bg-gray-600" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlicePanel;
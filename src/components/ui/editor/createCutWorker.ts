@@ -0,0 +1,4 @@
+// Kept out of the pool so that modules using it still load under jest,
+// which cannot run the bundler's import.meta worker syntax
+export const createCutWorker = () =>
+  new Worker(new URL("./cutWorker.ts", import.meta.url));
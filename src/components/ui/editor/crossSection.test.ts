@@ -0,0 +1,66 @@
+import * as THREE from "three";
+import { buildCapGeometry, computeSectionLoops } from "./crossSection";
+
+// A ring around the z axis: 2 from the axis to the middle of the tube,
+// which has a radius of 0.5
+const torus = new THREE.TorusGeometry(2, 0.5, 64, 128);
+
+// Total area of the cap's triangles, and whether every one faces `facing`
+const measureCap = (cap: THREE.BufferGeometry, facing: THREE.Vector3) => {
+  const position = cap.attributes.position;
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+  let area = 0;
+  let facesAlong = true;
+  for (let i = 0; i < position.count; i += 3) {
+    triangle.setFromAttributeAndIndices(position, i, i + 1, i + 2);
+    area += triangle.getArea();
+    if (triangle.getNormal(normal).dot(facing) < 0.99) facesAlong = false;
+  }
+  return { area, facesAlong };
+};
+
+const expectClose = (actual: number, expected: number) =>
+  expect(Math.abs(actual - expected) / expected).toBeLessThan(0.01);
+
+describe("cross-section caps", () => {
+  test("a cut through the hole of a torus makes one cap with a hole", () => {
+    const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+    const loops = computeSectionLoops(torus, plane);
+
+    expect(loops.map(({ depth }) => depth).sort()).toEqual([0, 1]);
+
+    const facing = new THREE.Vector3(0, 0, 1);
+    const cap = buildCapGeometry(loops, plane, facing)!;
+    const { area, facesAlong } = measureCap(cap, facing);
+    expectClose(area, Math.PI * (2.5 * 2.5 - 1.5 * 1.5));
+    expect(facesAlong).toBe(true);
+  });
+
+  test("a cut across the ring makes two islands", () => {
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    const loops = computeSectionLoops(torus, plane);
+
+    expect(loops.map(({ depth }) => depth)).toEqual([0, 0]);
+
+    const facing = new THREE.Vector3(0, -1, 0);
+    const cap = buildCapGeometry(loops, plane, facing)!;
+    const { area, facesAlong } = measureCap(cap, facing);
+    expectClose(area, 2 * Math.PI * 0.5 * 0.5);
+    expect(facesAlong).toBe(true);
+
+    // One island on either side of the hole
+    cap.computeBoundingBox();
+    expect(cap.boundingBox!.min.x).toBeCloseTo(-2.5);
+    expect(cap.boundingBox!.max.x).toBeCloseTo(2.5);
+  });
+
+  test("a plane missing the mesh leaves no cap", () => {
+    const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), -1);
+    const loops = computeSectionLoops(torus, plane);
+    expect(loops).toEqual([]);
+    expect(
+      buildCapGeometry(loops, plane, new THREE.Vector3(0, 0, 1))
+    ).toBeNull();
+  });
+});
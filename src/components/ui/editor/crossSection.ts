@@ -0,0 +1,293 @@
+import * as THREE from "three";
+
+const EPSILON = 1e-6;
+
+export interface SectionLoop {
+  points: THREE.Vector3[];
+  // Loops with an even nesting depth are outlines, odd ones are holes
+  depth: number;
+}
+
+const vertexKey = (point: THREE.Vector3, tolerance: number) =>
+  `${Math.round(point.x / tolerance)},${Math.round(
+    point.y / tolerance
+  )},${Math.round(point.z / tolerance)}`;
+
+// Orthonormal basis (u, v) spanning the plane, with u x v = plane normal
+export function getPlaneBasis(normal: THREE.Vector3) {
+  const helper =
+    Math.abs(normal.y) < 0.9
+      ? new THREE.Vector3(0, 1, 0)
+      : new THREE.Vector3(1, 0, 0);
+  const u = new THREE.Vector3().crossVectors(helper, normal).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u).normalize();
+  return { u, v };
+}
+
+const signedArea = (points: THREE.Vector2[]) => {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x - points[i].x) * (points[j].y + points[i].y);
+  }
+  return area * 0.5;
+};
+
+const containsPoint = (polygon: THREE.Vector2[], point: THREE.Vector2) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Intersect every triangle of the geometry with the plane and chain the
+// resulting segments into closed loops. Open chains, which only occur for
+// meshes that are not closed, are discarded.
+export function computeSectionLoops(
+  geometry: THREE.BufferGeometry,
+  plane: THREE.Plane
+): SectionLoop[] {
+  const position = geometry.attributes.position;
+  if (!position) return [];
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3()).length();
+  const tolerance = Math.max(size * EPSILON, EPSILON);
+
+  const index = geometry.index;
+  const drawStart = geometry.drawRange.start;
+  const drawEnd = Math.min(
+    index ? index.count : position.count,
+    drawStart + geometry.drawRange.count
+  );
+  const getVertex = (i: number, target: THREE.Vector3) =>
+    target.fromBufferAttribute(position, index ? index.getX(i) : i);
+
+  const points: THREE.Vector3[] = [];
+  const pointIds = new Map<string, number>();
+  const addPoint = (point: THREE.Vector3) => {
+    const key = vertexKey(point, tolerance);
+    let id = pointIds.get(key);
+    if (id === undefined) {
+      id = points.length;
+      points.push(point.clone());
+      pointIds.set(key, id);
+    }
+    return id;
+  };
+
+  const adjacency = new Map<number, number[]>();
+  const link = (a: number, b: number) => {
+    if (!adjacency.has(a)) adjacency.set(a, []);
+    // Edges lying in the plane are reported by both adjacent triangles
+    if (!adjacency.get(a)!.includes(b)) adjacency.get(a)!.push(b);
+  };
+
+  const triangle = [
+    new THREE.Vector3(),
+    new THREE.Vector3(),
+    new THREE.Vector3(),
+  ];
+  const distances = [0, 0, 0];
+
+  for (let i = drawStart; i + 2 < drawEnd; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      getVertex(i + k, triangle[k]);
+      const d = plane.distanceToPoint(triangle[k]);
+      distances[k] = Math.abs(d) < tolerance ? 0 : d;
+    }
+
+    // Triangles lying in the plane do not contribute to the outline
+    if (distances.every((d) => d === 0)) continue;
+
+    const hits: number[] = [];
+    for (let k = 0; k < 3; k++) {
+      const next = (k + 1) % 3;
+      const da = distances[k];
+      const db = distances[next];
+      if (da === 0) {
+        hits.push(addPoint(triangle[k]));
+      } else if (da * db < 0) {
+        const t = da / (da - db);
+        hits.push(addPoint(triangle[k].clone().lerp(triangle[next], t)));
+      }
+    }
+
+    const unique = Array.from(new Set(hits));
+    if (unique.length === 2) {
+      link(unique[0], unique[1]);
+      link(unique[1], unique[0]);
+    }
+  }
+
+  // Walk the segment graph into loops
+  const visitedEdges = new Set<string>();
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const loops: THREE.Vector3[][] = [];
+
+  adjacency.forEach((neighbours, start) => {
+    neighbours.forEach((first) => {
+      if (visitedEdges.has(edgeKey(start, first))) return;
+      visitedEdges.add(edgeKey(start, first));
+
+      const loop = [start];
+      let previous = start;
+      let current = first;
+      while (current !== start) {
+        loop.push(current);
+        let next: number | undefined;
+        for (const candidate of adjacency.get(current) || []) {
+          if (
+            candidate !== previous &&
+            !visitedEdges.has(edgeKey(current, candidate))
+          ) {
+            next = candidate;
+            break;
+          }
+        }
+        if (next === undefined) break;
+        visitedEdges.add(edgeKey(current, next));
+        previous = current;
+        current = next;
+      }
+
+      if (current === start && loop.length >= 3) {
+        loops.push(loop.map((id) => points[id]));
+      }
+    });
+  });
+
+  // Classify loops as outlines or holes by how deeply they are nested
+  const { u, v } = getPlaneBasis(plane.normal);
+  const flat = loops.map((loop) =>
+    loop.map((point) => new THREE.Vector2(point.dot(u), point.dot(v)))
+  );
+
+  return loops.map((loop, i) => ({
+    points: loop,
+    depth: flat.filter(
+      (other, j) => j !== i && containsPoint(other, flat[i][0])
+    ).length,
+  }));
+}
+
+// A cross-section measured in world space
+export interface CutSection {
+  // Name of the part that was divided
+  part: string;
+  // Enclosed area with holes subtracted, and the length of all loops
+  area: number;
+  perimeter: number;
+  center: THREE.Vector3;
+}
+
+// Measure where a plane in world space passes through a part's meshes.
+// Returns null when the plane misses them.
+export function measureCrossSection(
+  part: THREE.Object3D,
+  plane: THREE.Plane
+): CutSection | null {
+  const { u, v } = getPlaneBasis(plane.normal);
+  const bounds = new THREE.Box3();
+  let area = 0;
+  let perimeter = 0;
+
+  part.updateWorldMatrix(true, true);
+  part.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const toLocal = object.matrixWorld.clone().invert();
+    const loops = computeSectionLoops(
+      object.geometry,
+      plane.clone().applyMatrix4(toLocal)
+    );
+    loops.forEach(({ points, depth }) => {
+      const world = points.map((point) =>
+        point.clone().applyMatrix4(object.matrixWorld)
+      );
+      const loopArea = Math.abs(
+        signedArea(
+          world.map((point) => new THREE.Vector2(point.dot(u), point.dot(v)))
+        )
+      );
+      area += depth % 2 === 0 ? loopArea : -loopArea;
+      world.forEach((point, i) => {
+        perimeter += point.distanceTo(world[(i + 1) % world.length]);
+        bounds.expandByPoint(point);
+      });
+    });
+  });
+
+  if (bounds.isEmpty()) return null;
+  return {
+    part: part.name || "Part",
+    area,
+    perimeter,
+    center: bounds.getCenter(new THREE.Vector3()),
+  };
+}
+
+// Triangulate the section loops of a closed mesh into a cap whose faces
+// point along `facing`. Each outline is filled with the holes nested
+// directly inside it, so several islands produce several filled regions.
+export function buildCapGeometry(
+  loops: SectionLoop[],
+  plane: THREE.Plane,
+  facing: THREE.Vector3
+): THREE.BufferGeometry | null {
+  if (loops.length === 0) return null;
+
+  const { u, v } = getPlaneBasis(plane.normal);
+  const to2D = (point: THREE.Vector3) =>
+    new THREE.Vector2(point.dot(u), point.dot(v));
+  const frontIsCCW = facing.dot(plane.normal) > 0;
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+
+  loops
+    .filter((loop) => loop.depth % 2 === 0)
+    .forEach((outline) => {
+      const outline2D = outline.points.map(to2D);
+
+      // Holes directly inside this outline
+      const holes = loops.filter(
+        (loop) =>
+          loop.depth === outline.depth + 1 &&
+          containsPoint(outline2D, to2D(loop.points[0]))
+      );
+
+      const contour3D = [...outline.points, ...holes.flatMap((h) => h.points)];
+      const faces = THREE.ShapeUtils.triangulateShape(
+        outline2D,
+        holes.map((hole) => hole.points.map(to2D))
+      );
+      const all2D = contour3D.map(to2D);
+
+      faces.forEach(([a, b, c]) => {
+        const isCCW = signedArea([all2D[a], all2D[b], all2D[c]]) > 0;
+        const ordered = isCCW === frontIsCCW ? [a, b, c] : [a, c, b];
+        ordered.forEach((id) => {
+          const point = contour3D[id];
+          positions.push(point.x, point.y, point.z);
+          normals.push(facing.x, facing.y, facing.z);
+          uvs.push(all2D[id].x, all2D[id].y);
+        });
+      });
+    });
+
+  if (positions.length === 0) return null;
+
+  const cap = new THREE.BufferGeometry();
+  cap.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  cap.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
+  cap.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
+  return cap;
+}
@@ -0,0 +1,60 @@
+import * as THREE from "three";
+import { CutPlaneInput, planeFromInput } from "./cutPlaneInput";
+
+const input = (overrides: Partial<CutPlaneInput>): CutPlaneInput => ({
+  mode: "axis",
+  axis: "x",
+  offset: 0,
+  distance: 0,
+  point: [0, 0, 0],
+  normal: [1, 0, 0],
+  ...overrides,
+});
+
+const bounds = new THREE.Box3(
+  new THREE.Vector3(-1, 2, -3),
+  new THREE.Vector3(1, 6, 3)
+);
+
+describe("planeFromInput", () => {
+  test("axis mode passes through the offset along the axis", () => {
+    const plane = planeFromInput(input({ axis: "y", offset: 1.5 }), null)!;
+    expect(plane.normal.toArray()).toEqual([0, 1, 0]);
+    expect(plane.distanceToPoint(new THREE.Vector3(4, 1.5, -2))).toBe(0);
+  });
+
+  test("bounds mode measures from the minimum of the bounds", () => {
+    const plane = planeFromInput(
+      input({ mode: "bounds", axis: "y", distance: 1 }),
+      bounds
+    )!;
+    expect(plane.normal.toArray()).toEqual([0, 1, 0]);
+    expect(plane.distanceToPoint(new THREE.Vector3(0, 3, 0))).toBe(0);
+  });
+
+  test("bounds mode needs bounds to measure from", () => {
+    const bySize = input({ mode: "bounds", distance: 1 });
+    expect(planeFromInput(bySize, null)).toBeNull();
+    expect(planeFromInput(bySize, new THREE.Box3())).toBeNull();
+  });
+
+  test("point and normal mode normalizes the normal", () => {
+    const plane = planeFromInput(
+      input({ mode: "pointNormal", point: [1, 2, 3], normal: [0, 0, -2] }),
+      null
+    )!;
+    expect(plane.normal.toArray()).toEqual([0, 0, -1]);
+    expect(plane.distanceToPoint(new THREE.Vector3(5, 5, 3))).toBe(0);
+  });
+
+  test("rejects a zero normal and numbers that do not parse", () => {
+    expect(
+      planeFromInput(input({ mode: "pointNormal", normal: [0, 0, 0] }), null)
+    ).toBeNull();
+    expect(planeFromInput(input({ offset: NaN }), null)).toBeNull();
+    // Fields of other modes are checked as well
+    expect(
+      planeFromInput(input({ point: [0, Infinity, 0] }), bounds)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import * as THREE from "three";
+
+export type Axis = "x" | "y" | "z";
+
+export type CutPlaneInputMode = "axis" | "bounds" | "pointNormal";
+
+// A cutting plane as typed into the numeric entry panel
+export interface CutPlaneInput {
+  mode: CutPlaneInputMode;
+  axis: Axis;
+  // Axis mode: coordinate along the axis the plane passes through
+  offset: number;
+  // Bounds mode: distance from the minimum of the bounding box along the axis
+  distance: number;
+  point: [number, number, number];
+  normal: [number, number, number];
+}
+
+export const AXIS_VECTORS: Record<Axis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+// Returns null when the input does not describe a valid plane
+export function planeFromInput(
+  input: CutPlaneInput,
+  bounds: THREE.Box3 | null
+): THREE.Plane | null {
+  const values = [
+    input.offset,
+    input.distance,
+    ...input.point,
+    ...input.normal,
+  ];
+  if (values.some((value) => !Number.isFinite(value))) return null;
+
+  switch (input.mode) {
+    case "axis": {
+      const normal = AXIS_VECTORS[input.axis].clone();
+      const point = normal.clone().multiplyScalar(input.offset);
+      return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point);
+    }
+    case "bounds": {
+      if (!bounds || bounds.isEmpty()) return null;
+      const normal = AXIS_VECTORS[input.axis].clone();
+      const point = bounds.min.clone();
+      point[input.axis] += input.distance;
+      return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point);
+    }
+    case "pointNormal": {
+      const normal = new THREE.Vector3(...input.normal);
+      if (normal.lengthSq() < 1e-12) return null;
+      return new THREE.Plane().setFromNormalAndCoplanarPoint(
+        normal.normalize(),
+        new THREE.Vector3(...input.point)
+      );
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { cutGeometry, sliceGeometry } from "./planeCutter";
+import {
+  CutJobMessage,
+  CutJobReply,
+  deserializeGeometry,
+  deserializePlane,
+  getTransferables,
+  serializeGeometry,
+} from "./geometryTransfer";
+
+const runJob = (message: CutJobMessage) => {
+  const geometry = deserializeGeometry(message.geometry);
+  const { materialCount, capMaterialIndex } = message;
+
+  if (message.kind === "cut") {
+    const { part1, part2 } = cutGeometry({
+      geometry,
+      plane: deserializePlane(message.plane),
+      materialCount,
+      capMaterialIndex,
+    });
+    return [part1, part2];
+  }
+
+  return sliceGeometry({
+    geometry,
+    separators: message.separators.map(({ start, end }) => ({
+      start: deserializePlane(start),
+      end: deserializePlane(end),
+    })),
+    materialCount,
+    capMaterialIndex,
+  });
+};
+
+// The worker's global scope talks to the page through the same calls a
+// Worker object uses from the page's side
+const scope = globalThis as unknown as Worker;
+
+// Runs the CSG half of a mesh cut off the main thread, one job per message
+scope.addEventListener("message", (event: MessageEvent<CutJobMessage>) => {
+  const { jobId } = event.data;
+
+  let reply: CutJobReply;
+  try {
+    reply = {
+      jobId,
+      pieces: runJob(event.data).map(
+        (piece) => piece && serializeGeometry(piece)
+      ),
+    };
+  } catch (err) {
+    reply = {
+      jobId,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+
+  const transfer = "error" in reply ? [] : getTransferables(reply.pieces);
+  scope.postMessage(reply, { transfer });
+});
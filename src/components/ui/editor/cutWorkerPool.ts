@@ -0,0 +1,159 @@
+import * as THREE from "three";
+import {
+  cutGeometry,
+  GeometryCutRequest,
+  GeometryCutResult,
+  GeometrySliceRequest,
+  sliceGeometry,
+} from "./planeCutter";
+import {
+  CutJobMessage,
+  CutJobReply,
+  deserializeGeometry,
+  getTransferables,
+  serializeGeometry,
+  serializePlane,
+} from "./geometryTransfer";
+
+type Pieces = (THREE.BufferGeometry | null)[];
+
+export interface CutWorkerPool {
+  run: (request: GeometryCutRequest) => Promise<GeometryCutResult>;
+  runSlice: (request: GeometrySliceRequest) => Promise<Pieces>;
+  // Stops every running and queued job; their promises reject. The pool
+  // starts fresh workers for the next job.
+  cancel: () => void;
+}
+
+interface PendingJob {
+  message: CutJobMessage;
+  resolve: (pieces: Pieces) => void;
+  reject: (error: Error) => void;
+}
+
+// Leave a core for the main thread
+const defaultPoolSize = () =>
+  Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+// Without a way to start workers, jobs run on the calling thread
+export function createCutWorkerPool(
+  createWorker: (() => Worker) | null,
+  size: number = defaultPoolSize()
+): CutWorkerPool {
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, PendingJob>();
+  let queue: PendingJob[] = [];
+  let nextJobId = 0;
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let worker = idle.pop();
+      if (!worker && busy.size < size) worker = spawn();
+      if (!worker) return;
+
+      const job = queue.shift()!;
+      busy.set(worker, job);
+      worker.postMessage(job.message, {
+        transfer: getTransferables([job.message.geometry]),
+      });
+    }
+  };
+
+  const spawn = () => {
+    const worker = createWorker!();
+
+    worker.addEventListener("message", (event: MessageEvent<CutJobReply>) => {
+      const reply = event.data;
+      const job = busy.get(worker);
+      if (!job || job.message.jobId !== reply.jobId) return;
+      busy.delete(worker);
+      idle.push(worker);
+
+      if ("error" in reply) {
+        job.reject(new Error(reply.error));
+      } else {
+        job.resolve(
+          reply.pieces.map((piece) => piece && deserializeGeometry(piece))
+        );
+      }
+      dispatch();
+    });
+
+    // A worker that fails to load or crashes takes its job down with it
+    worker.addEventListener("error", (event) => {
+      event.preventDefault();
+      const job = busy.get(worker);
+      busy.delete(worker);
+      worker.terminate();
+      job?.reject(new Error(event.message || "Cut worker failed"));
+      dispatch();
+    });
+
+    return worker;
+  };
+
+  const submit = (message: CutJobMessage) =>
+    new Promise<Pieces>((resolve, reject) => {
+      queue.push({ message, resolve, reject });
+      dispatch();
+    });
+
+  const runLocally = <T>(
+    geometry: THREE.BufferGeometry,
+    job: (geometry: THREE.BufferGeometry) => T
+  ) =>
+    new Promise<T>((resolve) => {
+      const copy = geometry.clone();
+      resolve(job(copy));
+      copy.dispose();
+    });
+
+  const run = (request: GeometryCutRequest) => {
+    if (!createWorker) {
+      return runLocally(request.geometry, (geometry) =>
+        cutGeometry({ ...request, geometry })
+      );
+    }
+
+    return submit({
+      kind: "cut",
+      jobId: nextJobId++,
+      geometry: serializeGeometry(request.geometry),
+      plane: serializePlane(request.plane),
+      materialCount: request.materialCount,
+      capMaterialIndex: request.capMaterialIndex,
+    }).then(([part1, part2]) => ({ part1, part2 }));
+  };
+
+  const runSlice = (request: GeometrySliceRequest) => {
+    if (!createWorker) {
+      return runLocally(request.geometry, (geometry) =>
+        sliceGeometry({ ...request, geometry })
+      );
+    }
+
+    return submit({
+      kind: "slice",
+      jobId: nextJobId++,
+      geometry: serializeGeometry(request.geometry),
+      separators: request.separators.map(({ start, end }) => ({
+        start: serializePlane(start),
+        end: serializePlane(end),
+      })),
+      materialCount: request.materialCount,
+      capMaterialIndex: request.capMaterialIndex,
+    });
+  };
+
+  const cancel = () => {
+    const jobs = Array.from(busy.values()).concat(queue);
+    busy.forEach((_, worker) => worker.terminate());
+    idle.forEach((worker) => worker.terminate());
+    busy.clear();
+    idle.length = 0;
+    queue = [];
+    jobs.forEach((job) => job.reject(new Error("Cut cancelled")));
+  };
+
+  return { run, runSlice, cancel };
+}
@@ -0,0 +1,54 @@
+import * as THREE from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils";
+import {
+  deserializeGeometry,
+  getTransferables,
+  serializeGeometry,
+} from "./geometryTransfer";
+import { cutGeometry } from "./planeCutter";
+
+describe("geometry transfer", () => {
+  test("round-trips attributes, groups and the draw range", () => {
+    const box = new THREE.BoxGeometry(2, 2, 2);
+    box.setDrawRange(6, 12);
+    const copy = deserializeGeometry(serializeGeometry(box));
+
+    expect(copy.drawRange).toEqual({ start: 6, count: 12 });
+    expect(copy.groups).toEqual(box.groups);
+    expect(Array.from(copy.index!.array)).toEqual(Array.from(box.index!.array));
+    expect(Array.from(copy.attributes.position.array)).toEqual(
+      Array.from(box.attributes.position.array)
+    );
+  });
+
+  test("never hands over the source geometry's buffers", () => {
+    const box = new THREE.BoxGeometry();
+    const data = serializeGeometry(box);
+    const sourceBuffers = [
+      box.index!.array.buffer,
+      ...Object.values(box.attributes).map(
+        (attribute) => (attribute as THREE.BufferAttribute).array.buffer
+      ),
+    ];
+    getTransferables([data]).forEach((buffer) =>
+      expect(sourceBuffers).not.toContain(buffer)
+    );
+  });
+
+  test("a cut on the worker's copy leaves out what is not drawn", () => {
+    // Two boxes side by side, of which only the first is drawn
+    const first = new THREE.BoxGeometry(2, 2, 2);
+    const second = new THREE.BoxGeometry(2, 2, 2).translate(4, 0, 0);
+    const pair = mergeGeometries([first, second]);
+    pair.setDrawRange(0, first.index!.count);
+
+    const { part1 } = cutGeometry({
+      geometry: deserializeGeometry(serializeGeometry(pair)),
+      plane: new THREE.Plane(new THREE.Vector3(0, 1, 0), 0),
+      materialCount: 1,
+      capMaterialIndex: 1,
+    });
+    part1!.computeBoundingBox();
+    expect(part1!.boundingBox!.max.x).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,110 @@
+import * as THREE from "three";
+
+// Geometry flattened into plain typed arrays so it can be posted to a worker
+// and back, with the buffers transferred instead of copied
+export interface SerializedGeometry {
+  attributes: Record<string, { array: THREE.TypedArray; itemSize: number }>;
+  index: Uint32Array | null;
+  groups: { start: number; count: number; materialIndex: number }[];
+  // Only this part of the index, or of the vertices without one, is drawn
+  // and cut
+  drawRange: { start: number; count: number };
+}
+
+export interface SerializedPlane {
+  normal: [number, number, number];
+  constant: number;
+}
+
+interface JobMessageBase {
+  jobId: number;
+  geometry: SerializedGeometry;
+  materialCount: number;
+  capMaterialIndex: number;
+}
+
+export type CutJobMessage =
+  | (JobMessageBase & { kind: "cut"; plane: SerializedPlane })
+  | (JobMessageBase & {
+      kind: "slice";
+      separators: { start: SerializedPlane; end: SerializedPlane }[];
+    });
+
+// A cut replies with its positive and negative side, a slice with its slabs
+export type CutJobReply =
+  | { jobId: number; pieces: (SerializedGeometry | null)[] }
+  | { jobId: number; error: string };
+
+// Copies every attribute into a fresh typed array. Interleaved attributes
+// are unpacked on the way and normalized ones become floats; the others keep
+// their type, so bone indices stay integers. The source geometry's own
+// buffers are never handed over.
+export function serializeGeometry(
+  geometry: THREE.BufferGeometry
+): SerializedGeometry {
+  const attributes: SerializedGeometry["attributes"] = {};
+  Object.keys(geometry.attributes).forEach((name) => {
+    const attribute = geometry.getAttribute(name);
+    const { count, itemSize } = attribute;
+    const ArrayType = attribute.normalized
+      ? Float32Array
+      : (attribute.array.constructor as new (
+          length: number
+        ) => THREE.TypedArray);
+    const array = new ArrayType(count * itemSize);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < itemSize; c++) {
+        array[i * itemSize + c] = attribute.getComponent(i, c);
+      }
+    }
+    attributes[name] = { array, itemSize };
+  });
+
+  return {
+    attributes,
+    index: geometry.index ? Uint32Array.from(geometry.index.array) : null,
+    groups: geometry.groups.map(({ start, count, materialIndex }) => ({
+      start,
+      count,
+      materialIndex: materialIndex ?? 0,
+    })),
+    drawRange: { ...geometry.drawRange },
+  };
+}
+
+export function deserializeGeometry(
+  data: SerializedGeometry
+): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  Object.entries(data.attributes).forEach(([name, { array, itemSize }]) => {
+    geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  });
+  if (data.index) geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+  data.groups.forEach(({ start, count, materialIndex }) =>
+    geometry.addGroup(start, count, materialIndex)
+  );
+  geometry.setDrawRange(data.drawRange.start, data.drawRange.count);
+  return geometry;
+}
+
+export function getTransferables(
+  geometries: (SerializedGeometry | null)[]
+): ArrayBuffer[] {
+  const buffers: ArrayBuffer[] = [];
+  geometries.forEach((geometry) => {
+    if (!geometry) return;
+    Object.values(geometry.attributes).forEach(({ array }) =>
+      buffers.push(array.buffer as ArrayBuffer)
+    );
+    if (geometry.index) buffers.push(geometry.index.buffer as ArrayBuffer);
+  });
+  return buffers;
+}
+
+export const serializePlane = (plane: THREE.Plane): SerializedPlane => ({
+  normal: [plane.normal.x, plane.normal.y, plane.normal.z],
+  constant: plane.constant,
+});
+
+export const deserializePlane = ({ normal, constant }: SerializedPlane) =>
+  new THREE.Plane(new THREE.Vector3(...normal), constant);
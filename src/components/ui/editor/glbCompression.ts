@@ -0,0 +1,608 @@
+import { encodeIndexSequence, encodeVertexBuffer } from "./meshoptEncoding";
+
+// Geometry compression applied to exported GLB files. KTX2 textures are not
+// offered: three.js bundles the Basis transcoder but no encoder.
+export type ExportCompression = "none" | "draco" | "meshopt";
+
+export const EXPORT_COMPRESSIONS: {
+  value: ExportCompression;
+  label: string;
+}[] = [
+  { value: "none", label: "None" },
+  { value: "draco", label: "Draco" },
+  { value: "meshopt", label: "Meshopt" },
+];
+
+const DRACO_EXTENSION = "KHR_draco_mesh_compression";
+const MESHOPT_EXTENSION = "EXT_meshopt_compression";
+
+const GLB_MAGIC = 0x46546c67;
+const JSON_CHUNK = 0x4e4f534a;
+const BIN_CHUNK = 0x004e4942;
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const TRIANGLES = 4;
+
+const COMPONENT_ARRAYS: Record<number, TypedArrayConstructor> = {
+  5120: Int8Array,
+  5121: Uint8Array,
+  5122: Int16Array,
+  5123: Uint16Array,
+  5125: Uint32Array,
+  5126: Float32Array,
+};
+
+const TYPE_SIZES: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor;
+
+type Extensions = Record<string, Record<string, unknown>>;
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+  target?: number;
+  extensions?: Extensions;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+  targets?: Record<string, number>[];
+  extensions?: Extensions;
+}
+
+interface GltfDocument {
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { byteLength: number; extensions?: Extensions }[];
+  meshes?: { primitives: GltfPrimitive[] }[];
+  images?: { bufferView?: number }[];
+  skins?: { inverseBindMatrices?: number }[];
+  animations?: { samplers: { input: number; output: number }[] }[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+}
+
+// A buffer view with its bytes; compressed views hold the encoded stream
+interface ViewData {
+  view: GltfBufferView;
+  bytes: Uint8Array;
+}
+
+// Minimal surface of the Draco encoder module used here
+interface DracoEncoderModule {
+  [attributeType: string]: unknown;
+  Encoder: new () => DracoEncoder;
+  MeshBuilder: new () => DracoMeshBuilder;
+  Mesh: new () => object;
+  DracoInt8Array: new () => { GetValue: (index: number) => number };
+  destroy: (object: object) => void;
+}
+
+interface DracoEncoder {
+  SetEncodingMethod: (method: unknown) => void;
+  SetTrackEncodedProperties: (track: boolean) => void;
+  SetAttributeQuantization: (type: unknown, bits: number) => void;
+  EncodeMeshToDracoBuffer: (mesh: object, out: object) => number;
+  GetNumberOfEncodedPoints: () => number;
+  GetNumberOfEncodedFaces: () => number;
+}
+
+interface DracoMeshBuilder {
+  AddFacesToMesh: (mesh: object, count: number, faces: Uint32Array) => void;
+  AddFloatAttributeToMesh: (
+    mesh: object,
+    type: unknown,
+    count: number,
+    itemSize: number,
+    values: Float32Array
+  ) => number;
+  AddInt32AttributeToMesh: (
+    mesh: object,
+    type: unknown,
+    count: number,
+    itemSize: number,
+    values: Int32Array
+  ) => number;
+}
+
+const DRACO_ENCODER_URL = `${process.env.PUBLIC_URL}/libs/draco/draco_encoder.js`;
+
+// Quantization bits per Draco attribute type; other attributes stay exact
+const DRACO_QUANTIZATION: Record<string, number> = {
+  POSITION: 14,
+  NORMAL: 10,
+  TEX_COORD: 12,
+  COLOR: 8,
+};
+
+let dracoEncoderPromise: Promise<{ draco: DracoEncoderModule }> | null = null;
+
+// The encoder is a plain script that defines a global factory. Its module
+// is thenable, so it is wrapped before it reaches a promise.
+const loadDracoEncoder = () => {
+  if (!dracoEncoderPromise) {
+    dracoEncoderPromise = new Promise((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = DRACO_ENCODER_URL;
+      script.onload = () => {
+        const factory = (window as unknown as Record<string, unknown>)
+          .DracoEncoderModule as (options: object) => void;
+        factory({
+          onModuleLoaded: (draco: DracoEncoderModule) => resolve({ draco }),
+        });
+      };
+      script.onerror = () => {
+        dracoEncoderPromise = null;
+        reject(new Error("Could not load the Draco encoder"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return dracoEncoderPromise;
+};
+
+const align4 = (length: number) => Math.ceil(length / 4) * 4;
+
+const readGlb = (glb: ArrayBuffer) => {
+  const data = new DataView(glb);
+  if (data.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error("Not a GLB file");
+  }
+
+  let gltf: GltfDocument | null = null;
+  let bin = new Uint8Array(0);
+  for (let offset = 12; offset < data.byteLength; ) {
+    const length = data.getUint32(offset, true);
+    const type = data.getUint32(offset + 4, true);
+    const chunk = new Uint8Array(glb, offset + 8, length);
+    if (type === JSON_CHUNK) {
+      gltf = JSON.parse(new TextDecoder().decode(chunk));
+    } else if (type === BIN_CHUNK) {
+      bin = chunk;
+    }
+    offset += 8 + length;
+  }
+  if (!gltf) throw new Error("GLB file has no JSON chunk");
+  return { gltf, bin };
+};
+
+const writeGlb = (gltf: GltfDocument, bin: Uint8Array) => {
+  const json = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = align4(json.length);
+  const binLength = align4(bin.length);
+  const total = 12 + 8 + jsonLength + (bin.length > 0 ? 8 + binLength : 0);
+
+  const output = new Uint8Array(total);
+  const data = new DataView(output.buffer);
+  data.setUint32(0, GLB_MAGIC, true);
+  data.setUint32(4, 2, true);
+  data.setUint32(8, total, true);
+
+  data.setUint32(12, jsonLength, true);
+  data.setUint32(16, JSON_CHUNK, true);
+  output.set(json, 20);
+  // The JSON chunk is padded with spaces, the binary chunk with zeros
+  output.fill(0x20, 20 + json.length, 20 + jsonLength);
+
+  if (bin.length > 0) {
+    const binStart = 20 + jsonLength;
+    data.setUint32(binStart, binLength, true);
+    data.setUint32(binStart + 4, BIN_CHUNK, true);
+    output.set(bin, binStart + 8);
+  }
+  return output.buffer;
+};
+
+// Copy of an accessor's elements, tightly packed
+const readAccessor = (gltf: GltfDocument, views: ViewData[], index: number) => {
+  const accessor = gltf.accessors![index];
+  const ArrayType = COMPONENT_ARRAYS[accessor.componentType];
+  const itemSize = TYPE_SIZES[accessor.type];
+  const values = new ArrayType(accessor.count * itemSize);
+  if (accessor.bufferView === undefined) return values;
+
+  const { view, bytes } = views[accessor.bufferView];
+  const elementSize = itemSize * ArrayType.BYTES_PER_ELEMENT;
+  const stride = view.byteStride || elementSize;
+  const source = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const target = new Uint8Array(values.buffer);
+  for (let i = 0; i < accessor.count; i++) {
+    const start = (accessor.byteOffset || 0) + i * stride;
+    for (let b = 0; b < elementSize; b++) {
+      target[i * elementSize + b] = source.getUint8(start + b);
+    }
+  }
+  return values;
+};
+
+const addExtension = (gltf: GltfDocument, name: string) => {
+  gltf.extensionsUsed = Array.from(
+    new Set((gltf.extensionsUsed || []).concat(name))
+  );
+  // Neither extension leaves an uncompressed fallback behind
+  gltf.extensionsRequired = Array.from(
+    new Set((gltf.extensionsRequired || []).concat(name))
+  );
+};
+
+const dracoAttributeType = (name: string) => {
+  if (name === "POSITION" || name === "NORMAL") return name;
+  if (name.startsWith("TEXCOORD_")) return "TEX_COORD";
+  if (name.startsWith("COLOR_")) return "COLOR";
+  return "GENERIC";
+};
+
+// Replace each triangle primitive's attributes and indices with a Draco
+// stream holding only the vertices it uses. Primitives with morph targets
+// keep their data since Draco may reorder vertices.
+const applyDraco = (
+  draco: DracoEncoderModule,
+  gltf: GltfDocument,
+  views: ViewData[]
+) => {
+  const accessors = gltf.accessors || [];
+  let compressed = false;
+
+  (gltf.meshes || []).forEach((mesh) =>
+    mesh.primitives.forEach((primitive) => {
+      if ((primitive.mode ?? TRIANGLES) !== TRIANGLES) return;
+      if (primitive.targets || primitive.extensions?.[DRACO_EXTENSION]) return;
+
+      const names = Object.keys(primitive.attributes);
+      const vertexCount = accessors[primitive.attributes.POSITION]?.count;
+      if (!vertexCount) return;
+
+      const sourceIndices =
+        primitive.indices !== undefined
+          ? readAccessor(gltf, views, primitive.indices)
+          : Uint32Array.from({ length: vertexCount }, (_, i) => i);
+
+      // Keep the used vertices in first-use order
+      const remap = new Map<number, number>();
+      const used: number[] = [];
+      const faces = Uint32Array.from(sourceIndices, (vertex) => {
+        if (!remap.has(vertex)) {
+          remap.set(vertex, used.length);
+          used.push(vertex);
+        }
+        return remap.get(vertex)!;
+      });
+
+      const encoder = new draco.Encoder();
+      const builder = new draco.MeshBuilder();
+      const dracoMesh = new draco.Mesh();
+      const encoded = new draco.DracoInt8Array();
+      builder.AddFacesToMesh(dracoMesh, faces.length / 3, faces);
+
+      const attributeIds: Record<string, number> = {};
+      names.forEach((name) => {
+        const accessor = accessors[primitive.attributes[name]];
+        const itemSize = TYPE_SIZES[accessor.type];
+        const source = readAccessor(gltf, views, primitive.attributes[name]);
+        const type = draco[dracoAttributeType(name)];
+        const pick = <T extends Float32Array | Int32Array>(values: T) => {
+          used.forEach((vertex, i) => {
+            for (let c = 0; c < itemSize; c++) {
+              values[i * itemSize + c] = source[vertex * itemSize + c];
+            }
+          });
+          return values;
+        };
+
+        attributeIds[name] =
+          accessor.componentType === FLOAT
+            ? builder.AddFloatAttributeToMesh(
+                dracoMesh,
+                type,
+                used.length,
+                itemSize,
+                pick(new Float32Array(used.length * itemSize))
+              )
+            : builder.AddInt32AttributeToMesh(
+                dracoMesh,
+                type,
+                used.length,
+                itemSize,
+                pick(new Int32Array(used.length * itemSize))
+              );
+      });
+
+      // Edgebreaker may merge or split vertices, so the decoded counts are
+      // tracked for the accessors
+      encoder.SetEncodingMethod(draco.MESH_EDGEBREAKER_ENCODING);
+      encoder.SetTrackEncodedProperties(true);
+      Object.entries(DRACO_QUANTIZATION).forEach(([type, bits]) =>
+        encoder.SetAttributeQuantization(draco[type], bits)
+      );
+      const length = encoder.EncodeMeshToDracoBuffer(dracoMesh, encoded);
+      const bytes = new Uint8Array(length);
+      for (let i = 0; i < length; i++) bytes[i] = encoded.GetValue(i);
+      const pointCount = encoder.GetNumberOfEncodedPoints();
+      const faceCount = encoder.GetNumberOfEncodedFaces();
+      [encoded, dracoMesh, builder, encoder].forEach((object) =>
+        draco.destroy(object)
+      );
+      if (length === 0) throw new Error("Draco compression failed");
+
+      // The primitive gets its own data-less accessors sized for the
+      // decoded mesh; the old ones are pruned if nothing else uses them
+      views.push({ view: { buffer: 0, byteLength: length }, bytes });
+      names.forEach((name) => {
+        const { componentType, normalized, type, min, max } =
+          accessors[primitive.attributes[name]];
+        accessors.push({
+          componentType,
+          normalized,
+          type,
+          min,
+          max,
+          count: pointCount,
+        });
+        primitive.attributes[name] = accessors.length - 1;
+      });
+      accessors.push({
+        componentType: pointCount > 0xffff ? UNSIGNED_INT : UNSIGNED_SHORT,
+        count: faceCount * 3,
+        type: "SCALAR",
+      });
+      primitive.indices = accessors.length - 1;
+      primitive.extensions = {
+        ...primitive.extensions,
+        [DRACO_EXTENSION]: {
+          bufferView: views.length - 1,
+          attributes: attributeIds,
+        },
+      };
+      compressed = true;
+    })
+  );
+
+  if (compressed) addExtension(gltf, DRACO_EXTENSION);
+};
+
+// Encode vertex and index buffer views with the meshopt codecs. The views
+// keep their place in a data-less fallback buffer, as the extension
+// requires; their bytes become the compressed stream.
+const applyMeshopt = (gltf: GltfDocument, views: ViewData[]) => {
+  const counts = new Map<number, number>();
+  (gltf.accessors || []).forEach((accessor) => {
+    if (accessor.bufferView === undefined) return;
+    const { view } = views[accessor.bufferView];
+    const elementSize =
+      TYPE_SIZES[accessor.type] *
+      COMPONENT_ARRAYS[accessor.componentType].BYTES_PER_ELEMENT;
+    const stride = view.byteStride || elementSize;
+    const end = Math.ceil((accessor.byteOffset || 0) / stride) + accessor.count;
+    counts.set(
+      accessor.bufferView,
+      Math.max(counts.get(accessor.bufferView) || 0, end)
+    );
+  });
+
+  let compressed = false;
+  views.forEach((entry, index) => {
+    const { view, bytes } = entry;
+    const count = counts.get(index);
+    if (!count) return;
+
+    let stride: number;
+    let mode: string;
+    let stream: Uint8Array;
+    if (view.target === ARRAY_BUFFER && view.byteStride) {
+      stride = view.byteStride;
+      if (stride % 4 !== 0 || stride > 256) return;
+      mode = "ATTRIBUTES";
+      stream = encodeVertexBuffer(bytes, count, stride);
+    } else if (view.target === ELEMENT_ARRAY_BUFFER) {
+      const accessor = gltf.accessors!.find(
+        (candidate) => candidate.bufferView === index
+      )!;
+      stride = COMPONENT_ARRAYS[accessor.componentType].BYTES_PER_ELEMENT;
+      if (stride === 1) return;
+      mode = "INDICES";
+      const ArrayType = stride === 2 ? Uint16Array : Uint32Array;
+      stream = encodeIndexSequence(
+        new ArrayType(bytes.slice(0, count * stride).buffer)
+      );
+    } else {
+      return;
+    }
+
+    view.byteLength = count * stride;
+    view.extensions = {
+      ...view.extensions,
+      [MESHOPT_EXTENSION]: { buffer: 0, byteStride: stride, count, mode },
+    };
+    entry.bytes = stream;
+    compressed = true;
+  });
+
+  if (compressed) addExtension(gltf, MESHOPT_EXTENSION);
+};
+
+// Drop accessors and buffer views nothing refers to any more, then lay the
+// remaining views out in a fresh binary chunk
+const repack = (gltf: GltfDocument, views: ViewData[]) => {
+  // Every reference to an accessor, as a getter and setter pair
+  const accessorRefs: [() => number | undefined, (index: number) => void][] =
+    [];
+  (gltf.meshes || []).forEach((mesh) =>
+    mesh.primitives.forEach((primitive) => {
+      [primitive.attributes, ...(primitive.targets || [])].forEach((map) =>
+        Object.keys(map).forEach((name) =>
+          accessorRefs.push([() => map[name], (i) => (map[name] = i)])
+        )
+      );
+      accessorRefs.push([
+        () => primitive.indices,
+        (i) => (primitive.indices = i),
+      ]);
+    })
+  );
+  (gltf.skins || []).forEach((skin) =>
+    accessorRefs.push([
+      () => skin.inverseBindMatrices,
+      (i) => (skin.inverseBindMatrices = i),
+    ])
+  );
+  (gltf.animations || []).forEach((animation) =>
+    animation.samplers.forEach((sampler) => {
+      accessorRefs.push([() => sampler.input, (i) => (sampler.input = i)]);
+      accessorRefs.push([() => sampler.output, (i) => (sampler.output = i)]);
+    })
+  );
+
+  const accessors = gltf.accessors || [];
+  const accessorIndex = new Map<number, number>();
+  accessorRefs.forEach(([get]) => {
+    const index = get();
+    if (index !== undefined && !accessorIndex.has(index)) {
+      accessorIndex.set(index, -1);
+    }
+  });
+  const keptAccessors = accessors.filter((_, index) =>
+    accessorIndex.has(index)
+  );
+  let nextAccessor = 0;
+  accessors.forEach((_, index) => {
+    if (accessorIndex.has(index)) accessorIndex.set(index, nextAccessor++);
+  });
+  accessorRefs.forEach(([get, set]) => {
+    const index = get();
+    if (index !== undefined) set(accessorIndex.get(index)!);
+  });
+  if (keptAccessors.length > 0) gltf.accessors = keptAccessors;
+  else delete gltf.accessors;
+
+  // Every reference to a buffer view
+  const viewRefs: [() => number | undefined, (index: number) => void][] = [];
+  keptAccessors.forEach((accessor) =>
+    viewRefs.push([() => accessor.bufferView, (i) => (accessor.bufferView = i)])
+  );
+  (gltf.images || []).forEach((image) =>
+    viewRefs.push([() => image.bufferView, (i) => (image.bufferView = i)])
+  );
+  (gltf.meshes || []).forEach((mesh) =>
+    mesh.primitives.forEach((primitive) => {
+      const draco = primitive.extensions?.[DRACO_EXTENSION];
+      if (draco) {
+        viewRefs.push([
+          () => draco.bufferView as number,
+          (i) => (draco.bufferView = i),
+        ]);
+      }
+    })
+  );
+
+  const usedViews = new Set<number>();
+  viewRefs.forEach(([get]) => {
+    const index = get();
+    if (index !== undefined) usedViews.add(index);
+  });
+
+  const chunks: Uint8Array[] = [];
+  let binLength = 0;
+  let fallbackLength = 0;
+  const viewIndex = new Map<number, number>();
+  const keptViews: GltfBufferView[] = [];
+  views.forEach(({ view, bytes }, index) => {
+    if (!usedViews.has(index)) return;
+    viewIndex.set(index, keptViews.length);
+    keptViews.push(view);
+    chunks.push(bytes);
+
+    const meshopt = view.extensions?.[MESHOPT_EXTENSION];
+    if (meshopt) {
+      meshopt.byteOffset = binLength;
+      meshopt.byteLength = bytes.length;
+      view.buffer = 1;
+      view.byteOffset = fallbackLength;
+      fallbackLength += align4(view.byteLength);
+    } else {
+      view.buffer = 0;
+      view.byteOffset = binLength;
+      view.byteLength = bytes.length;
+    }
+    binLength += align4(bytes.length);
+  });
+  viewRefs.forEach(([get, set]) => {
+    const index = get();
+    if (index !== undefined) set(viewIndex.get(index)!);
+  });
+
+  const bin = new Uint8Array(binLength);
+  let offset = 0;
+  chunks.forEach((bytes) => {
+    bin.set(bytes, offset);
+    offset += align4(bytes.length);
+  });
+
+  gltf.bufferViews = keptViews;
+  gltf.buffers = [{ byteLength: binLength }];
+  if (fallbackLength > 0) {
+    gltf.buffers.push({
+      byteLength: fallbackLength,
+      extensions: { [MESHOPT_EXTENSION]: { fallback: true } },
+    });
+  }
+  return bin;
+};
+
+// Compress the geometry of a GLB produced by GLTFExporter
+export async function compressGlb(
+  glb: ArrayBuffer,
+  compression: ExportCompression
+): Promise<ArrayBuffer> {
+  if (compression === "none") return glb;
+
+  const { gltf, bin } = readGlb(glb);
+  const views: ViewData[] = (gltf.bufferViews || []).map((view) => ({
+    view,
+    bytes: bin.subarray(
+      view.byteOffset || 0,
+      (view.byteOffset || 0) + view.byteLength
+    ),
+  }));
+
+  if (compression === "draco") {
+    const { draco } = await loadDracoEncoder();
+    applyDraco(draco, gltf, views);
+  } else {
+    applyMeshopt(gltf, views);
+  }
+  return writeGlb(gltf, repack(gltf, views));
+}
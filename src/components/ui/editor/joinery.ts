@@ -0,0 +1,212 @@
+import * as THREE from "three";
+import { ADDITION, SUBTRACTION } from "three-bvh-csg";
+import {
+  CutFace,
+  DOVETAIL_FLARE,
+  FaceFrame,
+  findCutFaces,
+  getFaceFrame,
+  JointOptions,
+  JointPlacement,
+  placeJoints,
+} from "./jointPlacement";
+import { CarvedMesh, carveMesh, CsgStep } from "./meshCsg";
+import { collectMeshes } from "./planeCutter";
+
+const ROUND_SEGMENTS = 32;
+// Tools reach this far past the face, so no tool surface lies on it
+const OVERLAP_RATIO = 0.05;
+
+// Cylinder along the face normal from `bottom` to `top`, in face coordinates
+const cylinder = (radius: number, bottom: number, top: number) =>
+  new THREE.CylinderGeometry(radius, radius, top - bottom, ROUND_SEGMENTS)
+    .rotateX(Math.PI / 2)
+    .translate(0, 0, (bottom + top) / 2);
+
+// Dovetail running across the face, flaring out from `width` at the face
+// to its widest at `top`. Below the face it keeps its narrow width.
+const dovetail = (
+  width: number,
+  bottom: number,
+  top: number,
+  length: number
+) => {
+  const wide = width + 2 * top * DOVETAIL_FLARE;
+  const shape = new THREE.Shape([
+    new THREE.Vector2(-width / 2, bottom),
+    new THREE.Vector2(width / 2, bottom),
+    new THREE.Vector2(width / 2, 0),
+    new THREE.Vector2(wide / 2, top),
+    new THREE.Vector2(-wide / 2, top),
+    new THREE.Vector2(-width / 2, 0),
+  ]);
+  return new THREE.ExtrudeGeometry(shape, {
+    depth: length,
+    bevelEnabled: false,
+  })
+    .rotateX(Math.PI / 2)
+    .translate(0, length / 2, 0);
+};
+
+// Tool geometry is in world space, where the first piece is now
+interface JointTool extends CsgStep {
+  // Solids added to a piece are merged into this mesh only
+  mesh?: THREE.Mesh;
+}
+
+// The solids added to and taken out of each piece for one feature, in face
+// coordinates
+function buildJointTools(
+  { x, y, length, mesh }: JointPlacement,
+  frame: FaceFrame,
+  { kind, size, depth, clearance }: JointOptions
+) {
+  const overlap = Math.max(size * OVERLAP_RATIO, clearance);
+  const toWorld = new THREE.Matrix4()
+    .makeBasis(frame.u, frame.v, frame.normal)
+    .setPosition(
+      frame.origin
+        .clone()
+        .addScaledVector(frame.u, x)
+        .addScaledVector(frame.v, y)
+    );
+  const place = (geometry: THREE.BufferGeometry) =>
+    geometry.applyMatrix4(toWorld);
+
+  const first: JointTool[] = [];
+  const second: JointTool[] = [];
+  switch (kind) {
+    case "peg":
+      first.push({
+        geometry: place(cylinder(size / 2, -overlap, depth)),
+        operation: ADDITION,
+        mesh,
+      });
+      second.push({
+        geometry: place(
+          cylinder(size / 2 + clearance, -overlap, depth + clearance)
+        ),
+        operation: SUBTRACTION,
+      });
+      break;
+    case "dovetail":
+      first.push({
+        geometry: place(dovetail(size, -overlap, depth, length)),
+        operation: ADDITION,
+        mesh,
+      });
+      // The slot runs out past both edges of the face, so the tab slides in
+      second.push({
+        geometry: place(
+          dovetail(
+            size + 2 * clearance,
+            -overlap,
+            depth + clearance,
+            length + 2 * (depth + clearance)
+          )
+        ),
+        operation: SUBTRACTION,
+      });
+      break;
+    case "magnet": {
+      const radius = size / 2 + clearance;
+      first.push({
+        geometry: place(cylinder(radius, -depth - clearance, overlap)),
+        operation: SUBTRACTION,
+      });
+      second.push({
+        geometry: place(cylinder(radius, -overlap, depth + clearance)),
+        operation: SUBTRACTION,
+      });
+      break;
+    }
+  }
+  return { first, second };
+}
+
+// Run the tools that reach a mesh against it. Returns null when none does.
+function carveJointsInto(
+  mesh: THREE.Mesh,
+  tools: JointTool[]
+): CarvedMesh | null {
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  const meshBox = mesh.geometry
+    .boundingBox!.clone()
+    .applyMatrix4(mesh.matrixWorld);
+  const reaching = tools.filter(({ geometry, operation, mesh: owner }) => {
+    if (operation === ADDITION) return owner === mesh;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    return geometry.boundingBox!.intersectsBox(meshBox);
+  });
+  if (reaching.length === 0) return null;
+  return carveMesh(mesh, reaching);
+}
+
+// Carve alignment features into two pieces of one cut, across the faces
+// they were cut apart along. The pieces may have been moved apart since,
+// but not turned. Throws when the pieces share no cut face or it has no
+// room for the features.
+export function carveJoints(
+  first: THREE.Object3D,
+  second: THREE.Object3D,
+  options: JointOptions
+): Map<THREE.Mesh, CarvedMesh> {
+  const firstMeshes = collectMeshes(first);
+  const secondMeshes = collectMeshes(second);
+  const firstBox = new THREE.Box3().setFromObject(first);
+  const secondBox = new THREE.Box3().setFromObject(second);
+  const size = firstBox.clone().union(secondBox).getSize(new THREE.Vector3());
+  const tolerance = Math.max(size.x, size.y, size.z) * 1e-5;
+
+  // The faces point at each other, match in size, and the second piece
+  // lies on the side the first piece's face points to
+  const towardsSecond = secondBox
+    .getCenter(new THREE.Vector3())
+    .sub(firstBox.getCenter(new THREE.Vector3()));
+  const secondFaces = findCutFaces(secondMeshes, tolerance);
+  let match: { face: CutFace; other: CutFace; mismatch: number } | null = null;
+  for (const face of findCutFaces(firstMeshes, tolerance)) {
+    if (face.normal.dot(towardsSecond) <= 0) continue;
+    for (const other of secondFaces) {
+      if (face.normal.dot(other.normal) > -(1 - 1e-4)) continue;
+      const mismatch = Math.abs(face.area - other.area) / face.area;
+      if (mismatch < 0.05 && (!match || mismatch < match.mismatch)) {
+        match = { face, other, mismatch };
+      }
+    }
+  }
+  if (!match) {
+    throw new Error("The parts do not share a cut face");
+  }
+  const { face, other } = match;
+
+  const frame = getFaceFrame(face);
+  const placements = placeJoints(face, frame, options);
+  if (placements.length === 0) {
+    throw new Error("The cut face has no room for these joints");
+  }
+
+  // The second piece's tools are placed where its face is now
+  const offset = new THREE.Matrix4().makeTranslation(
+    other.centroid.clone().sub(face.centroid)
+  );
+  const firstTools: JointTool[] = [];
+  const secondTools: JointTool[] = [];
+  placements.forEach((placement) => {
+    const tools = buildJointTools(placement, frame, options);
+    firstTools.push(...tools.first);
+    tools.second.forEach((tool) => tool.geometry.applyMatrix4(offset));
+    secondTools.push(...tools.second);
+  });
+
+  const carved = new Map<THREE.Mesh, CarvedMesh>();
+  const carve = (meshes: THREE.Mesh[], tools: JointTool[]) =>
+    meshes.forEach((mesh) => {
+      const jointed = carveJointsInto(mesh, tools);
+      if (jointed) carved.set(mesh, jointed);
+    });
+  carve(firstMeshes, firstTools);
+  carve(secondMeshes, secondTools);
+  [...firstTools, ...secondTools].forEach(({ geometry }) => geometry.dispose());
+  return carved;
+}
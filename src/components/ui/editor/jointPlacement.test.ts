@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import {
+  findCutFaces,
+  getFaceFrame,
+  JointOptions,
+  placeJoints,
+  WALL_RATIO,
+} from "./jointPlacement";
+import { buildMeshCutResult, cutGeometry } from "./planeCutter";
+
+// A 2 x 6 x 2 box cut across the middle of x, leaving a 6 by 2 cut face on
+// either piece
+const cutBox = () => {
+  const source = new THREE.Mesh(
+    new THREE.BoxGeometry(2, 6, 2),
+    new THREE.MeshStandardMaterial()
+  );
+  const plane = new THREE.Plane(new THREE.Vector3(1, 0, 0), 0);
+  return buildMeshCutResult(
+    source,
+    cutGeometry({
+      geometry: source.geometry,
+      plane,
+      materialCount: 1,
+      capMaterialIndex: 1,
+    })
+  );
+};
+
+const pegs = (count: number): JointOptions => ({
+  kind: "peg",
+  size: 0.4,
+  depth: 0.5,
+  count,
+  clearance: 0.05,
+});
+
+describe("joint placement", () => {
+  test("the pieces of a cut box have one cut face each, facing each other", () => {
+    const { part1, part2 } = cutBox();
+    const [positiveFace, ...otherPositive] = findCutFaces([part1!], 1e-5);
+    const [negativeFace, ...otherNegative] = findCutFaces([part2!], 1e-5);
+
+    expect(otherPositive).toHaveLength(0);
+    expect(otherNegative).toHaveLength(0);
+    // Each face points out of its own piece
+    expect(positiveFace.normal.toArray()).toEqual([-1, 0, 0]);
+    expect(negativeFace.normal.dot(positiveFace.normal)).toBeCloseTo(-1);
+    expect(positiveFace.area).toBeCloseTo(12);
+    expect(negativeFace.area).toBeCloseTo(12);
+    expect(positiveFace.centroid.length()).toBeLessThan(1e-9);
+  });
+
+  test("features fit on the face with a wall of material around them", () => {
+    const { part1 } = cutBox();
+    const [face] = findCutFaces([part1!], 1e-5);
+    const frame = getFaceFrame(face);
+    // The frame runs along the long side of the face
+    expect(Math.abs(frame.u.y)).toBeCloseTo(1);
+
+    const options = pegs(3);
+    const placements = placeJoints(face, frame, options);
+    expect(placements).toHaveLength(options.count);
+
+    const half = (options.size + 2 * options.clearance) * (0.5 + WALL_RATIO);
+    placements.forEach(({ x, y, mesh }) => {
+      expect(Math.abs(x) + half).toBeLessThanOrEqual(3);
+      expect(Math.abs(y) + half).toBeLessThanOrEqual(1);
+      expect(mesh).toBe(part1);
+    });
+
+    // Spread evenly along the face, a third of its length apart
+    const [first, middle, last] = placements.map(({ x }) => x);
+    expect(middle).toBeCloseTo(0);
+    expect(Math.abs(last - first)).toBeCloseTo(4);
+  });
+
+  test("no features are placed when they would crowd the face", () => {
+    const { part1 } = cutBox();
+    const [face] = findCutFaces([part1!], 1e-5);
+    expect(placeJoints(face, getFaceFrame(face), pegs(12))).toEqual([]);
+
+    const wide = { ...pegs(1), size: 1.8 };
+    expect(placeJoints(face, getFaceFrame(face), wide)).toEqual([]);
+  });
+});
@@ -0,0 +1,283 @@
+import * as THREE from "three";
+import { getPlaneBasis } from "./crossSection";
+import { isCapMaterial } from "./planeCutter";
+
+export type JointKind = "peg" | "dovetail" | "magnet";
+
+export const JOINT_KINDS: { kind: JointKind; label: string }[] = [
+  { kind: "peg", label: "Pegs" },
+  { kind: "dovetail", label: "Dovetails" },
+  { kind: "magnet", label: "Magnets" },
+];
+
+// Alignment features added across the face two pieces were cut apart
+// along, sized in scene units. Pegs and dovetail tabs stick out of the
+// first piece into matching holes and slots in the second; magnets get a
+// pocket on either side.
+export interface JointOptions {
+  kind: JointKind;
+  // Diameter of pegs and magnets, width of dovetail tabs where they leave
+  // the face
+  size: number;
+  // How far pegs and tabs reach into the second piece, or how deep each
+  // magnet pocket is
+  depth: number;
+  count: number;
+  // Gap left around each feature so the printed pieces fit together
+  clearance: number;
+}
+
+export const MAX_JOINTS = 12;
+
+// Dovetail tabs widen by this much on each side per unit of depth
+export const DOVETAIL_FLARE = 0.25;
+// Features keep this much of their own width in material around them
+export const WALL_RATIO = 0.25;
+
+// Widest extent of the hole or slot a feature needs on the face
+const getFootprint = ({ kind, size, depth, clearance }: JointOptions) =>
+  kind === "dovetail"
+    ? size + 2 * depth * DOVETAIL_FLARE + 2 * clearance
+    : size + 2 * clearance;
+
+// A flat patch of cap triangles in world space, facing out of its piece
+export interface CutFace {
+  normal: THREE.Vector3;
+  constant: number;
+  triangles: THREE.Triangle[];
+  // Mesh each triangle belongs to
+  meshes: THREE.Mesh[];
+  area: number;
+  centroid: THREE.Vector3;
+}
+
+const getMaterials = (mesh: THREE.Mesh) =>
+  Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+
+// Gather the cap triangles of the meshes into faces, one per plane
+export function findCutFaces(
+  meshes: THREE.Mesh[],
+  tolerance: number
+): CutFace[] {
+  const faces: CutFace[] = [];
+
+  meshes.forEach((mesh) => {
+    const capIndex = getMaterials(mesh).findIndex(isCapMaterial);
+    if (capIndex === -1) return;
+
+    const { geometry } = mesh;
+    const position = geometry.attributes.position;
+    const index = geometry.index;
+    const vertexCount = index ? index.count : position.count;
+    const vertexAt = (i: number) =>
+      new THREE.Vector3()
+        .fromBufferAttribute(position, index ? index.getX(i) : i)
+        .applyMatrix4(mesh.matrixWorld);
+
+    geometry.groups
+      .filter((group) => group.materialIndex === capIndex)
+      .forEach(({ start, count }) => {
+        const end = Math.min(start + count, vertexCount);
+        for (let i = start; i + 2 < end; i += 3) {
+          const triangle = new THREE.Triangle(
+            vertexAt(i),
+            vertexAt(i + 1),
+            vertexAt(i + 2)
+          );
+          const area = triangle.getArea();
+          if (area < tolerance * tolerance) continue;
+
+          const normal = triangle.getNormal(new THREE.Vector3());
+          const constant = -normal.dot(triangle.a);
+          let face = faces.find(
+            (entry) =>
+              entry.normal.dot(normal) > 1 - 1e-4 &&
+              Math.abs(entry.constant - constant) < tolerance
+          );
+          if (!face) {
+            face = {
+              normal,
+              constant,
+              triangles: [],
+              meshes: [],
+              area: 0,
+              centroid: new THREE.Vector3(),
+            };
+            faces.push(face);
+          }
+          face.triangles.push(triangle);
+          face.meshes.push(mesh);
+          face.area += area;
+          face.centroid.addScaledVector(
+            triangle.getMidpoint(new THREE.Vector3()),
+            area
+          );
+        }
+      });
+  });
+
+  faces.forEach((face) => face.centroid.divideScalar(face.area));
+  return faces;
+}
+
+// Coordinates on a face: u along its longest extent, v across it, both
+// measured from its centroid
+export interface FaceFrame {
+  origin: THREE.Vector3;
+  u: THREE.Vector3;
+  v: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+export function getFaceFrame(face: CutFace): FaceFrame {
+  const basis = getPlaneBasis(face.normal);
+  let xx = 0;
+  let xy = 0;
+  let yy = 0;
+  // Second moments of area about the centroid, exact for each triangle
+  face.triangles.forEach((triangle) => {
+    const corners = [triangle.a, triangle.b, triangle.c].map((corner) => {
+      const offset = corner.clone().sub(face.centroid);
+      return { x: offset.dot(basis.u), y: offset.dot(basis.v) };
+    });
+    const sumX = corners.reduce((sum, { x }) => sum + x, 0);
+    const sumY = corners.reduce((sum, { y }) => sum + y, 0);
+    const weight = triangle.getArea() / 12;
+    corners.forEach(({ x, y }) => {
+      xx += weight * x * x;
+      xy += weight * x * y;
+      yy += weight * y * y;
+    });
+    xx += weight * sumX * sumX;
+    xy += weight * sumX * sumY;
+    yy += weight * sumY * sumY;
+  });
+
+  const angle = Math.atan2(2 * xy, xx - yy) / 2;
+  const u = basis.u
+    .clone()
+    .multiplyScalar(Math.cos(angle))
+    .addScaledVector(basis.v, Math.sin(angle))
+    .normalize();
+  const v = new THREE.Vector3().crossVectors(face.normal, u).normalize();
+  return { origin: face.centroid.clone(), u, v, normal: face.normal.clone() };
+}
+
+// Stretches of the face covered by the line running along one face axis
+// at a fixed coordinate on the other, merged and sorted
+function chordSegments(
+  triangles: THREE.Vector2[][],
+  axis: "u" | "v",
+  at: number
+): [number, number][] {
+  const along = (point: THREE.Vector2) => (axis === "u" ? point.x : point.y);
+  const fixed = (point: THREE.Vector2) => (axis === "u" ? point.y : point.x);
+
+  const spans: [number, number][] = [];
+  triangles.forEach((corners) => {
+    const hits: number[] = [];
+    corners.forEach((a, i) => {
+      const b = corners[(i + 1) % 3];
+      const da = fixed(a) - at;
+      const db = fixed(b) - at;
+      if ((da <= 0 && db > 0) || (da > 0 && db <= 0)) {
+        hits.push(along(a) + ((along(b) - along(a)) * da) / (da - db));
+      }
+    });
+    if (hits.length >= 2) {
+      spans.push([Math.min(...hits), Math.max(...hits)]);
+    }
+  });
+
+  spans.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  spans.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1e-9) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+const longestSegment = (segments: [number, number][]) =>
+  segments.reduce<[number, number] | null>(
+    (best, segment) =>
+      !best || segment[1] - segment[0] > best[1] - best[0] ? segment : best,
+    null
+  );
+
+// Where the features go on the face
+export interface JointPlacement {
+  // Face coordinates of the feature's middle
+  x: number;
+  y: number;
+  // Length of face across the feature, which a dovetail runs along
+  length: number;
+  mesh: THREE.Mesh;
+}
+
+// Spread the features evenly along the face, each centered in the material
+// across it. Features that would not fit are left out.
+export function placeJoints(
+  face: CutFace,
+  frame: FaceFrame,
+  options: JointOptions
+): JointPlacement[] {
+  const toFace = (point: THREE.Vector3) => {
+    const offset = point.clone().sub(frame.origin);
+    return new THREE.Vector2(offset.dot(frame.u), offset.dot(frame.v));
+  };
+  const triangles = face.triangles.map((triangle) =>
+    [triangle.a, triangle.b, triangle.c].map(toFace)
+  );
+  let min = Infinity;
+  let max = -Infinity;
+  triangles.forEach((corners) =>
+    corners.forEach(({ x }) => {
+      min = Math.min(min, x);
+      max = Math.max(max, x);
+    })
+  );
+  const pitch = (max - min) / options.count;
+
+  const width = getFootprint(options);
+  const wall = width * WALL_RATIO;
+  if (pitch < width + wall) return [];
+
+  const placements: JointPlacement[] = [];
+  for (let i = 0; i < options.count; i++) {
+    const x = min + (i + 0.5) * pitch;
+    const segment = longestSegment(chordSegments(triangles, "v", x));
+    if (!segment) continue;
+    const length = segment[1] - segment[0];
+    const y = (segment[0] + segment[1]) / 2;
+
+    // Round features need room across the face, and material on both
+    // sides along it
+    if (options.kind !== "dovetail") {
+      if (length < width + 2 * wall) continue;
+      const along = chordSegments(triangles, "u", y).find(
+        ([start, end]) => start <= x && x <= end
+      );
+      const half = width / 2 + wall;
+      if (!along || x - along[0] < half || along[1] - x < half) continue;
+    } else if (length < width) {
+      continue;
+    }
+
+    const owner = triangles.findIndex(([a, b, c]) =>
+      THREE.Triangle.containsPoint(
+        new THREE.Vector3(x, y, 0),
+        new THREE.Vector3(a.x, a.y, 0),
+        new THREE.Vector3(b.x, b.y, 0),
+        new THREE.Vector3(c.x, c.y, 0)
+      )
+    );
+    if (owner === -1) continue;
+    placements.push({ x, y, length, mesh: face.meshes[owner] });
+  }
+  return placements;
+}
@@ -0,0 +1,108 @@
+import * as THREE from "three";
+import {
+  Brush,
+  CSGOperation,
+  Evaluator,
+  INTERSECTION,
+  SUBTRACTION,
+} from "three-bvh-csg";
+import { createCapMaterial, isCapMaterial } from "./planeCutter";
+
+// Geometry of a mesh after CSG. Its groups index `material`: the mesh's
+// own materials, followed by a cut cap material when it had none.
+export interface CarvedMesh {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material[];
+}
+
+// A solid, in world space, and what to do with it
+export interface CsgStep {
+  geometry: THREE.BufferGeometry;
+  operation: CSGOperation;
+}
+
+// Brushes work in the mesh's own space; tool surfaces left in the result
+// get the cut cap material
+function prepareMesh(mesh: THREE.Mesh) {
+  const materials = Array.isArray(mesh.material)
+    ? [...mesh.material]
+    : [mesh.material];
+  let capMaterial = materials.find(isCapMaterial);
+  if (!capMaterial) {
+    capMaterial = createCapMaterial();
+    materials.push(capMaterial);
+  }
+
+  const source = mesh.geometry.clone();
+  if (!source.attributes.normal) source.computeVertexNormals();
+  const evaluator = new Evaluator();
+  evaluator.useGroups = true;
+  evaluator.attributes = ["position", "uv", "normal"].filter(
+    (name) => name in source.attributes
+  );
+
+  mesh.updateMatrixWorld();
+  const toLocal = mesh.matrixWorld.clone().invert();
+  const toolBrush = (geometry: THREE.BufferGeometry) =>
+    new Brush(geometry.clone().applyMatrix4(toLocal), capMaterial);
+
+  return {
+    materials,
+    evaluator,
+    brush: new Brush(source, materials),
+    toolBrush,
+  };
+}
+
+// The evaluator drops unused materials; point the groups back at the full
+// list. Results without triangles come out as null.
+function finishBrush(
+  brush: Brush,
+  materials: THREE.Material[]
+): CarvedMesh | null {
+  if (brush.geometry.attributes.position.count === 0) {
+    brush.geometry.dispose();
+    return null;
+  }
+  const used = brush.material as THREE.Material[];
+  brush.geometry.groups.forEach((group) => {
+    group.materialIndex = materials.indexOf(used[group.materialIndex!]);
+  });
+  return { geometry: brush.geometry, material: materials };
+}
+
+// Apply the steps to a mesh one after the other
+export function carveMesh(
+  mesh: THREE.Mesh,
+  steps: CsgStep[]
+): CarvedMesh | null {
+  const { materials, evaluator, brush, toolBrush } = prepareMesh(mesh);
+  let result = brush;
+  steps.forEach(({ geometry, operation }) => {
+    const tool = toolBrush(geometry);
+    const next = evaluator.evaluate(result, tool, operation);
+    result.geometry.dispose();
+    tool.geometry.dispose();
+    result = next;
+  });
+  return finishBrush(result, materials);
+}
+
+// Divide a mesh by a closed solid into the part inside it and the part
+// outside it
+export function splitMesh(
+  mesh: THREE.Mesh,
+  solid: THREE.BufferGeometry
+): [CarvedMesh | null, CarvedMesh | null] {
+  const { materials, evaluator, brush, toolBrush } = prepareMesh(mesh);
+  const tool = toolBrush(solid);
+  const [inside, outside] = evaluator.evaluate(
+    brush,
+    tool,
+    [INTERSECTION, SUBTRACTION],
+    [new Brush(), new Brush()]
+  );
+  brush.geometry.dispose();
+  tool.geometry.dispose();
+  return [finishBrush(inside, materials), finishBrush(outside, materials)];
+}
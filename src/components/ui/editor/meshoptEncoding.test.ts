@@ -0,0 +1,67 @@
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+import { encodeIndexSequence, encodeVertexBuffer } from "./meshoptEncoding";
+
+// Bytes that change slowly in some lanes and at random in others, so every
+// group width and the escapes past the sentinel get used
+const createVertexData = (count: number, stride: number) => {
+  const data = new Uint8Array(count * stride);
+  let seed = 1;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed >> 16;
+  };
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < stride; k++) {
+      const lane = k % 4;
+      data[i * stride + k] =
+        lane === 0 ? 0 : lane === 1 ? i & 0xff : lane === 2 ? random() : i >> 3;
+    }
+  }
+  return data;
+};
+
+describe("meshopt encoding", () => {
+  beforeAll(() => MeshoptDecoder.ready);
+
+  test.each([
+    [1, 12],
+    [300, 12],
+    [1000, 32],
+    [70, 4],
+  ])("%i vertices of %i bytes decode to the same bytes", (count, stride) => {
+    const data = createVertexData(count, stride);
+    const encoded = encodeVertexBuffer(data, count, stride);
+
+    const decoded = new Uint8Array(count * stride);
+    MeshoptDecoder.decodeVertexBuffer(decoded, count, stride, encoded);
+    expect(decoded).toEqual(data);
+  });
+
+  test("index sequences decode to the same indices", () => {
+    const indices = new Uint32Array(3000);
+    for (let i = 0; i < indices.length; i++) {
+      // Runs of neighbouring indices with jumps back and far ahead
+      indices[i] = i % 7 === 0 ? 100000 + i * 31 : (i * 13) % 500;
+    }
+    const encoded = encodeIndexSequence(indices);
+
+    const decoded = new Uint32Array(indices.length);
+    MeshoptDecoder.decodeIndexSequence(
+      new Uint8Array(decoded.buffer),
+      indices.length,
+      4,
+      encoded
+    );
+    expect(decoded).toEqual(indices);
+
+    const small = Uint16Array.from(indices.map((index) => index % 65536));
+    const decodedSmall = new Uint16Array(small.length);
+    MeshoptDecoder.decodeIndexSequence(
+      new Uint8Array(decodedSmall.buffer),
+      small.length,
+      2,
+      encodeIndexSequence(small)
+    );
+    expect(decodedSmall).toEqual(small);
+  });
+});
@@ -0,0 +1,128 @@
+// Encoders for the two buffer modes of EXT_meshopt_compression that cut
+// parts need. Only the decoder ships with three.js, so the bitstreams are
+// written here following the extension's specification.
+
+const VERTEX_HEADER = 0xa0;
+const INDEX_HEADER = 0xd1;
+const BYTE_GROUP_SIZE = 16;
+const VERTEX_BLOCK_BYTES = 8192;
+const VERTEX_BLOCK_MAX = 256;
+const VERTEX_TAIL_MIN = 32;
+const INDEX_TAIL_SIZE = 4;
+
+// Bits per value for each 2 bit group header, and the group's encoded size
+const GROUP_BITS = [0, 2, 4, 8];
+
+const groupSize = (group: Uint8Array, bits: number) => {
+  if (bits === 0) return group.every((value) => value === 0) ? 0 : Infinity;
+  if (bits === 8) return BYTE_GROUP_SIZE;
+  const sentinel = (1 << bits) - 1;
+  const escapes = group.filter((value) => value >= sentinel).length;
+  return (BYTE_GROUP_SIZE * bits) / 8 + escapes;
+};
+
+// Values that do not fit the group's width are written as the sentinel and
+// follow the packed values as whole bytes
+const writeGroup = (out: number[], group: Uint8Array, bits: number) => {
+  if (bits === 0) return;
+  if (bits === 8) {
+    group.forEach((value) => out.push(value));
+    return;
+  }
+  const sentinel = (1 << bits) - 1;
+  const perByte = 8 / bits;
+  for (let i = 0; i < BYTE_GROUP_SIZE; i += perByte) {
+    let byte = 0;
+    for (let k = 0; k < perByte; k++) {
+      byte = (byte << bits) | Math.min(group[i + k], sentinel);
+    }
+    out.push(byte);
+  }
+  group.forEach((value) => value >= sentinel && out.push(value));
+};
+
+// One byte lane of a vertex block: a 2 bit width per group of 16 deltas,
+// then the groups themselves
+const writeBytes = (out: number[], deltas: Uint8Array) => {
+  const groupCount = deltas.length / BYTE_GROUP_SIZE;
+  const headerStart = out.length;
+  for (let i = 0; i < Math.ceil(groupCount / 4); i++) out.push(0);
+
+  for (let g = 0; g < groupCount; g++) {
+    const group = deltas.subarray(
+      g * BYTE_GROUP_SIZE,
+      (g + 1) * BYTE_GROUP_SIZE
+    );
+    let best = 0;
+    GROUP_BITS.forEach((bits, code) => {
+      if (groupSize(group, bits) < groupSize(group, GROUP_BITS[best])) {
+        best = code;
+      }
+    });
+    out[headerStart + (g >> 2)] |= best << ((g & 3) * 2);
+    writeGroup(out, group, GROUP_BITS[best]);
+  }
+};
+
+// ATTRIBUTES mode: every byte of a vertex is delta coded against the same
+// byte of the previous vertex and stored lane by lane in blocks
+export function encodeVertexBuffer(
+  data: Uint8Array,
+  count: number,
+  stride: number
+): Uint8Array {
+  const blockSize = Math.min(
+    Math.floor(VERTEX_BLOCK_BYTES / stride) & ~(BYTE_GROUP_SIZE - 1),
+    VERTEX_BLOCK_MAX
+  );
+  const out: number[] = [VERTEX_HEADER];
+  const last = data.slice(0, stride);
+
+  for (let start = 0; start < count; start += blockSize) {
+    const size = Math.min(blockSize, count - start);
+    const alignedSize = Math.ceil(size / BYTE_GROUP_SIZE) * BYTE_GROUP_SIZE;
+    const deltas = new Uint8Array(alignedSize);
+
+    for (let k = 0; k < stride; k++) {
+      deltas.fill(0);
+      let previous = last[k];
+      for (let i = 0; i < size; i++) {
+        const value = data[(start + i) * stride + k];
+        const delta = (value - previous) & 0xff;
+        // Zigzag keeps small negative deltas small
+        deltas[i] = ((delta << 1) ^ (delta & 0x80 ? 0xff : 0)) & 0xff;
+        previous = value;
+      }
+      writeBytes(out, deltas);
+      last[k] = previous;
+    }
+  }
+
+  // The first vertex closes the stream, padded to a minimum tail size
+  const tail = Math.max(VERTEX_TAIL_MIN, stride);
+  for (let i = 0; i < tail - stride; i++) out.push(0);
+  for (let k = 0; k < stride; k++) out.push(data[k] || 0);
+  return Uint8Array.from(out);
+}
+
+// INDICES mode: each index is a zigzag delta against the previous one,
+// written as a variable length integer
+export function encodeIndexSequence(indices: ArrayLike<number>): Uint8Array {
+  const out: number[] = [INDEX_HEADER];
+  let last = 0;
+
+  for (let i = 0; i < indices.length; i++) {
+    const delta = (indices[i] - last) | 0;
+    last = indices[i];
+    // The lowest bit selects the baseline; a single baseline is used here
+    let value = (((delta << 1) ^ (delta >> 31)) >>> 0) * 2;
+    while (value >= 0x80) {
+      out.push(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    out.push(value);
+  }
+
+  for (let i = 0; i < INDEX_TAIL_SIZE; i++) out.push(0);
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,313 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader";
+import { ThreeMFLoader } from "three/examples/jsm/loaders/3MFLoader";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader";
+import { KTX2Loader } from "three/examples/jsm/loaders/KTX2Loader";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+
+// Number of leading bytes read to recognise a file
+const HEADER_SIZE = 256;
+
+export interface ModelFormat {
+  label: string;
+  extensions: string[];
+  // Recognises the format from the first bytes of a file. Formats without a
+  // reliable signature are only matched by extension.
+  sniff?: (header: Uint8Array, fileSize: number) => boolean;
+  // Shown when a file carries this format's extension but not its content
+  invalidMessage: string;
+  parse: (
+    data: ArrayBuffer,
+    context: ModelParseContext
+  ) => Promise<THREE.Object3D>;
+}
+
+export interface ModelParseContext {
+  name: string;
+  // External files the model refers to are requested through the manager
+  manager: THREE.LoadingManager;
+  // KTX2 textures are transcoded to a format this renderer supports
+  renderer: THREE.WebGLRenderer | null;
+}
+
+// Companion files of a model, such as glTF buffers and textures, keyed by
+// their path relative to the model file
+export type ModelResources = Record<string, File>;
+
+const headerText = (header: Uint8Array, length = header.length) =>
+  String.fromCharCode(...Array.from(header.subarray(0, length)));
+
+const startsWith = (header: Uint8Array, signature: string) =>
+  headerText(header, signature.length) === signature;
+
+const decodeText = (data: ArrayBuffer) => new TextDecoder().decode(data);
+
+// The decoders are served from public/libs. Absolute URLs pass the loading
+// manager's URL modifier untouched.
+const libraryUrl = (path: string) =>
+  new URL(`${process.env.PUBLIC_URL}/libs/${path}`, window.location.href).href;
+
+// glTF loader able to read Draco and Meshopt geometry and KTX2 textures.
+// The decoders' workers are released once the model is parsed.
+const parseGLTF = async (
+  data: ArrayBuffer | string,
+  { manager, renderer }: ModelParseContext
+) => {
+  const dracoLoader = new DRACOLoader(manager).setDecoderPath(
+    libraryUrl("draco/")
+  );
+  const ktx2Loader = new KTX2Loader(manager).setTranscoderPath(
+    libraryUrl("basis/")
+  );
+  if (renderer) ktx2Loader.detectSupport(renderer);
+
+  const loader = new GLTFLoader(manager)
+    .setDRACOLoader(dracoLoader)
+    .setKTX2Loader(ktx2Loader)
+    .setMeshoptDecoder(MeshoptDecoder);
+  try {
+    return (await loader.parseAsync(data, "")).scene;
+  } finally {
+    dracoLoader.dispose();
+    ktx2Loader.dispose();
+  }
+};
+
+// STL and PLY files hold a single geometry without materials
+const createScanMesh = (geometry: THREE.BufferGeometry, name: string) => {
+  if (!geometry.attributes.normal) geometry.computeVertexNormals();
+  const mesh = new THREE.Mesh(
+    geometry,
+    new THREE.MeshStandardMaterial({
+      color: geometry.attributes.color ? 0xffffff : 0xb0b0b0,
+      vertexColors: !!geometry.attributes.color,
+      roughness: 0.7,
+      metalness: 0,
+    })
+  );
+  mesh.name = name;
+  return mesh;
+};
+
+export const MODEL_FORMATS: ModelFormat[] = [
+  {
+    label: "GLB",
+    extensions: [".glb"],
+    sniff: (header) => startsWith(header, "glTF"),
+    invalidMessage:
+      "This .glb file is not a binary glTF (missing glTF header).",
+    parse: parseGLTF,
+  },
+  {
+    label: "glTF",
+    extensions: [".gltf"],
+    sniff: (header) => headerText(header).trimStart().startsWith("{"),
+    invalidMessage: "This .gltf file is not a glTF JSON document.",
+    parse: (data, context) => parseGLTF(decodeText(data), context),
+  },
+  {
+    label: "OBJ",
+    extensions: [".obj"],
+    invalidMessage: "This .obj file could not be read as a Wavefront OBJ.",
+    parse: async (data) => new OBJLoader().parse(decodeText(data)),
+  },
+  {
+    label: "STL",
+    extensions: [".stl"],
+    // ASCII files start with "solid"; binary files have an 80 byte header,
+    // a triangle count and 50 bytes per triangle
+    sniff: (header, fileSize) =>
+      startsWith(header, "solid") ||
+      (header.length >= 84 &&
+        84 + new DataView(header.buffer).getUint32(80, true) * 50 === fileSize),
+    invalidMessage:
+      "This .stl file is neither an ASCII nor a binary STL (size does not match its triangle count).",
+    parse: async (data, { name }) =>
+      createScanMesh(new STLLoader().parse(data), name),
+  },
+  {
+    label: "PLY",
+    extensions: [".ply"],
+    sniff: (header) => /^ply\r?\n/.test(headerText(header, 5)),
+    invalidMessage: 'This .ply file does not start with a "ply" header.',
+    parse: async (data, { name }) => {
+      const geometry = new PLYLoader().parse(data);
+      if (!geometry.index) {
+        throw new Error(
+          "The PLY file has no faces; point clouds cannot be cut."
+        );
+      }
+      return createScanMesh(geometry, name);
+    },
+  },
+  {
+    label: "FBX",
+    extensions: [".fbx"],
+    // ASCII exports open with a "; FBX 7.x project file" comment
+    sniff: (header) =>
+      startsWith(header, "Kaydara FBX Binary") ||
+      headerText(header).trimStart().startsWith("; FBX"),
+    invalidMessage: "This .fbx file is neither a binary nor an ASCII FBX.",
+    parse: async (data, { manager }) => new FBXLoader(manager).parse(data, ""),
+  },
+  {
+    label: "3MF",
+    extensions: [".3mf"],
+    // 3MF packages are ZIP archives
+    sniff: (header) => startsWith(header, "PK\x03\x04"),
+    invalidMessage: "This .3mf file is not a 3MF package (not a ZIP archive).",
+    parse: async (data) => new ThreeMFLoader().parse(data),
+  },
+];
+
+export const SUPPORTED_EXTENSIONS = MODEL_FORMATS.flatMap(
+  (format) => format.extensions
+);
+
+// Files a model commonly refers to: glTF buffers and textures
+export const RESOURCE_EXTENSIONS = [
+  ".bin",
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".webp",
+  ".ktx2",
+];
+
+export const SUPPORTED_FORMAT_LABELS = MODEL_FORMATS.map(
+  (format) => format.label
+).join(", ");
+
+export const findFormatByName = (fileName: string) => {
+  const name = fileName.toLowerCase();
+  return (
+    MODEL_FORMATS.find((format) =>
+      format.extensions.some((extension) => name.endsWith(extension))
+    ) || null
+  );
+};
+
+export type ModelFileCheck =
+  | { format: ModelFormat; error: null }
+  | { format: null; error: string };
+
+// Work out which format a file is in. The extension decides unless the
+// content clearly belongs to another format, which catches renamed files.
+export async function checkModelFile(file: File): Promise<ModelFileCheck> {
+  const header = new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer());
+  const byName = findFormatByName(file.name);
+  if (byName && (!byName.sniff || byName.sniff(header, file.size))) {
+    return { format: byName, error: null };
+  }
+
+  const byContent = MODEL_FORMATS.find((format) =>
+    format.sniff?.(header, file.size)
+  );
+  if (byContent) return { format: byContent, error: null };
+
+  return {
+    format: null,
+    error: byName
+      ? byName.invalidMessage
+      : `Unsupported file format! Supported formats: ${SUPPORTED_FORMAT_LABELS}.`,
+  };
+}
+
+// Resolve "." and ".." segments; a ".." that leaves the root is kept
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  path.split("/").forEach((part) => {
+    if (part === "..") {
+      if (parts.length > 0 && parts[parts.length - 1] !== "..") {
+        parts.pop();
+      } else {
+        parts.push(part);
+      }
+    } else if (part !== "." && part !== "") {
+      parts.push(part);
+    }
+  });
+  return parts.join("/");
+};
+
+const relativePath = (directory: string[], path: string) => {
+  const parts = normalizePath(path).split("/");
+  let common = 0;
+  while (
+    common < directory.length &&
+    common < parts.length - 1 &&
+    directory[common] === parts[common]
+  ) {
+    common++;
+  }
+  return directory
+    .slice(common)
+    .map(() => "..")
+    .concat(parts.slice(common))
+    .join("/");
+};
+
+// Pick the model out of a set of dropped files, given with their paths
+// inside the drop, and key the rest by their path relative to it
+export function groupModelFiles(
+  entries: { path: string; file: File }[]
+): { file: File; resources: ModelResources } | null {
+  if (entries.length === 0) return null;
+  const main =
+    entries.find(({ file }) => findFormatByName(file.name)) || entries[0];
+  const directory = normalizePath(main.path).split("/").slice(0, -1);
+
+  const resources: ModelResources = {};
+  entries.forEach((entry) => {
+    if (entry !== main) {
+      resources[relativePath(directory, entry.path)] = entry.file;
+    }
+  });
+  return { file: main.file, resources };
+}
+
+// Loading manager that serves the model's relative URIs from the dropped
+// files. URIs without a matching file are recorded in `missing` and
+// answered with an empty data URI so they fail without a network request.
+export function createResourceManager(resources: ModelResources) {
+  const manager = new THREE.LoadingManager();
+  const objectUrls = new Map<string, string>();
+  const missing = new Set<string>();
+
+  manager.setURLModifier((url) => {
+    if (/^(data|blob|https?):/i.test(url)) return url;
+
+    let path = url;
+    try {
+      path = decodeURIComponent(url);
+    } catch {
+      // Keep URIs with stray percent signs as they are
+    }
+    path = normalizePath(path);
+
+    const file = resources[path];
+    if (!file) {
+      missing.add(path);
+      return "data:,";
+    }
+    let objectUrl = objectUrls.get(path);
+    if (!objectUrl) {
+      objectUrl = URL.createObjectURL(file);
+      objectUrls.set(path, objectUrl);
+    }
+    return objectUrl;
+  });
+
+  // Textures may still be decoding when a loader resolves, so the URLs are
+  // released only once the model is replaced
+  const dispose = () => {
+    objectUrls.forEach((objectUrl) => URL.revokeObjectURL(objectUrl));
+    objectUrls.clear();
+  };
+
+  return { manager, missing, dispose };
+}
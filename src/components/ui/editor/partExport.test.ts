@@ -0,0 +1,52 @@
+import * as THREE from "three";
+import { unzipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { exportPartsAsZip, findPartFileFormat } from "./partExport";
+import { IDENTITY_FRAME } from "./units";
+
+const createPart = (name: string) => {
+  const part = new THREE.Mesh(
+    new THREE.BoxGeometry(),
+    new THREE.MeshStandardMaterial()
+  );
+  part.name = name;
+  return part;
+};
+
+describe("exportPartsAsZip", () => {
+  test("gives every part its own file once names are sanitized", async () => {
+    const parts = ["Lid A", "Lid/A", "lid_a", "Lid_A_2", "manifest", ""].map(
+      createPart
+    );
+    const zip = await exportPartsAsZip(
+      "Box",
+      parts,
+      findPartFileFormat("stl"),
+      { compression: "none", frame: IDENTITY_FRAME }
+    );
+    const entries = unzipSync(zip);
+
+    expect(Object.keys(entries).sort()).toEqual(
+      [
+        "Lid_A.stl",
+        "Lid_A_2.stl",
+        "lid_a_3.stl",
+        "Lid_A_2_2.stl",
+        "manifest_2.stl",
+        "Part.stl",
+        "manifest.json",
+      ].sort()
+    );
+
+    const manifest = JSON.parse(
+      new TextDecoder().decode(entries["manifest.json"])
+    );
+    expect(manifest.parts.map(({ file }: { file: string }) => file)).toEqual([
+      "Lid_A.stl",
+      "Lid_A_2.stl",
+      "lid_a_3.stl",
+      "Lid_A_2_2.stl",
+      "manifest_2.stl",
+      "Part.stl",
+    ]);
+  });
+});
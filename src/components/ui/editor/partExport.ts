@@ -0,0 +1,353 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter";
+import { PLYExporter } from "three/examples/jsm/exporters/PLYExporter";
+import { strToU8, zipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { compressGlb, ExportCompression } from "./glbCompression";
+import { computePartStats } from "./partStats";
+import { write3MF, writeOBJ } from "./printFormats";
+import {
+  convertLength,
+  LengthUnit,
+  ModelFrame,
+  sceneToModelMatrix,
+} from "./units";
+
+export interface PartWriteOptions {
+  compression: ExportCompression;
+  // Parts are written in the model file's coordinates and unit
+  frame: ModelFrame;
+}
+
+export interface PartFile {
+  name: string;
+  data: ArrayBuffer | Uint8Array | string;
+}
+
+export interface PartFileFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Unit the format mandates, if any; others are written in the model's
+  unit?: LengthUnit;
+  // Print formats are Z-up; the part is turned from the scene's Y-up
+  zUp?: boolean;
+  // The first file is the part itself, any others are companions
+  write: (
+    object: THREE.Object3D,
+    baseName: string,
+    options: PartWriteOptions
+  ) => Promise<PartFile[]>;
+}
+
+// "glb" writes one GLB with a node per part, "zip" one file per part
+export type PartPackaging = "glb" | "zip";
+
+export interface PartManifestEntry {
+  name: string;
+  // File of the part inside a ZIP, or its node in a single GLB
+  file?: string;
+  node?: string;
+  bounds: { min: number[]; max: number[]; size: number[] };
+  // Enclosed volume; only meaningful for closed meshes
+  volume: number;
+}
+
+export interface PartManifest {
+  model: string;
+  // Unit of the bounds, and its cube of the volumes
+  unit: LengthUnit;
+  exportedAt: string;
+  parts: PartManifestEntry[];
+}
+
+const exportGltf = (object: THREE.Object3D, binary: boolean) =>
+  new GLTFExporter().parseAsync(object, {
+    binary,
+    animations: [],
+    onlyVisible: true,
+  });
+
+const writeSTL = (object: THREE.Object3D, binary: boolean) =>
+  binary
+    ? (new STLExporter().parse(object, { binary: true }).buffer as ArrayBuffer)
+    : new STLExporter().parse(object);
+
+export const PART_FILE_FORMATS: PartFileFormat[] = [
+  {
+    id: "glb",
+    label: "GLB",
+    extension: "glb",
+    mimeType: "model/gltf-binary",
+    unit: "m",
+    write: async (object, baseName, { compression }) => [
+      {
+        name: `${baseName}.glb`,
+        data: await compressGlb(
+          (await exportGltf(object, true)) as ArrayBuffer,
+          compression
+        ),
+      },
+    ],
+  },
+  {
+    id: "gltf",
+    label: "glTF",
+    extension: "gltf",
+    mimeType: "model/gltf+json",
+    unit: "m",
+    write: async (object, baseName) => [
+      {
+        name: `${baseName}.gltf`,
+        data: JSON.stringify(await exportGltf(object, false)),
+      },
+    ],
+  },
+  {
+    id: "stl",
+    label: "STL (binary)",
+    extension: "stl",
+    mimeType: "model/stl",
+    zUp: true,
+    write: async (object, baseName) => [
+      { name: `${baseName}.stl`, data: writeSTL(object, true) },
+    ],
+  },
+  {
+    id: "stl-ascii",
+    label: "STL (ASCII)",
+    extension: "stl",
+    mimeType: "model/stl",
+    zUp: true,
+    write: async (object, baseName) => [
+      { name: `${baseName}.stl`, data: writeSTL(object, false) },
+    ],
+  },
+  {
+    id: "obj",
+    label: "OBJ + MTL",
+    extension: "obj",
+    mimeType: "model/obj",
+    write: async (object, baseName) => {
+      const { obj, mtl } = writeOBJ(object, baseName);
+      return [
+        { name: `${baseName}.obj`, data: obj },
+        { name: `${baseName}.mtl`, data: mtl },
+      ];
+    },
+  },
+  {
+    id: "ply",
+    label: "PLY",
+    extension: "ply",
+    mimeType: "application/octet-stream",
+    write: (object, baseName) =>
+      new Promise((resolve) =>
+        new PLYExporter().parse(
+          object,
+          (data) => resolve([{ name: `${baseName}.ply`, data }]),
+          { binary: true, littleEndian: true }
+        )
+      ),
+  },
+  {
+    id: "3mf",
+    label: "3MF",
+    extension: "3mf",
+    mimeType: "model/3mf",
+    zUp: true,
+    write: async (object, baseName, { frame }) => [
+      { name: `${baseName}.3mf`, data: write3MF(object, frame.unit) },
+    ],
+  },
+];
+
+export const findPartFileFormat = (id: string) =>
+  PART_FILE_FORMATS.find((format) => format.id === id) || PART_FILE_FORMATS[0];
+
+// Y-up to Z-up, keeping the part's front facing -Y
+const Z_UP = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+
+const outputUnit = (format: PartFileFormat, { frame }: PartWriteOptions) =>
+  format.unit || frame.unit;
+
+// Transform from the scene into the exported file's coordinates
+const exportTransform = (format: PartFileFormat, options: PartWriteOptions) => {
+  const { frame } = options;
+  const scale = convertLength(1, frame.unit, outputUnit(format, options));
+  const transform = sceneToModelMatrix(frame).premultiply(
+    new THREE.Matrix4().makeScale(scale, scale, scale)
+  );
+  return format.zUp ? transform.premultiply(Z_UP) : transform;
+};
+
+// Copy of a part placed at its world transform, followed by `transform`.
+// The copy's world matrices are up to date.
+export function createExportCopy(
+  part: THREE.Object3D,
+  transform: THREE.Matrix4 = new THREE.Matrix4()
+): THREE.Object3D {
+  part.updateWorldMatrix(true, true);
+  const copy = part.clone(true);
+  // Parts hidden in the editor are still exported
+  copy.visible = true;
+  transform
+    .clone()
+    .multiply(part.matrixWorld)
+    .decompose(copy.position, copy.quaternion, copy.scale);
+  copy.updateMatrixWorld(true);
+  return copy;
+}
+
+const describePart = (
+  part: THREE.Object3D,
+  name: string
+): PartManifestEntry => {
+  const { bounds, volume } = computePartStats(part);
+  return {
+    name,
+    bounds: {
+      min: bounds.min.toArray(),
+      max: bounds.max.toArray(),
+      size: bounds.getSize(new THREE.Vector3()).toArray(),
+    },
+    volume,
+  };
+};
+
+const MANIFEST_FILE = "manifest.json";
+
+// Names numbered where they repeat: Body, Body_2, ... skipping numbered
+// names that are already taken. `key` decides which names count as equal.
+const numberRepeats = (
+  names: string[],
+  key: (name: string) => string,
+  reserved: string[] = []
+) => {
+  const taken = new Set(reserved.map(key));
+  return names.map((name) => {
+    let unique = name;
+    for (let count = 2; taken.has(key(unique)); count++) {
+      unique = `${name}_${count}`;
+    }
+    taken.add(key(unique));
+    return unique;
+  });
+};
+
+// Part names made unique, so nodes do not collide
+const uniqueNames = (parts: THREE.Object3D[]) =>
+  numberRepeats(
+    parts.map((part) => part.name || "Part"),
+    (name) => name
+  );
+
+const toFileName = (name: string) => name.replace(/[^\w.-]+/g, "_");
+
+// File names for the parts, made unique once sanitized, as names that
+// differ only in characters a file name cannot hold end up the same.
+// Case is ignored like on most desktop file systems, and the manifest's
+// name is kept free.
+const uniqueFileNames = (names: string[]) =>
+  numberRepeats(names.map(toFileName), (name) => name.toLowerCase(), [
+    MANIFEST_FILE.replace(/\.json$/, ""),
+  ]);
+
+const createManifest = (
+  model: string,
+  unit: LengthUnit,
+  entries: PartManifestEntry[]
+): PartManifest => ({
+  model,
+  unit,
+  exportedAt: new Date().toISOString(),
+  parts: entries,
+});
+
+// One GLB holding a named node per part, and the manifest alongside it
+export async function exportPartsAsGlb(
+  model: string,
+  parts: THREE.Object3D[],
+  options: PartWriteOptions
+): Promise<{ glb: ArrayBuffer; manifest: PartManifest }> {
+  const names = uniqueNames(parts);
+  const format = findPartFileFormat("glb");
+  const transform = exportTransform(format, options);
+  const scene = new THREE.Group();
+  scene.name = model;
+  const entries = parts.map((part, i) => {
+    const copy = createExportCopy(part, transform);
+    copy.name = names[i];
+    scene.add(copy);
+    return { ...describePart(copy, names[i]), node: names[i] };
+  });
+
+  const [{ data }] = await format.write(scene, model, options);
+  return {
+    glb: data as ArrayBuffer,
+    manifest: createManifest(model, outputUnit(format, options), entries),
+  };
+}
+
+// A ZIP with one file per part in the chosen format and manifest.json
+export async function exportPartsAsZip(
+  model: string,
+  parts: THREE.Object3D[],
+  format: PartFileFormat,
+  options: PartWriteOptions
+): Promise<Uint8Array> {
+  const names = uniqueNames(parts);
+  const fileNames = uniqueFileNames(names);
+  const transform = exportTransform(format, options);
+  const files: PartFile[] = [];
+  const entries: PartManifestEntry[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const copy = createExportCopy(parts[i], transform);
+    copy.name = names[i];
+    const written = await format.write(copy, fileNames[i], options);
+    files.push(...written);
+    entries.push({ ...describePart(copy, names[i]), file: written[0].name });
+  }
+
+  files.push({
+    name: MANIFEST_FILE,
+    data: JSON.stringify(
+      createManifest(model, outputUnit(format, options), entries),
+      null,
+      2
+    ),
+  });
+  return zipFiles(files);
+}
+
+// Files of a single part, ready to download
+export async function exportPart(
+  part: THREE.Object3D,
+  format: PartFileFormat,
+  options: PartWriteOptions
+): Promise<PartFile[]> {
+  const copy = createExportCopy(part, exportTransform(format, options));
+  return format.write(copy, toFileName(part.name || "part"), options);
+}
+
+export const zipFiles = (files: PartFile[]) =>
+  zipSync(
+    Object.fromEntries(
+      files.map(({ name, data }) => [
+        name,
+        typeof data === "string" ? strToU8(data) : new Uint8Array(data),
+      ])
+    )
+  );
+
+export function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([data], { type }));
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(link.href), 100);
+}
@@ -0,0 +1,44 @@
+import * as THREE from "three";
+import { computePartStats } from "./partStats";
+
+const material = new THREE.MeshBasicMaterial();
+
+const expectClose = (actual: number, expected: number) =>
+  expect(Math.abs(actual - expected) / expected).toBeLessThan(0.005);
+
+describe("computePartStats", () => {
+  test("measures a unit cube away from the origin", () => {
+    const cube = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+    cube.position.set(3, -2, 5);
+    const stats = computePartStats(cube);
+
+    expect(stats.volume).toBeCloseTo(1);
+    expect(stats.surfaceArea).toBeCloseTo(6);
+    expect(stats.triangleCount).toBe(12);
+    expect(stats.centerOfMass.distanceTo(cube.position)).toBeLessThan(1e-9);
+    expect(stats.bounds.min.toArray()).toEqual([2.5, -2.5, 4.5]);
+  });
+
+  test("measures a sphere within its tessellation", () => {
+    const radius = 2;
+    const sphere = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 256, 128),
+      material
+    );
+    const stats = computePartStats(sphere);
+
+    expectClose(stats.volume, (4 / 3) * Math.PI * radius ** 3);
+    expectClose(stats.surfaceArea, 4 * Math.PI * radius ** 2);
+    expect(stats.centerOfMass.length()).toBeLessThan(1e-6);
+  });
+
+  test("measures parts in world space, through their scale", () => {
+    const group = new THREE.Group();
+    group.scale.setScalar(2);
+    group.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material));
+    const stats = computePartStats(group);
+
+    expect(stats.volume).toBeCloseTo(8);
+    expect(stats.surfaceArea).toBeCloseTo(24);
+  });
+});
@@ -0,0 +1,71 @@
+import * as THREE from "three";
+
+// Geometric properties of a part in world space
+export interface PartStats {
+  // Enclosed volume; only meaningful for closed meshes
+  volume: number;
+  surfaceArea: number;
+  triangleCount: number;
+  bounds: THREE.Box3;
+  // Centroid of the enclosed solid, assuming uniform density. Parts without
+  // a measurable volume fall back to the center of their bounds.
+  centerOfMass: THREE.Vector3;
+}
+
+// Volume and center of mass are summed from the signed tetrahedra between
+// each triangle and the origin
+export function computePartStats(part: THREE.Object3D): PartStats {
+  let volume = 0;
+  let surfaceArea = 0;
+  let triangleCount = 0;
+  const moment = new THREE.Vector3();
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const edge1 = new THREE.Vector3();
+  const edge2 = new THREE.Vector3();
+
+  part.updateWorldMatrix(true, true);
+  part.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const { index, attributes } = object.geometry as THREE.BufferGeometry;
+    const position = attributes.position;
+    if (!position) return;
+
+    const count = index ? index.count : position.count;
+    const vertexAt = (i: number) => (index ? index.getX(i) : i);
+    for (let i = 0; i + 2 < count; i += 3) {
+      a.fromBufferAttribute(position, vertexAt(i)).applyMatrix4(
+        object.matrixWorld
+      );
+      b.fromBufferAttribute(position, vertexAt(i + 1)).applyMatrix4(
+        object.matrixWorld
+      );
+      c.fromBufferAttribute(position, vertexAt(i + 2)).applyMatrix4(
+        object.matrixWorld
+      );
+      edge1.subVectors(b, a);
+      edge2.subVectors(c, a);
+      surfaceArea += edge1.cross(edge2).length() / 2;
+
+      const tetrahedron = a.dot(edge1.crossVectors(b, c)) / 6;
+      volume += tetrahedron;
+      moment.addScaledVector(edge2.copy(a).add(b).add(c), tetrahedron / 4);
+      triangleCount++;
+    }
+  });
+
+  const bounds = new THREE.Box3().setFromObject(part, true);
+  const centerOfMass =
+    Math.abs(volume) > 1e-12
+      ? moment.divideScalar(volume)
+      : bounds.getCenter(new THREE.Vector3());
+
+  return {
+    volume: Math.abs(volume),
+    surfaceArea,
+    triangleCount,
+    bounds,
+    centerOfMass,
+  };
+}
@@ -0,0 +1,96 @@
+import * as THREE from "three";
+import {
+  buildMeshCutResult,
+  buildMeshPart,
+  cutGeometry,
+  planMeshCut,
+} from "./planeCutter";
+
+const createSkinnedBox = () => {
+  const geometry = new THREE.BoxGeometry(2, 2, 2);
+  const count = geometry.attributes.position.count;
+  geometry.setAttribute(
+    "skinIndex",
+    new THREE.Uint16BufferAttribute(new Array(count * 4).fill(0), 4)
+  );
+  geometry.setAttribute(
+    "skinWeight",
+    new THREE.Float32BufferAttribute(
+      Array.from({ length: count * 4 }, (_, i) => (i % 4 === 0 ? 1 : 0)),
+      4
+    )
+  );
+  const bone = new THREE.Bone();
+  const mesh = new THREE.SkinnedMesh(geometry, new THREE.MeshBasicMaterial());
+  mesh.add(bone);
+  mesh.bind(
+    new THREE.Skeleton([bone]),
+    new THREE.Matrix4().makeTranslation(0, 1, 0)
+  );
+  return mesh;
+};
+
+describe("mesh pieces", () => {
+  test("pieces of a skinned mesh are drawn in its pose and can move", () => {
+    const source = createSkinnedBox();
+    // Raised by the bone on top of the bind matrix, the box spans y 3 to 5
+    source.skeleton.bones[0].position.set(0, 3, 0);
+    const plan = planMeshCut(
+      source,
+      new THREE.Plane(new THREE.Vector3(0, 1, 0), -4)
+    );
+
+    if (!plan.crossed) throw new Error("The plane should cross the box");
+    const { part1, part2 } = buildMeshCutResult(
+      source,
+      cutGeometry(plan.request)
+    );
+    [part1!, part2!].forEach((piece) => {
+      expect(piece).not.toBeInstanceOf(THREE.SkinnedMesh);
+      expect(piece.geometry.getAttribute("skinIndex")).toBeUndefined();
+    });
+    const upper = new THREE.Box3().setFromObject(part1!);
+    expect(upper.min.y).toBeCloseTo(4);
+    expect(upper.max.y).toBeCloseTo(5);
+    expect(new THREE.Box3().setFromObject(part2!).min.y).toBeCloseTo(3);
+
+    part1!.position.x += 5;
+    expect(new THREE.Box3().setFromObject(part1!).min.x).toBeCloseTo(4);
+  });
+
+  test("a skinned mesh the plane misses is kept whole in its pose", () => {
+    const source = createSkinnedBox();
+    const plane = new THREE.Plane(new THREE.Vector3(1, 0, 0), -5);
+    const plan = planMeshCut(source, plane);
+
+    if (plan.crossed) throw new Error("The plane should miss the box");
+    const whole = plan.result.part2!;
+    expect(whole).not.toBeInstanceOf(THREE.SkinnedMesh);
+    expect(new THREE.Box3().setFromObject(whole).min.y).toBeCloseTo(0);
+  });
+
+  test("pieces get their own copy of the source's userData", () => {
+    const source = new THREE.Mesh(
+      new THREE.BoxGeometry(),
+      new THREE.MeshBasicMaterial()
+    );
+    const bone = new THREE.Bone();
+    source.userData = { partId: "a", extras: { sku: 7 }, bone };
+    const piece = buildMeshPart(source, source.geometry.clone())!;
+
+    // References into the scene are kept rather than failing the cut
+    expect(piece.userData).toEqual(source.userData);
+    expect(piece.userData.bone).toBe(bone);
+    delete piece.userData.partId;
+    expect(source.userData.partId).toBe("a");
+  });
+
+  test("pieces of a plain mesh are plain meshes", () => {
+    const source = new THREE.Mesh(
+      new THREE.BoxGeometry(),
+      new THREE.MeshBasicMaterial()
+    );
+    const piece = buildMeshPart(source, source.geometry.clone())!;
+    expect(piece).not.toBeInstanceOf(THREE.SkinnedMesh);
+  });
+});
@@ -0,0 +1,351 @@
+import * as THREE from "three";
+import { buildCapGeometry, computeSectionLoops } from "./crossSection";
+import { appendCap, splitGeometryByPlane } from "./planeSplitter";
+
+// part1 holds the geometry on the positive side of the plane (the side its
+// normal points to), part2 the geometry on the negative side
+export interface MeshCutResult {
+  part1: THREE.Mesh | null;
+  part2: THREE.Mesh | null;
+}
+
+export const cloneMaterial = (
+  material: THREE.Material | THREE.Material[]
+): THREE.Material | THREE.Material[] => {
+  if (Array.isArray(material)) {
+    return material.map((mat) => mat.clone());
+  } else {
+    return material.clone();
+  }
+};
+
+export const createCapMaterial = () => {
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xd9534f,
+    roughness: 0.8,
+    metalness: 0,
+  });
+  material.name = "CutCap";
+  material.userData.isCutCap = true;
+  return material;
+};
+
+export const isCapMaterial = (material: THREE.Material) =>
+  material.userData.isCutCap === true;
+
+// The geometry half of a mesh cut, expressed in the mesh's local space so it
+// can run without access to the scene graph or the real materials
+export interface GeometryCutRequest {
+  geometry: THREE.BufferGeometry;
+  plane: THREE.Plane;
+  materialCount: number;
+  capMaterialIndex: number;
+}
+
+export interface GeometryCutResult {
+  part1: THREE.BufferGeometry | null;
+  part2: THREE.BufferGeometry | null;
+}
+
+// Meshes the plane misses are resolved immediately, the others need their
+// geometry cut
+export type MeshCutPlan =
+  | { crossed: false; result: MeshCutResult }
+  | { crossed: true; request: GeometryCutRequest };
+
+// Cut a geometry with a plane given in the same space. The material groups
+// of the result index into the source mesh's materials, plus the cap at
+// `capMaterialIndex`; with a single material every group maps onto it.
+export function cutGeometry({
+  geometry,
+  plane,
+  materialCount,
+  capMaterialIndex,
+}: GeometryCutRequest): GeometryCutResult {
+  const { positive, negative } = splitGeometryByPlane(
+    geometry,
+    plane,
+    (index) => (materialCount === 1 ? 0 : index)
+  );
+
+  // Close each half over the cross-section with a cap facing away from it.
+  // Both caps fill the same loops.
+  const loops = computeSectionLoops(geometry, plane);
+  const closePart = (
+    part: THREE.BufferGeometry | null,
+    facing: THREE.Vector3
+  ) => {
+    if (!part) return null;
+    const cap = buildCapGeometry(loops, plane, facing);
+    if (!cap) return part;
+    const closed = appendCap(part, cap, capMaterialIndex);
+    part.dispose();
+    cap.dispose();
+    return closed;
+  };
+
+  return {
+    part1: closePart(positive, plane.normal.clone().negate()),
+    part2: closePart(negative, plane.normal.clone()),
+  };
+}
+
+// A deep copy of userData where the browser can make one. Values it cannot
+// copy, such as functions or references into the scene, leave a shallow
+// copy that shares them with the source instead.
+const cloneUserData = (userData: THREE.Object3D["userData"]) => {
+  try {
+    return structuredClone(userData);
+  } catch {
+    return { ...userData };
+  }
+};
+
+// Give a piece the node properties of the mesh it came from, so it can
+// take the mesh's place in a copy of the hierarchy
+const placeLikeSource = (source: THREE.Mesh, part: THREE.Mesh) => {
+  part.name = source.name;
+  part.position.copy(source.position);
+  part.quaternion.copy(source.quaternion);
+  part.scale.copy(source.scale);
+  part.userData = cloneUserData(source.userData);
+  return part;
+};
+
+// The geometry of a mesh as it is drawn. Pieces cannot follow bones that
+// stay behind with the source, so a skinned mesh's current pose is baked
+// into a copy that no longer needs them.
+const getPosedGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
+  if (!(mesh instanceof THREE.SkinnedMesh)) return mesh.geometry;
+  const { bones, boneInverses } = mesh.skeleton;
+  bones.forEach((bone) => bone.updateWorldMatrix(true, false));
+
+  const geometry = mesh.geometry.clone();
+  const { position, normal, skinIndex, skinWeight } = geometry.attributes;
+  const vertex = new THREE.Vector3();
+  const boneMatrix = new THREE.Matrix4();
+  const skinMatrix = new THREE.Matrix4();
+  for (let i = 0; i < position.count; i++) {
+    mesh.getVertexPosition(i, vertex);
+    position.setXYZ(i, vertex.x, vertex.y, vertex.z);
+    if (!normal) continue;
+
+    // Normals turn with the weighted bone matrices, as in the shader
+    skinMatrix.elements.fill(0);
+    for (let c = 0; c < skinWeight.itemSize; c++) {
+      const weight = skinWeight.getComponent(i, c);
+      if (weight === 0) continue;
+      const bone = skinIndex.getComponent(i, c);
+      boneMatrix.multiplyMatrices(bones[bone].matrixWorld, boneInverses[bone]);
+      for (let k = 0; k < 16; k++) {
+        skinMatrix.elements[k] += weight * boneMatrix.elements[k];
+      }
+    }
+    skinMatrix.premultiply(mesh.bindMatrixInverse).multiply(mesh.bindMatrix);
+    vertex.fromBufferAttribute(normal, i).transformDirection(skinMatrix);
+    normal.setXYZ(i, vertex.x, vertex.y, vertex.z);
+  }
+
+  geometry.deleteAttribute("skinIndex");
+  geometry.deleteAttribute("skinWeight");
+  geometry.morphAttributes = {};
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+// Decide how a single mesh is cut by a world-space plane. Meshes that lie
+// entirely on one side of the plane are kept whole.
+export function planMeshCut(mesh: THREE.Mesh, plane: THREE.Plane): MeshCutPlan {
+  mesh.updateMatrixWorld();
+  const geometry = getPosedGeometry(mesh);
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const meshBox = geometry.boundingBox!.clone().applyMatrix4(mesh.matrixWorld);
+  if (!plane.intersectsBox(meshBox)) {
+    const whole = placeLikeSource(
+      mesh,
+      new THREE.Mesh(
+        geometry === mesh.geometry ? geometry.clone() : geometry,
+        cloneMaterial(mesh.material)
+      )
+    );
+    const center = meshBox.getCenter(new THREE.Vector3());
+    const result =
+      plane.distanceToPoint(center) >= 0
+        ? { part1: whole, part2: null }
+        : { part1: null, part2: whole };
+    return { crossed: false, result };
+  }
+
+  return {
+    crossed: true,
+    request: {
+      geometry,
+      plane: plane.clone().applyMatrix4(mesh.matrixWorld.clone().invert()),
+      ...getMaterialLayout(mesh),
+    },
+  };
+}
+
+const getSurfaceMaterials = (mesh: THREE.Mesh) =>
+  Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+
+// Recut parts keep reusing the cap material they already carry
+const getMaterialLayout = (mesh: THREE.Mesh) => {
+  const surfaceMaterials = getSurfaceMaterials(mesh);
+  const existingCapIndex = surfaceMaterials.findIndex(isCapMaterial);
+  return {
+    materialCount: surfaceMaterials.length,
+    capMaterialIndex:
+      existingCapIndex === -1 ? surfaceMaterials.length : existingCapIndex,
+  };
+};
+
+// Turn cut geometry back into a mesh carrying the source mesh's materials,
+// name, local transform and userData
+export function buildMeshPart(
+  mesh: THREE.Mesh,
+  geometry: THREE.BufferGeometry | null
+): THREE.Mesh | null {
+  if (!geometry) return null;
+  const surfaceMaterials = getSurfaceMaterials(mesh);
+  const materials = surfaceMaterials.map((material) => material.clone());
+  if (!surfaceMaterials.some(isCapMaterial)) {
+    materials.push(createCapMaterial());
+  }
+  return placeLikeSource(mesh, new THREE.Mesh(geometry, materials));
+}
+
+export const buildMeshCutResult = (
+  mesh: THREE.Mesh,
+  { part1, part2 }: GeometryCutResult
+): MeshCutResult => ({
+  part1: buildMeshPart(mesh, part1),
+  part2: buildMeshPart(mesh, part2),
+});
+
+// The gap between two neighbouring slabs. Both planes face the slicing
+// direction; the material between them is removed, which models the kerf
+// of a saw or laser. Without kerf both planes coincide.
+export interface SlabSeparator {
+  start: THREE.Plane;
+  end: THREE.Plane;
+}
+
+export interface GeometrySliceRequest {
+  geometry: THREE.BufferGeometry;
+  separators: SlabSeparator[];
+  materialCount: number;
+  capMaterialIndex: number;
+}
+
+// Split a geometry into slabs by cutting off one slab after the other,
+// from the lowest separator up. The result has one entry per slab, null
+// where a slab holds no geometry.
+export function sliceGeometry({
+  geometry,
+  separators,
+  materialCount,
+  capMaterialIndex,
+}: GeometrySliceRequest): (THREE.BufferGeometry | null)[] {
+  const slabs: (THREE.BufferGeometry | null)[] = [];
+  // Once cut, the geometry carries a cap group as well
+  const cutLayout = {
+    materialCount: Math.max(materialCount, capMaterialIndex + 1),
+    capMaterialIndex,
+  };
+
+  let remaining: THREE.BufferGeometry | null = geometry;
+  let layout = { materialCount, capMaterialIndex };
+
+  // Cut with a plane unless the geometry lies entirely on one side of it
+  const split = (source: THREE.BufferGeometry, plane: THREE.Plane) => {
+    if (!source.boundingBox) source.computeBoundingBox();
+    if (plane.intersectsBox(source.boundingBox!)) {
+      const result = cutGeometry({ geometry: source, plane, ...layout });
+      if (source !== geometry) source.dispose();
+      layout = cutLayout;
+      return result;
+    }
+    const center = source.boundingBox!.getCenter(new THREE.Vector3());
+    return plane.distanceToPoint(center) >= 0
+      ? { part1: source, part2: null }
+      : { part1: null, part2: source };
+  };
+
+  separators.forEach(({ start, end }) => {
+    if (!remaining) {
+      slabs.push(null);
+      return;
+    }
+    const below = split(remaining, start);
+    slabs.push(below.part2);
+    remaining = below.part1;
+
+    if (remaining && !end.equals(start)) {
+      const kerf = split(remaining, end);
+      kerf.part2?.dispose();
+      remaining = kerf.part1;
+    }
+  });
+  slabs.push(remaining);
+
+  return slabs;
+}
+
+// Express world-space slab separators in the mesh's local space
+export function planMeshSlice(
+  mesh: THREE.Mesh,
+  separators: SlabSeparator[]
+): GeometrySliceRequest {
+  mesh.updateMatrixWorld();
+  const toLocal = mesh.matrixWorld.clone().invert();
+  return {
+    geometry: getPosedGeometry(mesh),
+    separators: separators.map(({ start, end }) => ({
+      start: start.clone().applyMatrix4(toLocal),
+      end: end.clone().applyMatrix4(toLocal),
+    })),
+    ...getMaterialLayout(mesh),
+  };
+}
+
+// Rebuild the part of `root`'s hierarchy that leads to the given pieces,
+// with each source mesh replaced by its piece. Nodes keep their names,
+// local transforms and userData (glTF extras); branches without pieces are
+// left out. Returns null when no piece belongs under `root`.
+export function mirrorHierarchy(
+  root: THREE.Object3D,
+  pieces: Map<THREE.Mesh, THREE.Mesh>
+): THREE.Object3D | null {
+  const mirror = (node: THREE.Object3D): THREE.Object3D | null => {
+    const children = node.children
+      .map(mirror)
+      .filter((child): child is THREE.Object3D => child !== null);
+    const piece = node instanceof THREE.Mesh ? pieces.get(node) : undefined;
+    if (!piece && children.length === 0) return null;
+
+    // Meshes without a piece of their own still hold their children's place
+    const copy =
+      piece ||
+      (node instanceof THREE.Mesh
+        ? new THREE.Object3D().copy(node, false)
+        : node.clone(false));
+    delete copy.userData.partId;
+    children.forEach((child) => copy.add(child));
+    return copy;
+  };
+  return mirror(root);
+}
+
+export function collectMeshes(object: THREE.Object3D): THREE.Mesh[] {
+  const meshes: THREE.Mesh[] = [];
+  object.updateMatrixWorld(true);
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry) {
+      meshes.push(child);
+    }
+  });
+  return meshes;
+}
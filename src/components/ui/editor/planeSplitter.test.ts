@@ -0,0 +1,139 @@
+import * as THREE from "three";
+import { splitGeometryByPlane } from "./planeSplitter";
+
+// Signed volume enclosed by the triangles and a point on the cut plane. The
+// missing cap lies in the plane, so it would add nothing: an open half
+// measures the same as the closed one.
+const volumeFrom = (geometry: THREE.BufferGeometry, apex: THREE.Vector3) => {
+  const position = geometry.attributes.position;
+  const index = geometry.index!;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  let volume = 0;
+  for (let i = 0; i < index.count; i += 3) {
+    a.fromBufferAttribute(position, index.getX(i)).sub(apex);
+    b.fromBufferAttribute(position, index.getX(i + 1)).sub(apex);
+    c.fromBufferAttribute(position, index.getX(i + 2)).sub(apex);
+    volume += a.dot(b.cross(c)) / 6;
+  }
+  return volume;
+};
+
+const findVertex = (geometry: THREE.BufferGeometry, at: THREE.Vector3) => {
+  const position = geometry.attributes.position;
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    if (point.fromBufferAttribute(position, i).distanceTo(at) < 1e-6) {
+      return i;
+    }
+  }
+  throw new Error(`No vertex at ${at.toArray()}`);
+};
+
+describe("splitGeometryByPlane", () => {
+  test("splits a box off-centre into halves of the right volume", () => {
+    const box = new THREE.BoxGeometry(2, 2, 2);
+    const plane = new THREE.Plane(new THREE.Vector3(1, 0, 0), -0.5);
+    const { positive, negative } = splitGeometryByPlane(box, plane);
+    const apex = new THREE.Vector3(0.5, 0, 0);
+
+    expect(volumeFrom(positive!, apex)).toBeCloseTo(2);
+    expect(volumeFrom(negative!, apex)).toBeCloseTo(6);
+
+    positive!.computeBoundingBox();
+    negative!.computeBoundingBox();
+    expect(positive!.boundingBox!.min.x).toBeCloseTo(0.5);
+    expect(negative!.boundingBox!.max.x).toBeCloseTo(0.5);
+  });
+
+  test("remaps the material groups of the source", () => {
+    const box = new THREE.BoxGeometry(2, 2, 2);
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    const { positive } = splitGeometryByPlane(box, plane, (index) => index + 1);
+
+    // The bottom face lies entirely below the plane
+    expect(positive!.groups.map(({ materialIndex }) => materialIndex)).toEqual([
+      1, 2, 3, 5, 6,
+    ]);
+  });
+
+  test("gives a triangle lying in the plane to the half it bounds", () => {
+    const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+    const facingUp = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(0, 1, 0),
+    ]);
+    const facingDown = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(1, 0, 0),
+    ]);
+
+    // A face pointing along the plane normal is the top of a solid below it
+    const up = splitGeometryByPlane(facingUp, plane);
+    expect(up.positive).toBeNull();
+    expect(up.negative!.index!.count).toBe(3);
+
+    const down = splitGeometryByPlane(facingDown, plane);
+    expect(down.positive!.index!.count).toBe(3);
+    expect(down.negative).toBeNull();
+
+    // A box resting on the plane stays whole on the side it stands on
+    const box = new THREE.BoxGeometry(1, 1, 1).translate(0, 0, 0.5);
+    const resting = splitGeometryByPlane(box, plane);
+    expect(resting.negative).toBeNull();
+    expect(resting.positive!.index!.count).toBe(box.index!.count);
+  });
+
+  test("interpolates UVs, normals and skin weights on a cut edge", () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute([-1, 0, 0, 1, 0, 0, -1, 1, 0], 3)
+    );
+    geometry.setAttribute(
+      "uv",
+      new THREE.Float32BufferAttribute([0, 0, 1, 0, 0, 1], 2)
+    );
+    geometry.setAttribute(
+      "normal",
+      new THREE.Float32BufferAttribute([1, 0, 0, 0, 1, 0, 0, 0, 1], 3)
+    );
+    geometry.setAttribute(
+      "skinIndex",
+      new THREE.Uint16BufferAttribute([1, 0, 0, 0, 2, 0, 0, 0, 3, 0, 0, 0], 4)
+    );
+    geometry.setAttribute(
+      "skinWeight",
+      new THREE.Float32BufferAttribute([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0], 4)
+    );
+
+    // Crosses the bottom edge a quarter of the way from its first corner
+    const plane = new THREE.Plane(new THREE.Vector3(1, 0, 0), 0.5);
+    const { negative } = splitGeometryByPlane(geometry, plane);
+    const vertex = findVertex(negative!, new THREE.Vector3(-0.5, 0, 0));
+
+    const uv = negative!.getAttribute("uv");
+    expect(uv.getX(vertex)).toBeCloseTo(0.25);
+    expect(uv.getY(vertex)).toBeCloseTo(0);
+
+    const normal = new THREE.Vector3().fromBufferAttribute(
+      negative!.getAttribute("normal") as THREE.BufferAttribute,
+      vertex
+    );
+    const expected = new THREE.Vector3(0.75, 0.25, 0).normalize();
+    expect(normal.distanceTo(expected)).toBeLessThan(1e-6);
+
+    const skinIndex = negative!.getAttribute("skinIndex");
+    const skinWeight = negative!.getAttribute("skinWeight");
+    expect([0, 1, 2, 3].map((c) => skinIndex.getComponent(vertex, c))).toEqual([
+      1, 2, 0, 0,
+    ]);
+    const weights = [0, 1, 2, 3].map((c) => skinWeight.getComponent(vertex, c));
+    expect(weights[0]).toBeCloseTo(0.75);
+    expect(weights[1]).toBeCloseTo(0.25);
+    expect(weights[2] + weights[3]).toBe(0);
+  });
+});
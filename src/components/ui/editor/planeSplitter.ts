@@ -0,0 +1,305 @@
+import * as THREE from "three";
+
+const EPSILON = 1e-6;
+
+// One half of a split, collected as plain arrays before it becomes geometry
+interface SideBuilder {
+  values: Record<string, number[]>;
+  index: number[];
+  groups: { start: number; count: number; materialIndex: number }[];
+  vertexIds: Map<string, number>;
+  vertexCount: number;
+}
+
+export interface PlaneSplitResult {
+  positive: THREE.BufferGeometry | null;
+  negative: THREE.BufferGeometry | null;
+}
+
+// A vertex of a clipped triangle: an original vertex, or a point on the edge
+// from vertex `a` to vertex `b` at parameter `t`
+type ClipVertex = { a: number; b: number; t: number };
+
+const createSide = (names: string[]): SideBuilder => {
+  const values: Record<string, number[]> = {};
+  names.forEach((name) => (values[name] = []));
+  return {
+    values,
+    index: [],
+    groups: [],
+    vertexIds: new Map(),
+    vertexCount: 0,
+  };
+};
+
+const addGroup = (side: SideBuilder, start: number, materialIndex: number) => {
+  const count = side.index.length - start;
+  if (count === 0) return;
+  const previous = side.groups[side.groups.length - 1];
+  if (previous && previous.materialIndex === materialIndex) {
+    previous.count += count;
+  } else {
+    side.groups.push({ start, count, materialIndex });
+  }
+};
+
+// Split a geometry by a plane given in the same space. Triangles are
+// classified by the signed distance of their corners; straddling triangles
+// are clipped into pieces on either side, and every vertex attribute of the
+// new corners is interpolated along the cut edge. The halves come out
+// indexed, with the material groups of the source; `materialIndexOf` can
+// remap the group material indices on the way.
+export function splitGeometryByPlane(
+  geometry: THREE.BufferGeometry,
+  plane: THREE.Plane,
+  materialIndexOf: (materialIndex: number) => number = (index) => index
+): PlaneSplitResult {
+  const position = geometry.attributes.position;
+  if (!position) return { positive: null, negative: null };
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3()).length();
+  const tolerance = Math.max(size * EPSILON, EPSILON);
+
+  const names = Object.keys(geometry.attributes);
+  const attributes = names.map((name) => geometry.getAttribute(name));
+  const skinIndex = geometry.getAttribute("skinIndex");
+  const skinWeight = geometry.getAttribute("skinWeight");
+
+  const index = geometry.index;
+  const drawStart = geometry.drawRange.start;
+  const drawEnd = Math.min(
+    index ? index.count : position.count,
+    drawStart + geometry.drawRange.count
+  );
+  const vertexAt = (i: number) => (index ? index.getX(i) : i);
+
+  // Signed distances, snapped to zero near the plane
+  const distances = new Float32Array(position.count);
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    const d = plane.distanceToPoint(point.fromBufferAttribute(position, i));
+    distances[i] = Math.abs(d) < tolerance ? 0 : d;
+  }
+
+  const positive = createSide(names);
+  const negative = createSide(names);
+
+  // Bone influences of a cut vertex: the weighted union of both ends,
+  // strongest first, renormalized to the slots available
+  const blendSkin = (a: number, b: number, t: number) => {
+    const influences = new Map<number, number>();
+    [
+      [a, 1 - t],
+      [b, t],
+    ].forEach(([vertex, share]) => {
+      for (let c = 0; c < skinIndex.itemSize; c++) {
+        const bone = skinIndex.getComponent(vertex, c);
+        const weight = skinWeight.getComponent(vertex, c) * share;
+        if (weight > 0) {
+          influences.set(bone, (influences.get(bone) || 0) + weight);
+        }
+      }
+    });
+    const strongest = Array.from(influences.entries())
+      .sort((x, y) => y[1] - x[1])
+      .slice(0, skinIndex.itemSize);
+    const total = strongest.reduce((sum, [, weight]) => sum + weight, 0) || 1;
+    const bones: number[] = [];
+    const weights: number[] = [];
+    for (let c = 0; c < skinIndex.itemSize; c++) {
+      bones.push(strongest[c] ? strongest[c][0] : 0);
+      weights.push(strongest[c] ? strongest[c][1] / total : 0);
+    }
+    return { bones, weights };
+  };
+
+  const writeVertex = (side: SideBuilder, { a, b, t }: ClipVertex) => {
+    const key = t === 0 ? `${a}` : `${Math.min(a, b)}:${Math.max(a, b)}`;
+    let id = side.vertexIds.get(key);
+    if (id !== undefined) return id;
+
+    id = side.vertexCount++;
+    side.vertexIds.set(key, id);
+    const nearest = t < 0.5 ? a : b;
+    const skin = t !== 0 && skinIndex && skinWeight ? blendSkin(a, b, t) : null;
+
+    attributes.forEach((attribute, k) => {
+      const name = names[k];
+      const out = side.values[name];
+      const { itemSize } = attribute;
+
+      if (t === 0) {
+        for (let c = 0; c < itemSize; c++) {
+          out.push(attribute.getComponent(a, c));
+        }
+      } else if (skin && name === "skinIndex") {
+        out.push(...skin.bones);
+      } else if (skin && name === "skinWeight") {
+        out.push(...skin.weights);
+      } else if (name === "skinIndex") {
+        // Bone indices cannot be blended; take the closer end's
+        for (let c = 0; c < itemSize; c++) {
+          out.push(attribute.getComponent(nearest, c));
+        }
+      } else {
+        const blended: number[] = [];
+        for (let c = 0; c < itemSize; c++) {
+          const from = attribute.getComponent(a, c);
+          blended.push(from + (attribute.getComponent(b, c) - from) * t);
+        }
+        // Directions stay unit length; a tangent keeps its handedness
+        if (name === "normal" || name === "tangent") {
+          const length = Math.hypot(blended[0], blended[1], blended[2]) || 1;
+          for (let c = 0; c < 3; c++) blended[c] /= length;
+          if (name === "tangent" && itemSize === 4) {
+            blended[3] = attribute.getComponent(nearest, 3);
+          }
+        }
+        out.push(...blended);
+      }
+    });
+    return id;
+  };
+
+  // Clip a triangle to one side of the plane (sign +1 or -1) and fan the
+  // remaining polygon into triangles
+  const clip = (corners: number[], sign: number, side: SideBuilder) => {
+    const polygon: ClipVertex[] = [];
+    for (let k = 0; k < 3; k++) {
+      const a = corners[k];
+      const b = corners[(k + 1) % 3];
+      const da = distances[a] * sign;
+      const db = distances[b] * sign;
+      if (da >= 0) polygon.push({ a, b: a, t: 0 });
+      if (da * db < 0) polygon.push({ a, b, t: da / (da - db) });
+    }
+    if (polygon.length < 3) return;
+
+    const ids = polygon.map((vertex) => writeVertex(side, vertex));
+    for (let k = 1; k + 1 < ids.length; k++) {
+      side.index.push(ids[0], ids[k], ids[k + 1]);
+    }
+  };
+
+  const ranges =
+    geometry.groups.length > 0
+      ? geometry.groups
+      : [{ start: drawStart, count: drawEnd - drawStart, materialIndex: 0 }];
+
+  const faceNormal = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+
+  ranges.forEach((range) => {
+    const materialIndex = materialIndexOf(range.materialIndex ?? 0);
+    const start = Math.max(range.start, drawStart);
+    const end = Math.min(range.start + range.count, drawEnd);
+    const positiveStart = positive.index.length;
+    const negativeStart = negative.index.length;
+
+    for (let i = start; i + 2 < end; i += 3) {
+      const corners = [vertexAt(i), vertexAt(i + 1), vertexAt(i + 2)];
+      const d = corners.map((corner) => distances[corner]);
+      const hasPositive = d.some((value) => value > 0);
+      const hasNegative = d.some((value) => value < 0);
+
+      if (!hasPositive && !hasNegative) {
+        // A face lying in the plane bounds the half it faces away from
+        faceNormal.setFromAttributeAndIndices(
+          position,
+          corners[0],
+          corners[1],
+          corners[2]
+        );
+        faceNormal.getNormal(normal);
+        clip(
+          corners,
+          normal.dot(plane.normal) > 0 ? 1 : -1,
+          normal.dot(plane.normal) > 0 ? negative : positive
+        );
+        continue;
+      }
+      if (hasPositive) clip(corners, 1, positive);
+      if (hasNegative) clip(corners, -1, negative);
+    }
+
+    addGroup(positive, positiveStart, materialIndex);
+    addGroup(negative, negativeStart, materialIndex);
+  });
+
+  return {
+    positive: buildSide(positive, geometry),
+    negative: buildSide(negative, geometry),
+  };
+}
+
+// Append the triangles of a cap geometry to a half as its own group.
+// Attributes the cap does not provide are filled with neutral values.
+export function appendCap(
+  geometry: THREE.BufferGeometry,
+  cap: THREE.BufferGeometry,
+  materialIndex: number
+): THREE.BufferGeometry {
+  const capCount = cap.attributes.position.count;
+  const vertexCount = geometry.attributes.position.count;
+  const merged = new THREE.BufferGeometry();
+
+  Object.keys(geometry.attributes).forEach((name) => {
+    const attribute = geometry.getAttribute(name);
+    const { itemSize } = attribute;
+    const capAttribute = cap.getAttribute(name);
+    const values = Array.from(attribute.array as ArrayLike<number>);
+
+    for (let i = 0; i < capCount; i++) {
+      for (let c = 0; c < itemSize; c++) {
+        if (capAttribute) {
+          values.push(capAttribute.getComponent(i, c));
+        } else if (name === "color" || name === "skinWeight") {
+          // White keeps the cap material's colour; the weight binds the cap
+          // to the first bone
+          values.push(name === "color" || c === 0 ? 1 : 0);
+        } else {
+          values.push(0);
+        }
+      }
+    }
+    merged.setAttribute(name, createAttribute(name, values, itemSize));
+  });
+
+  const index = Array.from(geometry.index!.array as ArrayLike<number>);
+  const capStart = index.length;
+  for (let i = 0; i < capCount; i++) index.push(vertexCount + i);
+  merged.setIndex(index);
+
+  geometry.groups.forEach(({ start, count, materialIndex: groupIndex }) =>
+    merged.addGroup(start, count, groupIndex)
+  );
+  merged.addGroup(capStart, capCount, materialIndex);
+  return merged;
+}
+
+const createAttribute = (name: string, values: number[], itemSize: number) =>
+  name === "skinIndex"
+    ? new THREE.Uint16BufferAttribute(values, itemSize)
+    : new THREE.Float32BufferAttribute(values, itemSize);
+
+const buildSide = (side: SideBuilder, source: THREE.BufferGeometry) => {
+  if (side.index.length === 0) return null;
+
+  const geometry = new THREE.BufferGeometry();
+  Object.keys(side.values).forEach((name) => {
+    geometry.setAttribute(
+      name,
+      createAttribute(
+        name,
+        side.values[name],
+        source.getAttribute(name).itemSize
+      )
+    );
+  });
+  geometry.setIndex(side.index);
+  side.groups.forEach(({ start, count, materialIndex }) =>
+    geometry.addGroup(start, count, materialIndex)
+  );
+  return geometry;
+};
@@ -0,0 +1,241 @@
+import * as THREE from "three";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter";
+import { strToU8, zipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { mergeVertices } from "three/examples/jsm/utils/BufferGeometryUtils";
+import { LengthUnit } from "./units";
+
+// Writers for the mesh formats three.js has no complete exporter for. The
+// object passed in must have up to date world matrices; they are baked into
+// the vertices.
+
+const materialList = (mesh: THREE.Mesh) =>
+  Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+
+const colorOf = (material: THREE.Material) =>
+  "color" in material && material.color instanceof THREE.Color
+    ? material.color
+    : new THREE.Color(0xffffff);
+
+// Triangle index ranges of a mesh with the material each one uses
+const materialRanges = (mesh: THREE.Mesh) => {
+  const geometry = mesh.geometry as THREE.BufferGeometry;
+  const count = geometry.index
+    ? geometry.index.count
+    : geometry.attributes.position.count;
+  return geometry.groups.length > 0
+    ? geometry.groups.map(({ start, count, materialIndex }) => ({
+        start,
+        count,
+        materialIndex: materialIndex ?? 0,
+      }))
+    : [{ start: 0, count, materialIndex: 0 }];
+};
+
+const collectMeshes = (object: THREE.Object3D) => {
+  const meshes: THREE.Mesh[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.visible) meshes.push(child);
+  });
+  return meshes;
+};
+
+// Names safe for MTL and 3MF, unique per material
+const nameMaterials = (meshes: THREE.Mesh[]) => {
+  const names = new Map<THREE.Material, string>();
+  const used = new Set<string>();
+  meshes.forEach((mesh) =>
+    materialList(mesh).forEach((material) => {
+      if (names.has(material)) return;
+      const base = (material.name || "material").replace(/[^\w-]+/g, "_");
+      let name = base;
+      for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+      used.add(name);
+      names.set(material, name);
+    })
+  );
+  return names;
+};
+
+// OBJ with a companion MTL holding each material's colour and opacity.
+// Multi-material meshes are split per material since the exporter writes a
+// single usemtl per mesh.
+export function writeOBJ(object: THREE.Object3D, baseName: string) {
+  const meshes = collectMeshes(object);
+  const materialNames = nameMaterials(meshes);
+  const group = new THREE.Group();
+
+  meshes.forEach((mesh) => {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const materials = materialList(mesh);
+    materialRanges(mesh).forEach(({ start, count, materialIndex }, i) => {
+      const part = new THREE.BufferGeometry();
+      Object.entries(geometry.attributes).forEach(([name, attribute]) =>
+        part.setAttribute(name, attribute)
+      );
+      const indices: number[] = [];
+      for (let k = start; k < start + count; k++) {
+        indices.push(geometry.index ? geometry.index.getX(k) : k);
+      }
+      part.setIndex(indices);
+
+      const material = (materials[materialIndex] || materials[0]).clone();
+      material.name = materialNames.get(
+        materials[materialIndex] || materials[0]
+      )!;
+      const piece = new THREE.Mesh(part, material);
+      piece.name = i === 0 ? mesh.name : `${mesh.name}_${i}`;
+      mesh.matrixWorld.decompose(piece.position, piece.quaternion, piece.scale);
+      group.add(piece);
+    });
+  });
+
+  group.updateMatrixWorld(true);
+  const obj = new OBJExporter().parse(group);
+  const mtl = Array.from(materialNames.entries())
+    .map(([material, name]) => {
+      const { r, g, b } = colorOf(material);
+      return [
+        `newmtl ${name}`,
+        `Kd ${r.toFixed(6)} ${g.toFixed(6)} ${b.toFixed(6)}`,
+        `d ${material.transparent ? material.opacity : 1}`,
+        "",
+      ].join("\n");
+    })
+    .join("\n");
+
+  return {
+    obj: `mtllib ${baseName}.mtl\n${obj}`,
+    mtl,
+  };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(
+    /[<>&"']/g,
+    (character) =>
+      ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[character]!
+  );
+
+const THREE_MF_UNITS: Record<LengthUnit, string> = {
+  mm: "millimeter",
+  cm: "centimeter",
+  m: "meter",
+  in: "inch",
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+// 3MF package with one object per mesh. Vertices are welded so slicers see
+// closed shells, and each triangle refers to its material's display colour.
+export function write3MF(
+  object: THREE.Object3D,
+  unit: LengthUnit = "mm"
+): Uint8Array {
+  const meshes = collectMeshes(object);
+  const materialNames = nameMaterials(meshes);
+  const materialIndex = new Map(
+    Array.from(materialNames.keys()).map((material, i) => [material, i])
+  );
+
+  const bases = Array.from(materialNames.entries())
+    .map(
+      ([material, name]) =>
+        `      <base name="${escapeXml(name)}" displaycolor="#${colorOf(
+          material
+        ).getHexString()}"/>`
+    )
+    .join("\n");
+
+  const vertex = new THREE.Vector3();
+  const objects = meshes.map((mesh, m) => {
+    const id = m + 2;
+    const source = mesh.geometry as THREE.BufferGeometry;
+    const materials = materialList(mesh);
+
+    // Weld on position alone, keeping the material ranges
+    const positions = new THREE.BufferGeometry();
+    positions.setAttribute("position", source.attributes.position);
+    if (source.index) positions.setIndex(source.index);
+    const welded = mergeVertices(positions);
+    const position = welded.attributes.position;
+    const index = welded.index!;
+
+    const vertices: string[] = [];
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      vertices.push(
+        `          <vertex x="${vertex.x}" y="${vertex.y}" z="${vertex.z}"/>`
+      );
+    }
+
+    // A mirrored transform flips the winding
+    const flip = mesh.matrixWorld.determinant() < 0;
+    const triangles: string[] = [];
+    materialRanges(mesh).forEach(({ start, count, materialIndex: slot }) => {
+      const material = materials[slot] || materials[0];
+      const p1 = materialIndex.get(material);
+      for (let k = start; k + 2 < start + count; k += 3) {
+        const a = index.getX(k);
+        const b = index.getX(flip ? k + 2 : k + 1);
+        const c = index.getX(flip ? k + 1 : k + 2);
+        // Welding can collapse slivers to a line or a point
+        if (a === b || b === c || a === c) continue;
+        triangles.push(
+          `          <triangle v1="${a}" v2="${b}" v3="${c}" pid="1" p1="${p1}"/>`
+        );
+      }
+    });
+    positions.dispose();
+    welded.dispose();
+
+    return `    <object id="${id}" type="model" name="${escapeXml(
+      mesh.name || `Mesh ${m + 1}`
+    )}">
+      <mesh>
+        <vertices>
+${vertices.join("\n")}
+        </vertices>
+        <triangles>
+${triangles.join("\n")}
+        </triangles>
+      </mesh>
+    </object>`;
+  });
+
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${THREE_MF_UNITS[unit]}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>
+    <basematerials id="1">
+${bases}
+    </basematerials>
+${objects.join("\n")}
+  </resources>
+  <build>
+${meshes.map((_, m) => `    <item objectid="${m + 2}"/>`).join("\n")}
+  </build>
+</model>
+`;
+
+  return zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(RELATIONSHIPS),
+    "3D/3dmodel.model": strToU8(model),
+  });
+}
@@ -0,0 +1,58 @@
+import * as THREE from "three";
+import { splitMesh } from "./meshCsg";
+import { computePartStats } from "./partStats";
+import { buildProfileSolid } from "./profileCutter";
+
+const material = new THREE.MeshBasicMaterial();
+
+// An L seen from the front, with its corner inside the box at (0.5, 0.5)
+const profile = {
+  points: [
+    new THREE.Vector3(-3, 0.5, 0),
+    new THREE.Vector3(0.5, 0.5, 0),
+    new THREE.Vector3(0.5, -3, 0),
+  ],
+  direction: new THREE.Vector3(0, 0, -1),
+};
+
+// A closed surface encloses the same volume wherever it is placed; an open
+// one does not
+const measureClosedVolume = (geometry: THREE.BufferGeometry) => {
+  const piece = new THREE.Mesh(geometry, material);
+  const { volume } = computePartStats(piece);
+  piece.position.set(10, -20, 30);
+  expect(computePartStats(piece).volume).toBeCloseTo(volume);
+  return volume;
+};
+
+describe("profile cuts", () => {
+  test("an L-shaped profile divides a box into two closed pieces", () => {
+    const box = new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2), material);
+    const solid = buildProfileSolid(
+      profile,
+      new THREE.Box3().setFromObject(box)
+    )!;
+
+    const volumes = splitMesh(box, solid).map((piece) =>
+      measureClosedVolume(piece!.geometry)
+    );
+    // The solid holds the corner below and left of the L, the other piece
+    // the rest of the box
+    expect(volumes[0]).toBeCloseTo(1.5 * 1.5 * 2);
+    expect(volumes[1]).toBeCloseTo(8 - 1.5 * 1.5 * 2);
+  });
+
+  test("a profile of a single point makes no solid", () => {
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(-1, -1, -1),
+      new THREE.Vector3(1, 1, 1)
+    );
+    const point = new THREE.Vector3(0.2, 0.3, 0);
+    expect(
+      buildProfileSolid(
+        { points: [point, point.clone()], direction: profile.direction },
+        bounds
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import * as THREE from "three";
+import { getPlaneBasis } from "./crossSection";
+
+// A line drawn over the view, swept along the view direction into the
+// surface a profile cut divides the parts with. The points lie on a plane
+// facing the camera; the line should not cross itself.
+export interface CutProfile {
+  points: THREE.Vector3[];
+  direction: THREE.Vector3;
+}
+
+export type CutShape = "plane" | "polyline" | "spline" | "freehand";
+
+export const CUT_SHAPES: { shape: CutShape; label: string }[] = [
+  { shape: "plane", label: "Plane" },
+  { shape: "polyline", label: "Polyline" },
+  { shape: "spline", label: "Spline" },
+  { shape: "freehand", label: "Freehand" },
+];
+
+// Arc points per full turn on the circle that closes the profile solid
+const CLOSING_SEGMENTS = 64;
+
+// Where a ray from inside the circle of the given radius around the origin
+// leaves it
+const exitCircle = (
+  from: THREE.Vector2,
+  direction: THREE.Vector2,
+  radius: number
+) => {
+  const b = from.dot(direction);
+  const c = from.lengthSq() - radius * radius;
+  const distance = -b + Math.sqrt(b * b - c);
+  return from.clone().addScaledVector(direction, distance);
+};
+
+// The points in the coordinates of the view plane, without repeats
+function flattenProfile(
+  { points }: CutProfile,
+  center: THREE.Vector3,
+  u: THREE.Vector3,
+  v: THREE.Vector3,
+  tolerance: number
+) {
+  const flat: THREE.Vector2[] = [];
+  const offset = new THREE.Vector3();
+  points.forEach((point) => {
+    offset.subVectors(point, center);
+    const next = new THREE.Vector2(offset.dot(u), offset.dot(v));
+    if (!flat.length || flat[flat.length - 1].distanceTo(next) > tolerance) {
+      flat.push(next);
+    }
+  });
+  return flat;
+}
+
+// A closed solid, in world space, holding everything within `bounds` on one
+// side of the profile: the left, heading along the points in the plane's
+// (u, v) coordinates. The profile's ends run on straight until they leave
+// a circle well past the bounds, and an arc of that circle closes the
+// outline, which is then extruded through the bounds. Returns null for a
+// profile of fewer than two distinct points.
+export function buildProfileSolid(
+  profile: CutProfile,
+  bounds: THREE.Box3
+): THREE.BufferGeometry | null {
+  const w = profile.direction.clone().normalize();
+  const { u, v } = getPlaneBasis(w);
+  const center = bounds.getCenter(new THREE.Vector3());
+  const reach = Math.max(bounds.getSize(new THREE.Vector3()).length(), 1e-3);
+
+  const flat = flattenProfile(profile, center, u, v, reach * 1e-6);
+  if (flat.length < 2) return null;
+
+  const furthest = flat.reduce(
+    (radius, point) => Math.max(radius, point.length()),
+    reach
+  );
+  const radius = furthest * 2;
+
+  const first = flat[0];
+  const last = flat[flat.length - 1];
+  const start = exitCircle(
+    first,
+    first.clone().sub(flat[1]).normalize(),
+    radius
+  );
+  const end = exitCircle(
+    last,
+    last
+      .clone()
+      .sub(flat[flat.length - 2])
+      .normalize(),
+    radius
+  );
+
+  // Heading out through the end, the left side lies counterclockwise
+  const outline = [start, ...flat, end];
+  const endAngle = Math.atan2(end.y, end.x);
+  let sweep = Math.atan2(start.y, start.x) - endAngle;
+  if (sweep <= 0) sweep += Math.PI * 2;
+  const steps = Math.ceil((sweep / (Math.PI * 2)) * CLOSING_SEGMENTS);
+  for (let i = 1; i < steps; i++) {
+    const angle = endAngle + (sweep * i) / steps;
+    outline.push(
+      new THREE.Vector2(Math.cos(angle), Math.sin(angle)).multiplyScalar(radius)
+    );
+  }
+
+  const geometry = new THREE.ExtrudeGeometry(new THREE.Shape(outline), {
+    depth: radius * 2,
+    bevelEnabled: false,
+  });
+  geometry.translate(0, 0, -radius);
+  return geometry.applyMatrix4(
+    new THREE.Matrix4().makeBasis(u, v, w).setPosition(center)
+  );
+}
@@ -0,0 +1,146 @@
+import {
+  PROJECT_VERSION,
+  ProjectState,
+  readProjectFile,
+  writeProjectFile,
+} from "./projectFile";
+import { strToU8, zipSync } from "three/examples/jsm/libs/fflate.module.js";
+
+// jsdom's Blob cannot read itself back as an ArrayBuffer
+const fileOf = (data: BlobPart, name: string) => {
+  const file = new File([data], name);
+  const bytes = typeof data === "string" ? strToU8(data) : data;
+  file.arrayBuffer = async () =>
+    (bytes as Uint8Array).slice().buffer as ArrayBuffer;
+  return file;
+};
+
+const readText = (file: File) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(file);
+  });
+
+const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+const plane = { normal: [0, 1, 0] as [number, number, number], constant: -1 };
+
+const state: ProjectState = {
+  unit: "mm",
+  rootId: "root",
+  operations: [
+    {
+      type: "cut",
+      plane,
+      parts: [{ id: "root", transform: identity, pieces: ["a", "b"] }],
+    },
+    {
+      type: "slice",
+      separators: [{ start: plane, end: { ...plane, constant: -1.5 } }],
+      parts: [{ id: "a", transform: identity, pieces: ["a1", "a2"] }],
+    },
+    {
+      type: "profile",
+      profile: {
+        points: [
+          [0, 0, 0],
+          [1, 2, 0],
+        ],
+        direction: [0, 0, -1],
+      },
+      parts: [{ id: "b", transform: identity, pieces: ["b1", "b2"] }],
+    },
+    {
+      type: "group",
+      id: "g",
+      members: [
+        { id: "a1", transform: identity },
+        { id: "a2", transform: identity },
+      ],
+    },
+    { type: "ungroup", groups: [{ id: "g", transform: identity }] },
+    { type: "delete", ids: ["b2"] },
+    { type: "color", id: "b1", color: "#ff8800" },
+    {
+      type: "joint",
+      parts: [
+        { id: "a1", transform: identity },
+        { id: "a2", transform: identity },
+      ],
+      options: { kind: "peg", size: 4, depth: 5, count: 2, clearance: 0.2 },
+    },
+  ],
+  parts: [
+    {
+      id: "b1",
+      name: "Lid",
+      visible: true,
+      locked: false,
+      transform: identity,
+    },
+  ],
+};
+
+describe("project files", () => {
+  test("round-trip every operation with the model and its resources", async () => {
+    const model = fileOf("solid model", "part.obj");
+    const material = fileOf("newmtl red", "part.mtl");
+    const texture = fileOf(new Uint8Array([0, 255, 7]), "wood.png");
+
+    const bytes = await writeProjectFile(state, model, {
+      "part.mtl": material,
+      "../textures/wood.png": texture,
+    });
+    const opened = await readProjectFile(fileOf(bytes, "part.smproj"));
+
+    expect(opened.project).toEqual({
+      version: PROJECT_VERSION,
+      model: {
+        file: "part.obj",
+        resources: {
+          "part.mtl": "resources/0/part.mtl",
+          "../textures/wood.png": "resources/1/wood.png",
+        },
+      },
+      ...state,
+    });
+    expect(opened.project.operations.map(({ type }) => type)).toEqual([
+      "cut",
+      "slice",
+      "profile",
+      "group",
+      "ungroup",
+      "delete",
+      "color",
+      "joint",
+    ]);
+
+    expect(opened.file.name).toBe("part.obj");
+    expect(await readText(opened.file)).toBe("solid model");
+    expect(Object.keys(opened.resources)).toEqual([
+      "part.mtl",
+      "../textures/wood.png",
+    ]);
+    expect(opened.resources["../textures/wood.png"].name).toBe("wood.png");
+    expect(opened.resources["../textures/wood.png"].size).toBe(3);
+  });
+
+  test("rejects a project of another version", async () => {
+    const manifest = JSON.stringify({
+      ...state,
+      version: PROJECT_VERSION + 1,
+      model: { file: "part.obj", resources: {} },
+    });
+    const bytes = zipSync({ "project.json": strToU8(manifest) });
+
+    await expect(readProjectFile(fileOf(bytes, "new.smproj"))).rejects.toThrow(
+      `Unsupported project version ${PROJECT_VERSION + 1}`
+    );
+  });
+
+  test("rejects a file that is not a project", async () => {
+    await expect(
+      readProjectFile(fileOf("not a zip", "broken.smproj"))
+    ).rejects.toThrow("broken.smproj is not a valid project file");
+  });
+});
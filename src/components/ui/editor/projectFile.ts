@@ -0,0 +1,196 @@
+import * as THREE from "three";
+import {
+  strFromU8,
+  strToU8,
+  unzipSync,
+  zipSync,
+} from "three/examples/jsm/libs/fflate.module.js";
+import { JointOptions } from "./jointPlacement";
+import { ModelResources } from "./modelFormats";
+import { CutProfile } from "./profileCutter";
+import { LengthUnit } from "./units";
+
+// A project is a ZIP holding the source model, its companion files and
+// project.json, which lists every operation applied to the model in order.
+// Opening a project loads the model and replays the operations on it.
+export const PROJECT_EXTENSION = ".smproj";
+
+export const PROJECT_VERSION = 1;
+const MANIFEST_ENTRY = "project.json";
+
+// Local matrix of an object, column-major as in THREE.Matrix4.elements
+export type ProjectTransform = number[];
+
+export interface ProjectPlane {
+  normal: [number, number, number];
+  constant: number;
+}
+
+// A drawn cutting profile, in world space
+export interface ProjectProfile {
+  points: [number, number, number][];
+  direction: [number, number, number];
+}
+
+// A part the operation was applied to, with its transform at that time
+export interface ProjectPartRef {
+  id: string;
+  transform: ProjectTransform;
+}
+
+// A divided part and the ids of its pieces, in the order they were made
+export interface ProjectCutPart extends ProjectPartRef {
+  pieces: string[];
+}
+
+// Part ids are those of the saved session's part tree. Replaying maps them
+// onto the parts the operations create again.
+export type ProjectOperation =
+  | { type: "cut"; plane: ProjectPlane; parts: ProjectCutPart[] }
+  | {
+      type: "slice";
+      separators: { start: ProjectPlane; end: ProjectPlane }[];
+      parts: ProjectCutPart[];
+    }
+  // The first piece is the one inside the profile's solid
+  | { type: "profile"; profile: ProjectProfile; parts: ProjectCutPart[] }
+  | { type: "group"; id: string; members: ProjectPartRef[] }
+  | { type: "ungroup"; groups: ProjectPartRef[] }
+  | { type: "delete"; ids: string[] }
+  | { type: "color"; id: string; color: string }
+  // The first part gets the pegs and tabs, the second the holes and slots
+  | { type: "joint"; parts: ProjectPartRef[]; options: JointOptions };
+
+// State of a part once every operation has been replayed
+export interface ProjectPartState {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  transform: ProjectTransform;
+}
+
+export interface Project {
+  version: number;
+  // Model file name and the ZIP entries of its companion files, keyed by
+  // their path relative to the model
+  model: { file: string; resources: Record<string, string> };
+  unit: LengthUnit;
+  // Id of the loaded model in the part tree, null before the first cut
+  rootId: string | null;
+  operations: ProjectOperation[];
+  parts: ProjectPartState[];
+}
+
+// What a project records about the session besides the model itself
+export type ProjectState = Omit<Project, "version" | "model">;
+
+// A project as read from disk, with the files needed to load its model
+export interface OpenedProject {
+  project: Project;
+  file: File;
+  resources: ModelResources;
+}
+
+export const isProjectFile = (file: File) =>
+  file.name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+export const toProjectPlane = (plane: THREE.Plane): ProjectPlane => ({
+  normal: [plane.normal.x, plane.normal.y, plane.normal.z],
+  constant: plane.constant,
+});
+
+export const fromProjectPlane = ({ normal, constant }: ProjectPlane) =>
+  new THREE.Plane(new THREE.Vector3(...normal), constant);
+
+export const toProjectProfile = ({
+  points,
+  direction,
+}: CutProfile): ProjectProfile => ({
+  points: points.map(({ x, y, z }) => [x, y, z]),
+  direction: [direction.x, direction.y, direction.z],
+});
+
+export const fromProjectProfile = ({
+  points,
+  direction,
+}: ProjectProfile): CutProfile => ({
+  points: points.map((point) => new THREE.Vector3(...point)),
+  direction: new THREE.Vector3(...direction),
+});
+
+export const toProjectTransform = (object: THREE.Object3D) => {
+  object.updateMatrix();
+  return object.matrix.toArray();
+};
+
+export const applyProjectTransform = (
+  object: THREE.Object3D,
+  transform: ProjectTransform
+) => {
+  object.matrix.fromArray(transform);
+  object.matrix.decompose(object.position, object.quaternion, object.scale);
+};
+
+const readBytes = async (file: File) =>
+  new Uint8Array(await file.arrayBuffer());
+
+// Pack the project together with the model it was made from
+export async function writeProjectFile(
+  project: ProjectState,
+  file: File,
+  resources: ModelResources
+): Promise<Uint8Array> {
+  const entries: Record<string, Uint8Array> = {};
+  const model: Project["model"] = { file: file.name, resources: {} };
+
+  entries[`model/${file.name}`] = await readBytes(file);
+  // Companion paths may climb out of the model's folder, so they are
+  // stored under numbered entries rather than as they are
+  await Promise.all(
+    Object.entries(resources).map(async ([path, resource], i) => {
+      const entry = `resources/${i}/${resource.name}`;
+      model.resources[path] = entry;
+      entries[entry] = await readBytes(resource);
+    })
+  );
+
+  const manifest: Project = { version: PROJECT_VERSION, model, ...project };
+  entries[MANIFEST_ENTRY] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(entries);
+}
+
+export async function readProjectFile(file: File): Promise<OpenedProject> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(await readBytes(file));
+  } catch {
+    throw new Error(`${file.name} is not a valid project file`);
+  }
+
+  const manifest = entries[MANIFEST_ENTRY];
+  if (!manifest) {
+    throw new Error(`${file.name} has no ${MANIFEST_ENTRY}`);
+  }
+  const project = JSON.parse(strFromU8(manifest)) as Project;
+  if (project.version !== PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${project.version}`);
+  }
+
+  const entryFile = (entry: string, name: string) => {
+    const data = entries[entry];
+    if (!data) throw new Error(`The project is missing ${entry}`);
+    return new File([data], name);
+  };
+
+  const resources: ModelResources = {};
+  Object.entries(project.model.resources).forEach(([path, entry]) => {
+    resources[path] = entryFile(entry, path.split("/").pop() || path);
+  });
+
+  return {
+    project,
+    file: entryFile(`model/${project.model.file}`, project.model.file),
+    resources,
+  };
+}
@@ -0,0 +1,145 @@
+import * as THREE from "three";
+import { ModelResources } from "./modelFormats";
+import { PROJECT_VERSION, ProjectState } from "./projectFile";
+
+// Editing sessions kept in IndexedDB so they survive reloads and can be
+// reopened later. The model files of a session are stored once, apart from
+// its state, which is written again after every change.
+const DB_NAME = "slicenmorph3d";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const MODELS = "models";
+
+// Older sessions are dropped beyond this many
+const MAX_SESSIONS = 10;
+
+// A session as listed under recent models
+export interface SessionSummary {
+  id: string;
+  // Name of the model file
+  name: string;
+  // Milliseconds since the epoch
+  updatedAt: number;
+  partCount: number;
+}
+
+interface SessionRecord extends SessionSummary {
+  // Project format version the state was written with
+  version: number;
+  state: ProjectState;
+}
+
+interface ModelRecord {
+  id: string;
+  file: File;
+  resources: ModelResources;
+}
+
+// Everything needed to restore a session
+export interface StoredSession {
+  id: string;
+  file: File;
+  resources: ModelResources;
+  state: ProjectState;
+}
+
+export const createSessionId = () => THREE.MathUtils.generateUUID();
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSIONS, { keyPath: "id" });
+      request.result.createObjectStore(MODELS, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run requests against the stores in one transaction, resolving with the
+// result of the request `use` returns once the transaction has committed
+async function inTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  use: (...stores: IDBObjectStore[]) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = use(
+      ...storeNames.map((name) => transaction.objectStore(name))
+    );
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onabort = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+export const saveSessionModel = (
+  id: string,
+  file: File,
+  resources: ModelResources
+) =>
+  inTransaction([MODELS], "readwrite", (models) =>
+    models.put({ id, file, resources } as ModelRecord)
+  );
+
+export async function saveSessionState(
+  summary: SessionSummary,
+  state: ProjectState
+) {
+  const record: SessionRecord = { ...summary, version: PROJECT_VERSION, state };
+  await inTransaction([SESSIONS], "readwrite", (sessions) =>
+    sessions.put(record)
+  );
+
+  const stale = (await listSessions()).slice(MAX_SESSIONS);
+  await Promise.all(stale.map(({ id }) => deleteSession(id)));
+}
+
+// Most recently changed first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const records =
+    (await inTransaction<SessionRecord[]>([SESSIONS], "readonly", (sessions) =>
+      sessions.getAll()
+    )) || [];
+  return records
+    .map(({ id, name, updatedAt, partCount }) => ({
+      id,
+      name,
+      updatedAt,
+      partCount,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Null when the session is unknown, incomplete or from an older version
+export async function loadSession(id: string): Promise<StoredSession | null> {
+  const [record, model] = await Promise.all([
+    inTransaction<SessionRecord>([SESSIONS], "readonly", (sessions) =>
+      sessions.get(id)
+    ),
+    inTransaction<ModelRecord>([MODELS], "readonly", (models) =>
+      models.get(id)
+    ),
+  ]);
+
+  if (!record || !model || record.version !== PROJECT_VERSION) return null;
+  return {
+    id,
+    file: model.file,
+    resources: model.resources,
+    state: record.state,
+  };
+}
+
+export const deleteSession = (id: string) =>
+  inTransaction([SESSIONS, MODELS], "readwrite", (sessions, models) => {
+    sessions.delete(id);
+    models.delete(id);
+  });
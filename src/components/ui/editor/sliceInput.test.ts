@@ -0,0 +1,72 @@
+import * as THREE from "three";
+import { MAX_SLABS, planSlabSeparators, SliceInput } from "./sliceInput";
+
+const input = (overrides: Partial<SliceInput>): SliceInput => ({
+  direction: new THREE.Vector3(0, 0, 2),
+  spacingMode: "count",
+  count: 4,
+  spacing: 0,
+  kerf: 0,
+  ...overrides,
+});
+
+const extent = { min: -2, max: 6 };
+
+// Where each separator plane crosses the slicing direction
+const offsets = (plane: THREE.Plane) => -plane.constant;
+
+describe("planSlabSeparators", () => {
+  test("splits the extent into equal slabs around the kerf", () => {
+    const separators = planSlabSeparators(input({ kerf: 0.5 }), extent)!;
+    expect(separators.map(({ start }) => offsets(start))).toEqual([
+      -0.25, 1.75, 3.75,
+    ]);
+    expect(separators.map(({ end }) => offsets(end))).toEqual([
+      0.25, 2.25, 4.25,
+    ]);
+    expect(separators[0].start.normal.toArray()).toEqual([0, 0, 1]);
+  });
+
+  test("spacing mode leaves the remainder in the last slab", () => {
+    const separators = planSlabSeparators(
+      input({ spacingMode: "spacing", spacing: 3 }),
+      extent
+    )!;
+    expect(separators.map(({ start }) => offsets(start))).toEqual([1, 4]);
+    expect(separators[0].end.equals(separators[0].start)).toBe(true);
+  });
+
+  test(`allows at most ${MAX_SLABS} slabs`, () => {
+    expect(
+      planSlabSeparators(input({ count: MAX_SLABS }), extent)
+    ).toHaveLength(MAX_SLABS - 1);
+    expect(
+      planSlabSeparators(input({ count: MAX_SLABS + 1 }), extent)
+    ).toBeNull();
+
+    const pitch = (extent.max - extent.min) / MAX_SLABS;
+    const bySpacing = input({ spacingMode: "spacing" });
+    expect(
+      planSlabSeparators({ ...bySpacing, spacing: pitch }, extent)
+    ).toHaveLength(MAX_SLABS - 1);
+    expect(
+      planSlabSeparators({ ...bySpacing, spacing: pitch * 0.99 }, extent)
+    ).toBeNull();
+  });
+
+  test("rejects a kerf as wide as the slab pitch", () => {
+    // Four slabs of 2
+    expect(planSlabSeparators(input({ kerf: 1.99 }), extent)).not.toBeNull();
+    expect(planSlabSeparators(input({ kerf: 2 }), extent)).toBeNull();
+    expect(planSlabSeparators(input({ kerf: 3 }), extent)).toBeNull();
+    expect(planSlabSeparators(input({ kerf: -1 }), extent)).toBeNull();
+  });
+
+  test("needs an extent and a direction", () => {
+    expect(planSlabSeparators(input({}), null)).toBeNull();
+    expect(planSlabSeparators(input({}), { min: 1, max: 1 })).toBeNull();
+    expect(
+      planSlabSeparators(input({ direction: new THREE.Vector3() }), extent)
+    ).toBeNull();
+  });
+});
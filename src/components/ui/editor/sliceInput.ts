@@ -0,0 +1,58 @@
+import * as THREE from "three";
+import { SlabSeparator } from "./planeCutter";
+
+export type SliceSpacingMode = "count" | "spacing";
+
+// A multi-slice operation as entered in the slice panel
+export interface SliceInput {
+  direction: THREE.Vector3;
+  spacingMode: SliceSpacingMode;
+  // Count mode: number of slabs of equal thickness
+  count: number;
+  // Spacing mode: distance between neighbouring separators
+  spacing: number;
+  // Material removed between neighbouring slabs
+  kerf: number;
+}
+
+// Keeps a typo from queueing thousands of CSG operations
+export const MAX_SLABS = 200;
+
+// Returns null when the input does not describe a valid set of slabs for
+// the given extent along the slicing direction
+export function planSlabSeparators(
+  input: SliceInput,
+  extent: { min: number; max: number } | null
+): SlabSeparator[] | null {
+  const { direction, spacingMode, count, spacing, kerf } = input;
+  if (!extent || direction.lengthSq() < 1e-12) return null;
+  if (![count, spacing, kerf].every(Number.isFinite) || kerf < 0) return null;
+
+  const length = extent.max - extent.min;
+  if (length <= 0) return null;
+
+  let pitch: number;
+  let slabCount: number;
+  if (spacingMode === "count") {
+    if (!Number.isInteger(count) || count < 2) return null;
+    slabCount = count;
+    pitch = length / count;
+  } else {
+    if (spacing <= 0) return null;
+    slabCount = Math.ceil(length / spacing - 1e-9);
+    pitch = spacing;
+  }
+  if (slabCount < 2 || slabCount > MAX_SLABS || kerf >= pitch) return null;
+
+  const normal = direction.clone().normalize();
+  const planeAt = (offset: number) =>
+    new THREE.Plane(normal.clone(), -(extent.min + offset));
+
+  return Array.from({ length: slabCount - 1 }, (_, i) => {
+    const boundary = (i + 1) * pitch;
+    return {
+      start: planeAt(boundary - kerf / 2),
+      end: planeAt(boundary + kerf / 2),
+    };
+  });
+}
@@ -0,0 +1,34 @@
+import * as THREE from "three";
+import {
+  convertLength,
+  defaultUnitForFormat,
+  IDENTITY_FRAME,
+  toModelPoint,
+} from "./units";
+
+describe("units", () => {
+  test("converts lengths between units", () => {
+    expect(convertLength(1, "in", "mm")).toBeCloseTo(25.4);
+    expect(convertLength(2.5, "m", "cm")).toBeCloseTo(250);
+    expect(convertLength(127, "mm", "in")).toBeCloseTo(5);
+    expect(convertLength(42, "cm", "cm")).toBe(42);
+  });
+
+  test("glTF models default to meters, the other formats to millimeters", () => {
+    expect(defaultUnitForFormat("GLB")).toBe("m");
+    expect(defaultUnitForFormat("glTF")).toBe("m");
+    expect(defaultUnitForFormat("STL")).toBe("mm");
+    expect(defaultUnitForFormat("OBJ")).toBe("mm");
+  });
+
+  test("the identity frame cannot be moved", () => {
+    expect(() => IDENTITY_FRAME.offset.set(1, 2, 3)).toThrow(TypeError);
+    expect(() => {
+      IDENTITY_FRAME.scale = 2;
+    }).toThrow(TypeError);
+    expect(IDENTITY_FRAME.offset.toArray()).toEqual([0, 0, 0]);
+
+    const point = new THREE.Vector3(1, 2, 3);
+    expect(toModelPoint(IDENTITY_FRAME, point)).toEqual(point);
+  });
+});
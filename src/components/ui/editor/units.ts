@@ -0,0 +1,75 @@
+import * as THREE from "three";
+
+export type LengthUnit = "mm" | "cm" | "m" | "in";
+
+export const LENGTH_UNITS: {
+  value: LengthUnit;
+  label: string;
+  millimeters: number;
+}[] = [
+  { value: "mm", label: "Millimeters", millimeters: 1 },
+  { value: "cm", label: "Centimeters", millimeters: 10 },
+  { value: "m", label: "Meters", millimeters: 1000 },
+  { value: "in", label: "Inches", millimeters: 25.4 },
+];
+
+const millimetersPer = (unit: LengthUnit) =>
+  LENGTH_UNITS.find(({ value }) => value === unit)!.millimeters;
+
+export const convertLength = (
+  value: number,
+  from: LengthUnit,
+  to: LengthUnit
+) => (value * millimetersPer(from)) / millimetersPer(to);
+
+// glTF is defined in meters; the other formats carry no unit and are
+// mostly written by CAD and slicing tools working in millimeters
+export const defaultUnitForFormat = (formatLabel: string): LengthUnit =>
+  formatLabel === "GLB" || formatLabel === "glTF" ? "m" : "mm";
+
+// How the model file's coordinates map into the scene. Models are scaled
+// and centered to fit the view, but every length shown to or typed by the
+// user is in file coordinates, in `unit`.
+export interface ModelFrame {
+  // Scene units per file unit
+  scale: number;
+  // Scene position of the file's origin
+  offset: THREE.Vector3;
+  unit: LengthUnit;
+}
+
+// Shared by everything shown before a model is loaded, so it is frozen
+// rather than left for one caller to move for all the others
+export const IDENTITY_FRAME: ModelFrame = Object.freeze({
+  scale: 1,
+  offset: Object.freeze(new THREE.Vector3()),
+  unit: "mm",
+});
+
+export const modelToSceneMatrix = ({ scale, offset }: ModelFrame) =>
+  new THREE.Matrix4().makeScale(scale, scale, scale).setPosition(offset);
+
+export const sceneToModelMatrix = (frame: ModelFrame) =>
+  modelToSceneMatrix(frame).invert();
+
+export const toModelPoint = (frame: ModelFrame, point: THREE.Vector3) =>
+  point.clone().sub(frame.offset).divideScalar(frame.scale);
+
+export const toModelLength = (frame: ModelFrame, length: number) =>
+  length / frame.scale;
+
+export const toModelArea = (frame: ModelFrame, area: number) =>
+  area / frame.scale ** 2;
+
+export const toModelVolume = (frame: ModelFrame, volume: number) =>
+  volume / frame.scale ** 3;
+
+// A length with its unit, trimmed to a readable precision
+export const formatLength = (value: number, unit: LengthUnit, digits = 3) =>
+  `${Number(value.toFixed(digits))} ${unit}`;
+
+export const formatArea = (value: number, unit: LengthUnit, digits = 3) =>
+  `${Number(value.toFixed(digits))} ${unit}²`;
+
+export const formatVolume = (value: number, unit: LengthUnit, digits = 3) =>
+  `${Number(value.toFixed(digits))} ${unit}³`;
@@ -0,0 +1,161 @@
+import { useEffect, RefObject } from "react";
+import * as THREE from "three";
+import { EditorMode } from "./useMouseHandlers";
+
+interface UseAreaSelectionProps {
+  cameraRef: RefObject<THREE.PerspectiveCamera | null>;
+  rendererRef: RefObject<THREE.WebGLRenderer | null>;
+  editorMode: EditorMode;
+  // Parts a drag starting on them moves instead of drawing an area
+  getParts: () => THREE.Object3D[];
+  // Select the parts whose screen position the area contains
+  onSelect: (
+    contains: (point: THREE.Vector2) => boolean,
+    additive: boolean
+  ) => void;
+}
+
+// Pointer travel in pixels below which a press is a click, not an area
+const MIN_AREA_DRAG = 4;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Even-odd test of a point against a polygon in screen coordinates
+const polygonContains = (polygon: THREE.Vector2[], point: THREE.Vector2) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const aAbove = a.y > point.y;
+    const bAbove = b.y > point.y;
+    if (
+      aAbove !== bAbove &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// In Move mode, dragging on empty canvas draws a selection box, or a lasso
+// while Alt is held. Shift adds the enclosed parts to the selection.
+export function useAreaSelection({
+  cameraRef,
+  rendererRef,
+  editorMode,
+  getParts,
+  onSelect,
+}: UseAreaSelectionProps) {
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    const container = canvas?.parentElement;
+    if (editorMode !== EditorMode.Move || !canvas || !container) return;
+
+    let points: THREE.Vector2[] = [];
+    let lasso = false;
+    let outline: SVGSVGElement | null = null;
+
+    const removeOutline = () => {
+      outline?.remove();
+      outline = null;
+    };
+
+    const drawOutline = () => {
+      const rect = container.getBoundingClientRect();
+      if (!outline) {
+        outline = document.createElementNS(SVG_NS, "svg");
+        outline.style.position = "absolute";
+        outline.style.inset = "0";
+        outline.style.width = "100%";
+        outline.style.height = "100%";
+        outline.style.pointerEvents = "none";
+        outline.appendChild(document.createElementNS(SVG_NS, "polygon"));
+        container.appendChild(outline);
+      }
+      const [start] = points;
+      const end = points[points.length - 1];
+      const corners = lasso
+        ? points
+        : [
+            start,
+            new THREE.Vector2(end.x, start.y),
+            end,
+            new THREE.Vector2(start.x, end.y),
+          ];
+      const polygon = outline.firstChild as SVGPolygonElement;
+      polygon.setAttribute(
+        "points",
+        corners.map(({ x, y }) => `${x - rect.left},${y - rect.top}`).join(" ")
+      );
+      polygon.setAttribute("fill", "rgba(0, 136, 255, 0.15)");
+      polygon.setAttribute("stroke", "#0088ff");
+      polygon.setAttribute("stroke-dasharray", lasso ? "" : "4 2");
+    };
+
+    const hitsPart = (event: PointerEvent) => {
+      const camera = cameraRef.current;
+      if (!camera) return false;
+      const rect = canvas.getBoundingClientRect();
+      const raycaster = new THREE.Raycaster();
+      raycaster.setFromCamera(
+        new THREE.Vector2(
+          ((event.clientX - rect.left) / rect.width) * 2 - 1,
+          -((event.clientY - rect.top) / rect.height) * 2 + 1
+        ),
+        camera
+      );
+      return (
+        raycaster.intersectObjects(
+          getParts().filter((part) => part.visible),
+          true
+        ).length > 0
+      );
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      points = [];
+      if (event.button !== 0 || hitsPart(event)) return;
+      points = [new THREE.Vector2(event.clientX, event.clientY)];
+      lasso = event.altKey;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (points.length === 0) return;
+      const point = new THREE.Vector2(event.clientX, event.clientY);
+      if (lasso) {
+        points.push(point);
+      } else {
+        points = [points[0], point];
+      }
+      if (points[0].distanceTo(point) > MIN_AREA_DRAG || outline) {
+        drawOutline();
+      }
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const area = points;
+      points = [];
+      const drawn = outline !== null;
+      removeOutline();
+      if (!drawn || area.length < 2) return;
+
+      if (lasso) {
+        onSelect((point) => polygonContains(area, point), event.shiftKey);
+      } else {
+        const box = new THREE.Box2().setFromPoints(area);
+        onSelect((point) => box.containsPoint(point), event.shiftKey);
+      }
+    };
+
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+    return () => {
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      removeOutline();
+    };
+  }, [editorMode, cameraRef, rendererRef, getParts, onSelect]);
+}
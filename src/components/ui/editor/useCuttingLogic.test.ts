@@ -0,0 +1,77 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import * as THREE from "three";
+import { useCuttingLogic } from "./useCuttingLogic";
+import { EditorMode } from "./useMouseHandlers";
+
+const createModel = () => {
+  const model = new THREE.Mesh(
+    new THREE.BoxGeometry(2, 2, 2),
+    new THREE.MeshStandardMaterial()
+  );
+  model.name = "Box";
+  return model;
+};
+
+// The editor without a renderer, cutting on the main thread
+const renderEditor = () => {
+  const scene = new THREE.Scene();
+  const model = createModel();
+  scene.add(model);
+  const setError = jest.fn();
+  const { result } = renderHook(() =>
+    useCuttingLogic({
+      sceneRef: { current: scene },
+      cameraRef: { current: null },
+      rendererRef: { current: null },
+      controlsRef: { current: null },
+      selectionOutlineRef: { current: null },
+      hoverOutlineRef: { current: null },
+      modelRef: { current: model },
+      createPristineModel: createModel,
+      modelFrame: null,
+      setError,
+      setEditorMode: () => {},
+    })
+  );
+  return { result, setError };
+};
+
+describe("useCuttingLogic", () => {
+  test("a redone cut keeps its piece ids for the project", async () => {
+    const { result, setError } = renderEditor();
+    act(() => result.current.toggleEditorMode(EditorMode.Cut));
+    act(() =>
+      result.current.performCut(new THREE.Plane(new THREE.Vector3(1, 0, 0)))
+    );
+    await waitFor(() =>
+      expect(setError).toHaveBeenCalledWith(
+        expect.stringContaining("Cut complete")
+      )
+    );
+    const pieceIds = result.current.partDetails.map(({ id }) => id);
+
+    act(() => {
+      result.current.undoLastOperation();
+    });
+    act(() => {
+      result.current.redoLastOperation();
+    });
+    expect(result.current.partDetails.map(({ id }) => id)).toEqual(pieceIds);
+
+    // Later operations and saved names refer to the redone pieces
+    const [left] = result.current.partDetails;
+    act(() => {
+      result.current.renamePart(left.id, "Left");
+      result.current.setPartColor(left.id, "#3366cc");
+    });
+    const state = result.current.getProjectState();
+
+    const reopened = renderEditor().result;
+    await act(() => reopened.current.replayProject(state));
+    const parts = reopened.current.partDetails;
+    expect(parts.map(({ name }) => name).sort()).toEqual(
+      result.current.partDetails.map(({ name }) => name).sort()
+    );
+    expect(parts.find(({ name }) => name === "Left")!.color).toBe("#3366cc");
+  });
+});
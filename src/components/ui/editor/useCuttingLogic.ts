@@ -1,58 +1,286 @@
-import { useCallback, useRef, RefObject, useEffect } from "react";
+import {
+  useCallback,
+  useRef,
+  RefObject,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { DragControls } from "three/examples/jsm/controls/DragControls";
-import { Brush, Evaluator, INTERSECTION, SUBTRACTION } from "three-bvh-csg";
-import { EditorMode } from "./useMouseHandlers";
-import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter";
+import { TransformControls } from "three/examples/jsm/controls/TransformControls";
+import { OutlinePass } from "three/examples/jsm/postprocessing/OutlinePass";
+import { allowsOrbit, EditorMode } from "./useMouseHandlers";
+import {
+  buildMeshCutResult,
+  buildMeshPart,
+  collectMeshes,
+  mirrorHierarchy,
+  planMeshCut,
+  planMeshSlice,
+  SlabSeparator,
+} from "./planeCutter";
+import { createCutWorkerPool, CutWorkerPool } from "./cutWorkerPool";
+import { CutSection, measureCrossSection } from "./crossSection";
+import { usePartTree } from "./usePartTree";
+import { useHistory } from "./useHistory";
+import { usePartEditing } from "./usePartEditing";
+import { EditorSnapshot, useOperationReplay } from "./useOperationReplay";
+import { usePartExport } from "./usePartExport";
+import { ModelFrame } from "./units";
+import { splitMesh } from "./meshCsg";
+import { buildProfileSolid, CutProfile, CutShape } from "./profileCutter";
+import {
+  ProjectCutPart,
+  ProjectOperation,
+  toProjectPlane,
+  toProjectProfile,
+  toProjectTransform,
+} from "./projectFile";
 
 interface UseCuttingLogicProps {
   sceneRef: RefObject<THREE.Scene | null>;
   cameraRef: RefObject<THREE.PerspectiveCamera | null>;
   rendererRef: RefObject<THREE.WebGLRenderer | null>;
   controlsRef: RefObject<OrbitControls | null>;
+  selectionOutlineRef: RefObject<OutlinePass | null>;
+  hoverOutlineRef: RefObject<OutlinePass | null>;
   modelRef: RefObject<THREE.Object3D | null>;
+  createPristineModel: () => THREE.Object3D | null;
+  // Starts a worker for cutting; cuts run on the main thread without one
+  createCutWorker?: () => Worker;
+  modelFrame: ModelFrame | null;
   setError: (error: string | null) => void;
   setEditorMode: (mode: EditorMode) => void;
 }
 
+export type PlaneGizmoMode = "translate" | "rotate";
+
+// Modes in which dragging on the canvas draws a line
+const isDrawingMode = (mode: EditorMode) =>
+  mode === EditorMode.Cut || mode === EditorMode.Slice;
+
+// Pointer travel in pixels up to which a press on a part counts as a click
+// that selects it rather than a drag
+const CLICK_TOLERANCE = 4;
+
+// The cutting plane gizmo rotates in steps of 15 degrees
+const GIZMO_ROTATION_SNAP = THREE.MathUtils.degToRad(15);
+
+// A part being divided. A plane cut has two pieces (the positive side
+// first), a slice one piece per slab in slicing order. Each piece maps the
+// part's meshes to their share of it.
+interface PartCut {
+  target: THREE.Object3D;
+  pieces: Map<THREE.Mesh, THREE.Mesh>[];
+  // Planes the part is divided along, measured for the section readouts
+  planes: THREE.Plane[];
+}
+
+// What a cut divided the parts with, kept for project files
+type CutRecipe =
+  | { operation: "Cut"; plane: THREE.Plane }
+  | { operation: "Slice"; separators: SlabSeparator[] }
+  | { operation: "Profile cut"; profile: CutProfile };
+
+// The cut history entry for a cut made with the recipe
+const toProjectOperation = (
+  recipe: CutRecipe,
+  parts: ProjectCutPart[]
+): ProjectOperation => {
+  switch (recipe.operation) {
+    case "Cut":
+      return { type: "cut", plane: toProjectPlane(recipe.plane), parts };
+    case "Slice":
+      return {
+        type: "slice",
+        separators: recipe.separators.map(({ start, end }) => ({
+          start: toProjectPlane(start),
+          end: toProjectPlane(end),
+        })),
+        parts,
+      };
+    case "Profile cut":
+      return {
+        type: "profile",
+        profile: toProjectProfile(recipe.profile),
+        parts,
+      };
+  }
+};
+
+// Hidden and locked parts are neither moved nor cut
+const isEditablePart = (part: THREE.Object3D) =>
+  part.visible && !part.userData.locked;
+
+// Range covered by the parts along a direction, from the corners of their
+// meshes' bounding boxes
+const measureExtent = (parts: THREE.Object3D[], direction: THREE.Vector3) => {
+  const normal = direction.clone().normalize();
+  let min = Infinity;
+  let max = -Infinity;
+  const corner = new THREE.Vector3();
+
+  parts.forEach((part) =>
+    collectMeshes(part).forEach((mesh) => {
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      const { min: low, max: high } = mesh.geometry.boundingBox!;
+      for (let i = 0; i < 8; i++) {
+        corner
+          .set(
+            i & 1 ? high.x : low.x,
+            i & 2 ? high.y : low.y,
+            i & 4 ? high.z : low.z
+          )
+          .applyMatrix4(mesh.matrixWorld);
+        min = Math.min(min, corner.dot(normal));
+        max = Math.max(max, corner.dot(normal));
+      }
+    })
+  );
+
+  return min <= max ? { min, max } : null;
+};
+
+// A part replaced by its pieces, kept so the cut can be undone and redone
+interface AppliedCut {
+  target: THREE.Object3D;
+  parent: THREE.Object3D;
+  pieces: THREE.Object3D[];
+}
+
+// Pieces are named after the part they come from: Body_A, Body_B, ...
+// continuing with Body_AA after Body_Z
+const pieceSuffix = (index: number): string =>
+  (index >= 26 ? pieceSuffix(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+// Release the GPU resources of a part. three.js uploads them again if the
+// part is rendered later, which is what undoing a reset relies on.
+const disposePart = (part: THREE.Object3D) => {
+  part.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+};
+
 export function useCuttingLogic({
   sceneRef,
   cameraRef,
   rendererRef,
   controlsRef,
+  selectionOutlineRef,
+  hoverOutlineRef,
   modelRef,
+  createPristineModel,
+  createCutWorker,
+  modelFrame,
   setError,
   setEditorMode,
 }: UseCuttingLogicProps) {
-  const activeObjectsRef = useRef<THREE.Mesh[]>([]);
   const dragControlsRef = useRef<DragControls | null>(null);
   const objectPartsRef = useRef<THREE.Object3D[]>([]);
   const cuttingPlaneHelperRef = useRef<THREE.PlaneHelper | null>(null);
-  const cameraPositionBeforeCutRef = useRef<THREE.Vector3 | null>(null);
-  const cameraTargetBeforeCutRef = useRef<THREE.Vector3 | null>(null);
   const isProcessingRef = useRef<boolean>(false);
-  const originalModelRef = useRef<THREE.Object3D | null>(null);
+  const cutPoolRef = useRef<CutWorkerPool | null>(null);
+  const cutCancelledRef = useRef(false);
+  // Fraction of the meshes cut so far, null when no cut is running
+  const [cutProgress, setCutProgress] = useState<number | null>(null);
+  const slicePreviewRef = useRef<THREE.Group | null>(null);
+  // Slicing direction drawn on the canvas in Slice mode
+  const [drawnSliceDirection, setDrawnSliceDirection] =
+    useState<THREE.Vector3 | null>(null);
+  // What Cut mode divides the parts along: a plane or a drawn profile
+  const cutShapeRef = useRef<CutShape>("plane");
+  const [cutShape, setCutShapeState] = useState<CutShape>("plane");
   const cutCountRef = useRef<number>(0);
   const editorModeRef = useRef<EditorMode>(EditorMode.View);
   const mouseStartPointRef = useRef<THREE.Vector3 | null>(null);
   const mouseEndPointRef = useRef<THREE.Vector3 | null>(null);
-  const selectedPartRef = useRef<THREE.Object3D | null>(null);
-  const originalMaterialsRef = useRef<
-    Map<THREE.Object3D, THREE.Material | THREE.Material[]>
-  >(new Map());
+  const selectedPartsRef = useRef<THREE.Object3D[]>([]);
   const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
   const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2());
+  // Where the last press on the canvas started, to tell clicks from drags
+  const pressPointRef = useRef<THREE.Vector2 | null>(null);
+  const [selectedPartIds, setSelectedPartIds] = useState<string[]>([]);
+  const planeGizmoRef = useRef<THREE.Object3D | null>(null);
+  const transformControlsRef = useRef<TransformControls | null>(null);
+  const [planeGizmoMode, setPlaneGizmoMode] = useState<PlaneGizmoMode | null>(
+    null
+  );
 
-  const cloneMaterial = (
-    material: THREE.Material | THREE.Material[]
-  ): THREE.Material | THREE.Material[] => {
-    if (Array.isArray(material)) {
-      return material.map((mat) => mat.clone());
-    } else {
-      return material.clone();
-    }
-  };
+  const {
+    partNodes,
+    setRoot,
+    getRoot,
+    getNode,
+    findByObject,
+    addChildren,
+    renameNode,
+    groupNodes,
+    ungroupNode,
+    setNodesDeleted,
+    getLeaves,
+    clear: clearTree,
+    snapshot: snapshotTree,
+    restore: restoreTree,
+  } = usePartTree();
+
+  const {
+    undoLabel,
+    redoLabel,
+    pushCommand,
+    undo,
+    redo,
+    saveHistory,
+    restoreHistory,
+    clearHistory,
+  } = useHistory();
+
+  // Operations applied since the model was loaded or reset, in order, as
+  // saved in project files and listed in the cut history. Undone operations
+  // are taken off the list.
+  const operationsRef = useRef<ProjectOperation[]>([]);
+  const [operations, setOperationList] = useState<ProjectOperation[]>([]);
+  const setOperations = useCallback((list: ProjectOperation[]) => {
+    operationsRef.current = list;
+    setOperationList(list);
+  }, []);
+  const logOperation = useCallback(
+    (operation: ProjectOperation, applied: boolean) => {
+      const others = operationsRef.current.filter(
+        (entry) => entry !== operation
+      );
+      setOperations(applied ? [...others, operation] : others);
+    },
+    [setOperations]
+  );
+
+  // Bumped whenever parts change without the part tree changing, such as
+  // when they are moved, recolored, hidden or locked
+  const [partsVersion, setPartsVersion] = useState(0);
+  const touchParts = useCallback(
+    () => setPartsVersion((version) => version + 1),
+    []
+  );
+
+  // Cross-sections of every part that has been divided, keyed by the part.
+  // Only parts currently split in the tree are reported, so the readouts
+  // follow undo, redo and reset.
+  const cutSectionsRef = useRef(new Map<THREE.Object3D, CutSection[]>());
+  const cutSections = useMemo(
+    () =>
+      partNodes
+        .filter((node) => node.childIds.length > 0)
+        .flatMap((node) => cutSectionsRef.current.get(node.object) || []),
+    [partNodes]
+  );
 
   const setupDragControls = useCallback(
     (objects: THREE.Object3D[]) => {
@@ -63,159 +291,554 @@ export function useCuttingLogic({
       }
 
       dragControlsRef.current = new DragControls(
-        objects,
+        objects.filter(isEditablePart),
         cameraRef.current,
         rendererRef.current.domElement
       );
+      // Drag whole parts rather than the individual meshes inside them
+      dragControlsRef.current.transformGroup = true;
+
+      // Dragging a selected part moves the whole selection along with it
+      let moving: THREE.Object3D[] = [];
+      let startPositions: THREE.Vector3[] = [];
 
-      dragControlsRef.current.addEventListener("dragstart", () => {
+      dragControlsRef.current.addEventListener("dragstart", (event) => {
         if (controlsRef.current) controlsRef.current.enabled = false;
+        const selection = selectedPartsRef.current;
+        moving = selection.includes(event.object)
+          ? [
+              event.object,
+              ...selection.filter(
+                (part) => part !== event.object && isEditablePart(part)
+              ),
+            ]
+          : [event.object];
+        startPositions = moving.map((part) => part.position.clone());
+      });
+
+      dragControlsRef.current.addEventListener("drag", (event) => {
+        const offset = event.object.position.clone().sub(startPositions[0]);
+        moving
+          .slice(1)
+          .forEach((part, i) =>
+            part.position.copy(startPositions[i + 1]).add(offset)
+          );
       });
 
       dragControlsRef.current.addEventListener("dragend", () => {
         if (controlsRef.current) controlsRef.current.enabled = true;
+
+        const parts = moving;
+        const from = startPositions;
+        const to = parts.map((part) => part.position.clone());
+        if (from[0].equals(to[0])) return;
+
+        const moveTo = (positions: THREE.Vector3[]) =>
+          parts.forEach((part, i) => part.position.copy(positions[i]));
+        pushCommand({
+          label:
+            parts.length > 1
+              ? `Move ${parts.length} parts`
+              : `Move ${parts[0].name || "part"}`,
+          undo: () => moveTo(from),
+          redo: () => moveTo(to),
+        });
+        touchParts();
       });
     },
-    [cameraRef, rendererRef, controlsRef]
+    [cameraRef, rendererRef, controlsRef, pushCommand, touchParts]
   );
 
-  const finalizeGroupCut = useCallback(
-    (part1Group: THREE.Group, part2Group: THREE.Group) => {
-      try {
-        if (!sceneRef.current || !modelRef.current) {
-          throw new Error("Missing scene or model reference");
-        }
+  // Selected parts are outlined; their materials are never touched
+  const clearSelection = useCallback(() => {
+    if (selectionOutlineRef.current) {
+      selectionOutlineRef.current.selectedObjects = [];
+    }
+    selectedPartsRef.current = [];
+    setSelectedPartIds([]);
+  }, [selectionOutlineRef]);
+
+  // Highlight parts without recording the change in the history
+  const applySelection = useCallback(
+    (parts: THREE.Object3D[]) => {
+      clearSelection();
+      const selected = parts.filter((part) =>
+        objectPartsRef.current.includes(part)
+      );
+      if (selected.length === 0) return;
 
-        if (
-          part1Group.children.length === 0 ||
-          part2Group.children.length === 0
-        ) {
-          throw new Error(
-            "Cutting failed - one of the parts is empty. Try a different cut angle."
-          );
-        }
+      selectedPartsRef.current = selected;
+      setSelectedPartIds(
+        selected.map((part) => findByObject(part)?.id || "").filter(Boolean)
+      );
+      if (selectionOutlineRef.current) {
+        selectionOutlineRef.current.selectedObjects = selected;
+      }
+    },
+    [clearSelection, findByObject, selectionOutlineRef]
+  );
 
-        objectPartsRef.current.forEach((part) => {
-          if (part.parent) {
-            part.parent.remove(part);
-          }
-        });
-        objectPartsRef.current = [];
+  // Select exactly these parts, recording the change in the history
+  const selectParts = useCallback(
+    (parts: THREE.Object3D[]) => {
+      const previous = selectedPartsRef.current;
+      const next = parts.filter(
+        (part, i) =>
+          objectPartsRef.current.includes(part) && parts.indexOf(part) === i
+      );
+      if (
+        next.length === previous.length &&
+        next.every((part) => previous.includes(part))
+      ) {
+        return;
+      }
 
-        // Make sure the original model is completely removed from the scene
-        // First remove it directly
-        if (modelRef.current.parent) {
-          modelRef.current.parent.remove(modelRef.current);
-        }
+      applySelection(next);
+      pushCommand({
+        label:
+          next.length === 0
+            ? "Clear selection"
+            : next.length === 1
+            ? `Select ${next[0].name || "part"}`
+            : `Select ${next.length} parts`,
+        undo: () => applySelection(previous),
+        redo: () => applySelection(next),
+      });
+    },
+    [applySelection, pushCommand]
+  );
 
-        // Then traverse the scene to find and remove any other instances
-        // (This is a safety check to ensure no remnants remain)
-        sceneRef.current.traverse((object) => {
-          if (
-            object !== part1Group &&
-            object !== part2Group &&
-            object instanceof THREE.Mesh &&
-            object.userData.isOriginalModel
-          ) {
-            if (object.parent) {
-              object.parent.remove(object);
-            }
+  // Select a part on its own, or with `additive` add it to the selection
+  // (removing it again if it already was selected)
+  const selectPart = useCallback(
+    (part: THREE.Object3D | null, additive = false) => {
+      const current = selectedPartsRef.current;
+      if (!additive) {
+        selectParts(part ? [part] : []);
+      } else if (part) {
+        selectParts(
+          current.includes(part)
+            ? current.filter((selected) => selected !== part)
+            : [...current, part]
+        );
+      }
+    },
+    [selectParts]
+  );
+
+  const selectPartById = useCallback(
+    (id: string, additive = false) => {
+      const node = getNode(id);
+      selectPart(node ? node.object : null, additive);
+    },
+    [getNode, selectPart]
+  );
+
+  // Select the parts inside a box or lasso drawn on the canvas, adding them
+  // to the selection when `additive`
+  const selectPartsInArea = useCallback(
+    (contains: (point: THREE.Vector2) => boolean, additive: boolean) => {
+      const camera = cameraRef.current;
+      const canvas = rendererRef.current?.domElement;
+      if (!camera || !canvas) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const inside = objectPartsRef.current.filter((part) => {
+        if (!part.visible) return false;
+        const center = new THREE.Box3()
+          .setFromObject(part)
+          .getCenter(new THREE.Vector3())
+          .project(camera);
+        return (
+          center.z < 1 &&
+          contains(
+            new THREE.Vector2(
+              rect.left + ((center.x + 1) / 2) * rect.width,
+              rect.top + ((1 - center.y) / 2) * rect.height
+            )
+          )
+        );
+      });
+      selectParts(additive ? [...selectedPartsRef.current, ...inside] : inside);
+    },
+    [cameraRef, rendererRef, selectParts]
+  );
+
+  // The selected parts are cut on their own; otherwise every part (or the
+  // whole model before the first cut) is cut by the plane. Hidden and locked
+  // parts are never cut.
+  const getCutTargets = useCallback((): THREE.Object3D[] => {
+    if (selectedPartsRef.current.length > 0) {
+      return selectedPartsRef.current.filter(isEditablePart);
+    }
+    if (objectPartsRef.current.length > 0) {
+      return objectPartsRef.current.filter(isEditablePart);
+    }
+    return modelRef.current ? [modelRef.current] : [];
+  }, [modelRef]);
+
+  const getTargetsCenter = useCallback((targets: THREE.Object3D[]) => {
+    const box = new THREE.Box3();
+    targets.forEach((target) => box.expandByObject(target));
+    return box.getCenter(new THREE.Vector3());
+  }, []);
+
+  // Build the cutting plane from a mouse drag: it contains the drag
+  // direction and the camera right vector, and passes through the targets
+  const computeDragPlane = useCallback(
+    (
+      startPoint: THREE.Vector3,
+      endPoint: THREE.Vector3,
+      targets: THREE.Object3D[]
+    ): THREE.Plane => {
+      const center = getTargetsCenter(targets);
+
+      // Calculate direction vector from start to end point
+      const dragVector = new THREE.Vector3().subVectors(endPoint, startPoint);
+
+      // Get camera right vector (perpendicular to viewing direction)
+      const cameraRight = new THREE.Vector3(1, 0, 0).applyQuaternion(
+        cameraRef.current!.quaternion
+      );
+
+      // Calculate plane normal by cross product of drag vector and camera right
+      // This creates a plane that rotates with the drag direction
+      const planeNormal = new THREE.Vector3()
+        .crossVectors(dragVector, cameraRight)
+        .normalize();
+
+      return new THREE.Plane().setFromNormalAndCoplanarPoint(
+        planeNormal,
+        center
+      );
+    },
+    [cameraRef, getTargetsCenter]
+  );
+
+  // Bring objectPartsRef, the drag controls and the selection in line with
+  // the leaves of the part tree
+  const syncParts = useCallback(() => {
+    const root = getRoot();
+    objectPartsRef.current =
+      root && root.childIds.length > 0
+        ? getLeaves().map((node) => node.object)
+        : [];
+
+    if (
+      selectedPartsRef.current.some(
+        (part) => !objectPartsRef.current.includes(part)
+      )
+    ) {
+      clearSelection();
+    }
+
+    if (editorModeRef.current === EditorMode.Move) {
+      if (objectPartsRef.current.length > 0) {
+        setupDragControls(objectPartsRef.current);
+      } else {
+        // Nothing left to move once every cut has been undone
+        dragControlsRef.current?.dispose();
+        dragControlsRef.current = null;
+        editorModeRef.current = EditorMode.View;
+        setEditorMode(EditorMode.View);
+        if (controlsRef.current) controlsRef.current.enabled = true;
+      }
+    }
+  }, [
+    getRoot,
+    getLeaves,
+    clearSelection,
+    setupDragControls,
+    setEditorMode,
+    controlsRef,
+  ]);
+
+  // Swap the cut parts for their pieces in the scene. The part tree is
+  // restored from a snapshot on undo and redo, so the pieces keep their ids.
+  const applyCuts = useCallback(
+    (appliedCuts: AppliedCut[]) => {
+      appliedCuts.forEach(({ target, parent, pieces }) => {
+        parent.remove(target);
+        pieces.forEach((piece) => sceneRef.current!.add(piece));
+      });
+      cutCountRef.current++;
+    },
+    [sceneRef]
+  );
+
+  const revertCuts = useCallback((appliedCuts: AppliedCut[]) => {
+    [...appliedCuts].reverse().forEach(({ target, parent, pieces }) => {
+      pieces.forEach((piece) => piece.parent?.remove(piece));
+      parent.add(target);
+    });
+    cutCountRef.current--;
+  }, []);
+
+  // Apply the pieces of a finished cut as one undoable operation. Throws
+  // when the cut cannot be applied, such as when no part was divided.
+  const finalizeCut = useCallback(
+    (cuts: PartCut[], recipe: CutRecipe) => {
+      const { operation } = recipe;
+      if (!sceneRef.current || !modelRef.current) {
+        throw new Error("Missing scene or model reference");
+      }
+
+      // Empty pieces are dropped; a part needs two pieces to be divided
+      const successfulCuts = cuts
+        .map((cut) => ({
+          ...cut,
+          pieces: cut.pieces.filter((meshes) => meshes.size > 0),
+        }))
+        .filter(({ pieces }) => pieces.length >= 2);
+
+      if (successfulCuts.length === 0) {
+        throw new Error(
+          "Cutting failed - one of the parts is empty. Try a different cut angle."
+        );
+      }
+
+      // The loaded model becomes the root of the part tree on the first cut
+      if (!getRoot() || getRoot()!.object !== modelRef.current) {
+        setRoot(modelRef.current);
+      }
+
+      // Transforms the parts were cut at, for replaying the cut
+      const transforms = successfulCuts.map(({ target }) =>
+        toProjectTransform(target)
+      );
+
+      const appliedCuts: AppliedCut[] = successfulCuts.map(
+        ({ target, pieces: meshPieces, planes }) => {
+          const node = findByObject(target);
+          if (!node || !target.parent) {
+            throw new Error(`${target.name || "Part"} is not a known part`);
           }
-        });
 
-        // Mark all original model objects for easier identification
-        modelRef.current.traverse((child) => {
-          child.userData.isOriginalModel = true;
-        });
+          cutSectionsRef.current.set(
+            target,
+            planes
+              .map((plane) => measureCrossSection(target, plane))
+              .filter((section): section is CutSection => section !== null)
+          );
 
-        // Get original model bounds and scale for reference
-        const originalBox = new THREE.Box3().setFromObject(modelRef.current);
-        const originalSize = new THREE.Vector3();
-        originalBox.getSize(originalSize);
-
-        // Reset positions
-        part1Group.position.set(0, 0, 0);
-        part2Group.position.set(0, 0, 0);
-
-        // Ensure the scale is correct - explicitly set world matrix
-        part1Group.matrix.copy(modelRef.current.matrix.clone());
-        part2Group.matrix.copy(modelRef.current.matrix.clone());
-        part1Group.matrixAutoUpdate = false;
-        part2Group.matrixAutoUpdate = false;
-
-        // Re-enable matrix auto-update for positioning
-        part1Group.matrixAutoUpdate = true;
-        part2Group.matrixAutoUpdate = true;
-
-        // Calculate centers for separation
-        const box1 = new THREE.Box3().setFromObject(part1Group);
-        const box2 = new THREE.Box3().setFromObject(part2Group);
-        const center1 = new THREE.Vector3();
-        const center2 = new THREE.Vector3();
-        box1.getCenter(center1);
-        box2.getCenter(center2);
-
-        // Create separation between parts
-        const separationDir = new THREE.Vector3()
-          .subVectors(center1, center2)
-          .normalize();
-
-        // Use a larger offset for better visual separation
-        const OFFSET = Math.max(0.5, originalSize.length() * 0.1);
-
-        part1Group.position.add(separationDir.clone().multiplyScalar(OFFSET));
-        part2Group.position.add(separationDir.clone().multiplyScalar(-OFFSET));
-
-        // Safety check for oversized parts
-        const part1Box = new THREE.Box3().setFromObject(part1Group);
-        const part2Box = new THREE.Box3().setFromObject(part2Group);
-        const part1Size = new THREE.Vector3();
-        const part2Size = new THREE.Vector3();
-        part1Box.getSize(part1Size);
-        part2Box.getSize(part2Size);
-
-        if (part1Size.length() > originalSize.length() * 1.5) {
-          const scaleFactor = originalSize.length() / part1Size.length();
-          part1Group.scale.multiplyScalar(scaleFactor);
-        }
+          // Size of the part being cut, used to scale the separation
+          const originalSize = new THREE.Box3()
+            .setFromObject(target)
+            .getSize(new THREE.Vector3());
 
-        if (part2Size.length() > originalSize.length() * 1.5) {
-          const scaleFactor = originalSize.length() / part2Size.length();
-          part2Group.scale.multiplyScalar(scaleFactor);
-        }
+          // Each piece mirrors the part's node hierarchy
+          const pieces = meshPieces.map((meshes, i) => {
+            const piece = mirrorHierarchy(target, meshes)!;
+            piece.name = `${target.name || "Part"}_${pieceSuffix(i)}`;
+            return piece;
+          });
 
-        // Add parts to scene and update references
-        sceneRef.current.add(part1Group);
-        sceneRef.current.add(part2Group);
-        objectPartsRef.current = [part1Group, part2Group];
-        cutCountRef.current++;
+          // Calculate centers for separation
+          const firstCenter = new THREE.Box3()
+            .setFromObject(pieces[0])
+            .getCenter(new THREE.Vector3());
+          const lastCenter = new THREE.Box3()
+            .setFromObject(pieces[pieces.length - 1])
+            .getCenter(new THREE.Vector3());
+
+          // Create separation between parts
+          const separationDir = new THREE.Vector3()
+            .subVectors(firstCenter, lastCenter)
+            .normalize();
+
+          // Use a larger offset for better visual separation
+          const OFFSET = Math.max(0.5, originalSize.length() * 0.1);
+
+          // Two pieces move OFFSET apart each way; more pieces fan out
+          // evenly over twice that distance on either side
+          const last = pieces.length - 1;
+          const spread = Math.max(1, last / 2);
+          pieces.forEach((piece, i) => {
+            piece.position.add(
+              separationDir
+                .clone()
+                .multiplyScalar((OFFSET * (last - 2 * i)) / spread)
+            );
+          });
 
-        setupDragControls([part1Group, part2Group]);
+          return {
+            target,
+            parent: target.parent,
+            pieces,
+          };
+        }
+      );
 
-        // Clear any previous selection
-        selectedPartRef.current = null;
-        originalMaterialsRef.current.clear();
+      const before = snapshotTree();
+      applyCuts(appliedCuts);
+      appliedCuts.forEach(({ target, pieces }) =>
+        addChildren(findByObject(target)!.id, pieces)
+      );
+      syncParts();
+      const after = snapshotTree();
+
+      const parts = appliedCuts.map(({ target, pieces }, i) => ({
+        id: findByObject(target)!.id,
+        transform: transforms[i],
+        pieces: pieces.map((piece) => findByObject(piece)!.id),
+      }));
+      const logged = toProjectOperation(recipe, parts);
+      logOperation(logged, true);
+
+      pushCommand({
+        label: `${operation} ${appliedCuts.length} part(s)`,
+        undo: () => {
+          revertCuts(appliedCuts);
+          restoreTree(before);
+          syncParts();
+          logOperation(logged, false);
+        },
+        redo: () => {
+          applyCuts(appliedCuts);
+          restoreTree(after);
+          syncParts();
+          logOperation(logged, true);
+        },
+      });
 
-        setEditorMode(EditorMode.Move);
+      setupDragControls(objectPartsRef.current);
 
-        setTimeout(() => {
-          isProcessingRef.current = false;
-          setError(`Cut complete! The model has been divided into 2 parts.`);
-          setTimeout(() => setError(null), 3000);
-        }, 300);
-      } catch (err) {
+      setEditorMode(EditorMode.Move);
+
+      const skipped = cuts.length - successfulCuts.length;
+      setTimeout(() => {
         isProcessingRef.current = false;
-        if (err instanceof Error) {
-          setError(`Cut failed: ${err.message}`);
-        } else {
-          setError("Cut failed: Unknown error");
-        }
-        console.error("Cut error:", err);
+        setError(
+          `${operation} complete! ${successfulCuts.length} part(s) divided, ` +
+            `${objectPartsRef.current.length} parts in total.` +
+            (skipped > 0 ? ` ${skipped} part(s) were left whole.` : "")
+        );
+        setTimeout(() => setError(null), 3000);
+      }, 300);
+    },
+    [
+      sceneRef,
+      modelRef,
+      setEditorMode,
+      setupDragControls,
+      setError,
+      getRoot,
+      setRoot,
+      findByObject,
+      addChildren,
+      snapshotTree,
+      restoreTree,
+      syncParts,
+      applyCuts,
+      revertCuts,
+      pushCommand,
+      logOperation,
+    ]
+  );
+
+  const undoLastOperation = useCallback(() => {
+    if (isProcessingRef.current) return;
+    const command = undo();
+    touchParts();
+    if (command) {
+      setError(`Undo: ${command.label}`);
+      setTimeout(() => setError(null), 1500);
+    }
+  }, [undo, setError, touchParts]);
+
+  const redoLastOperation = useCallback(() => {
+    if (isProcessingRef.current) return;
+    const command = redo();
+    touchParts();
+    if (command) {
+      setError(`Redo: ${command.label}`);
+      setTimeout(() => setError(null), 1500);
+    }
+  }, [redo, setError, touchParts]);
+
+  // The visible part under the pointer, if any
+  const findPartAt = useCallback(
+    (event: MouseEvent): THREE.Object3D | null => {
+      if (!cameraRef.current || !rendererRef.current) return null;
+
+      const rect = rendererRef.current.domElement.getBoundingClientRect();
+
+      // Calculate mouse position in normalized device coordinates (-1 to +1)
+      mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+      mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+      // Set up raycaster
+      raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
+
+      // Check for intersections; hidden parts cannot be picked
+      const intersects = raycasterRef.current.intersectObjects(
+        objectPartsRef.current.filter((part) => part.visible),
+        true
+      );
+      if (intersects.length === 0) return null;
+
+      // Find the parent part group that was hit
+      let part = intersects[0].object;
+      while (part.parent && !objectPartsRef.current.includes(part)) {
+        part = part.parent;
+      }
+      return part;
+    },
+    [cameraRef, rendererRef]
+  );
+
+  const handleModelClick = useCallback(
+    (event: MouseEvent) => {
+      if (!sceneRef.current || !cameraRef.current || !rendererRef.current)
+        return;
+
+      const canvas = rendererRef.current.domElement;
+
+      // Ignore clicks on the toolbars and panels around the viewport, and the
+      // end of dragging parts or a selection area
+      if (event.target !== canvas) return;
+      if (
+        pressPointRef.current &&
+        pressPointRef.current.distanceTo(
+          new THREE.Vector2(event.clientX, event.clientY)
+        ) > CLICK_TOLERANCE
+      ) {
+        return;
       }
+
+      // Shift-click adds parts to the selection or removes them from it
+      const additive = event.shiftKey;
+      const clickedPart = findPartAt(event);
+      if (clickedPart || !additive) selectPart(clickedPart, additive);
     },
-    [sceneRef, modelRef, setEditorMode, setupDragControls, setError]
+    [cameraRef, rendererRef, sceneRef, findPartAt, selectPart]
   );
 
+  // Outline the part under the pointer while parts can be picked
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas) return;
+
+    const setHovered = (part: THREE.Object3D | null) => {
+      if (hoverOutlineRef.current) {
+        hoverOutlineRef.current.selectedObjects = part ? [part] : [];
+      }
+    };
+    const handlePointerMove = (event: PointerEvent) =>
+      setHovered(
+        editorModeRef.current === EditorMode.Move ? findPartAt(event) : null
+      );
+    const handlePointerLeave = () => setHovered(null);
+
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+    return () => {
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      setHovered(null);
+    };
+  }, [rendererRef, hoverOutlineRef, findPartAt]);
+
   // Add the click handler to document in an effect
   // Modified useEffect without the circular dependency
   useEffect(() => {
@@ -229,7 +852,177 @@ export function useCuttingLogic({
     }
   }, [editorModeRef.current, cutCountRef.current]); // Remove handleModelClick from dependencies
 
-  const performCut = useCallback(() => {
+  // Plane cuts and slices run on workers, started on the first of them
+  const getCutPool = useCallback(() => {
+    if (!cutPoolRef.current) {
+      cutPoolRef.current = createCutWorkerPool(createCutWorker || null);
+    }
+    return cutPoolRef.current;
+  }, [createCutWorker]);
+
+  // Divide every mesh of the given parts into pieces, reporting progress as
+  // meshes complete, and apply the result as one undoable operation. The
+  // returned promise resolves once the cut is applied, or rejects with the
+  // failure once it has been shown.
+  const runCutJobs = useCallback(
+    (
+      cuts: PartCut[],
+      recipe: CutRecipe,
+      cutMeshIntoPieces: (mesh: THREE.Mesh) => Promise<(THREE.Mesh | null)[]>
+    ): Promise<void> => {
+      const { operation } = recipe;
+      const jobs = cuts.flatMap((cut) =>
+        collectMeshes(cut.target).map((mesh) => ({ cut, mesh }))
+      );
+
+      if (jobs.length === 0) {
+        const failure = new Error("No valid meshes found in the model.");
+        setError(failure.message);
+        return Promise.reject(failure);
+      }
+
+      isProcessingRef.current = true;
+      cutCancelledRef.current = false;
+      setCutProgress(0);
+
+      // Nothing touches the scene until every mesh is done
+      let processedCount = 0;
+      const results = jobs.map(({ mesh }) =>
+        cutMeshIntoPieces(mesh).then((parts) => {
+          processedCount++;
+          if (!cutCancelledRef.current) {
+            setCutProgress(processedCount / jobs.length);
+          }
+          return parts;
+        })
+      );
+
+      return Promise.all(results)
+        .then((parts) => {
+          if (cutCancelledRef.current) throw new Error("Cut cancelled");
+
+          parts.forEach((meshPieces, index) => {
+            const { cut, mesh } = jobs[index];
+            meshPieces.forEach((piece, i) => {
+              if (piece) cut.pieces[i].set(mesh, piece);
+            });
+          });
+          setCutProgress(null);
+          finalizeCut(cuts, recipe);
+
+          // After finalizing the cut, remove the cutting plane helper
+          if (cuttingPlaneHelperRef.current && sceneRef.current) {
+            sceneRef.current.remove(cuttingPlaneHelperRef.current);
+            cuttingPlaneHelperRef.current = null;
+          }
+
+          // Automatically switch to move mode after cutting
+          editorModeRef.current = EditorMode.Move;
+          setEditorMode(EditorMode.Move);
+        })
+        .catch((err) => {
+          isProcessingRef.current = false;
+          setCutProgress(null);
+          if (cutCancelledRef.current) {
+            setError(`${operation} cancelled`);
+            setTimeout(() => setError(null), 1500);
+          } else {
+            cutPoolRef.current?.cancel();
+            setError(
+              `${operation} failed: ${
+                err instanceof Error ? err.message : "Unknown error"
+              }`
+            );
+            console.error(`${operation} error:`, err);
+          }
+          throw err;
+        });
+    },
+    [sceneRef, setError, finalizeCut, setEditorMode]
+  );
+
+  // Divide the parts along a plane, leaving out those it misses
+  const cutParts = useCallback(
+    (targets: THREE.Object3D[], cuttingPlane: THREE.Plane) => {
+      // The cut parts are replaced by their pieces, so nothing stays selected
+      clearSelection();
+
+      // Only parts whose bounds the plane passes through are cut
+      const cuts: PartCut[] = targets
+        .filter((target) =>
+          cuttingPlane.intersectsBox(new THREE.Box3().setFromObject(target))
+        )
+        .map((target) => ({
+          target,
+          pieces: [new Map(), new Map()],
+          planes: [cuttingPlane],
+        }));
+
+      const recipe: CutRecipe = { operation: "Cut", plane: cuttingPlane };
+      return runCutJobs(cuts, recipe, (mesh) => {
+        const plan = planMeshCut(mesh, cuttingPlane);
+        const result = plan.crossed
+          ? getCutPool()
+              .run(plan.request)
+              .then((geometries) => buildMeshCutResult(mesh, geometries))
+          : Promise.resolve(plan.result);
+        return result.then(({ part1, part2 }) => [part1, part2]);
+      });
+    },
+    [clearSelection, runCutJobs, getCutPool]
+  );
+
+  // Divide the parts along a profile. Parts it misses come out with an
+  // empty piece and are left whole.
+  const profileParts = useCallback(
+    (targets: THREE.Object3D[], profile: CutProfile) => {
+      // The cut parts are replaced by their pieces, so nothing stays selected
+      clearSelection();
+
+      const bounds = new THREE.Box3();
+      targets.forEach((target) => bounds.expandByObject(target));
+      const solid = buildProfileSolid(profile, bounds);
+      if (!solid) {
+        const failure = new Error("The profile needs at least two points.");
+        setError(failure.message);
+        setTimeout(() => setError(null), 3000);
+        return Promise.reject(failure);
+      }
+
+      const cuts: PartCut[] = targets.map((target) => ({
+        target,
+        pieces: [new Map(), new Map()],
+        planes: [],
+      }));
+
+      const recipe: CutRecipe = { operation: "Profile cut", profile };
+      // CSG runs on the main thread; each mesh gets its own task so the
+      // progress shows in between
+      return runCutJobs(
+        cuts,
+        recipe,
+        (mesh) =>
+          new Promise((resolve, reject) =>
+            setTimeout(() => {
+              if (cutCancelledRef.current) return resolve([null, null]);
+              try {
+                resolve(
+                  splitMesh(mesh, solid).map((piece) =>
+                    buildMeshPart(mesh, piece && piece.geometry)
+                  )
+                );
+              } catch (err) {
+                reject(err);
+              }
+            })
+          )
+      ).finally(() => solid.dispose());
+    },
+    [clearSelection, runCutJobs, setError]
+  );
+
+  // Cut with the given plane, or with the plane drawn by the last mouse drag
+  const performCut = useCallback((plane?: THREE.Plane) => {
     if (editorModeRef.current !== EditorMode.Cut) {
       console.log("Cut operation ignored - not in Cut mode");
       return;
@@ -244,245 +1037,142 @@ export function useCuttingLogic({
       return;
     }
 
-    const startPoint = mouseStartPointRef.current;
-    const endPoint = mouseEndPointRef.current;
-
-    if (!startPoint || !endPoint) {
-      setError("Invalid cutting points");
-      return;
-    }
-
-    const distance = startPoint.distanceTo(endPoint);
-    if (distance < 0.1) {
-      console.log("Cut operation ignored - points too close");
-      return;
-    }
-
-    // Prevent multiple cuts
-    if (cutCountRef.current > 0) {
-      setError("Model can only be cut once.");
-      setEditorMode(EditorMode.Move);
+    const targets = getCutTargets();
+    if (targets.length === 0) {
+      setError("Nothing to cut. Hidden and locked parts are not cut.");
       return;
     }
 
-    // Create the cutting plane using the SAME logic as in updateCuttingPlanePreview
-    const modelCenter = new THREE.Vector3();
-    new THREE.Box3().setFromObject(modelRef.current).getCenter(modelCenter);
-
-    // Calculate direction vector from start to end point
-    const dragVector = new THREE.Vector3().subVectors(endPoint, startPoint);
-
-    // Get camera right vector (perpendicular to viewing direction)
-    const cameraRight = new THREE.Vector3(1, 0, 0).applyQuaternion(
-      cameraRef.current!.quaternion
-    );
-
-    // Calculate plane normal by cross product of drag vector and camera right
-    const planeNormal = new THREE.Vector3()
-      .crossVectors(dragVector, cameraRight)
-      .normalize();
-
-    // Create the cutting plane passing through model center
-    const cuttingPlane = new THREE.Plane();
-    cuttingPlane.setFromNormalAndCoplanarPoint(planeNormal, modelCenter);
-
-    isProcessingRef.current = true;
-    setError("Processing cut operation...");
-
-    const part1Group = new THREE.Group();
-    const part2Group = new THREE.Group();
-    part1Group.name = "Part1";
-    part2Group.name = "Part2";
-
-    // Inside performCut function, after creating cuttingPlane
-    console.log("Cutting plane normal:", planeNormal);
-    console.log("Cutting plane position:", modelCenter);
-    console.log("Drag vector:", dragVector);
-    console.log("Start point:", startPoint);
-    console.log("End point:", endPoint);
-    // Add inside the try block after performing CSG operations:
-    requestAnimationFrame(() => {
-      setTimeout(() => {
-        try {
-          const meshes: THREE.Mesh[] = [];
-          modelRef.current!.traverse((child) => {
-            if (child instanceof THREE.Mesh && child.geometry) {
-              meshes.push(child);
-            }
-          });
-
-          if (meshes.length === 0) {
-            setError("No valid meshes found in the model.");
-            isProcessingRef.current = false;
-            return;
-          }
+    let cuttingPlane: THREE.Plane;
+    if (plane) {
+      cuttingPlane = plane.clone().normalize();
+    } else {
+      const startPoint = mouseStartPointRef.current;
+      const endPoint = mouseEndPointRef.current;
 
-          let processedCount = 0;
-          const totalMeshes = meshes.length;
+      if (!startPoint || !endPoint) {
+        setError("Invalid cutting points");
+        return;
+      }
 
-          // Replace the processMesh function with this updated version:
+      const distance = startPoint.distanceTo(endPoint);
+      if (distance < 0.1) {
+        console.log("Cut operation ignored - points too close");
+        return;
+      }
 
-          // Replace your processMesh function with this version:
+      // Create the cutting plane using the SAME logic as in updateCuttingPlanePreview
+      cuttingPlane = computeDragPlane(startPoint, endPoint, targets);
+    }
 
-const processMesh = (index: number) => {
-  if (index >= totalMeshes) {
-    finalizeGroupCut(part1Group, part2Group);
+    // Failures are shown by runCutJobs
+    cutParts(targets, cuttingPlane).catch(() => {});
+  }, [
+    modelRef,
+    sceneRef,
+    setError,
+    cutParts,
+    getCutTargets,
+    computeDragPlane,
+  ]);
+
+  // Cut along a line drawn over the canvas, given in client coordinates.
+  // The line is laid on the plane facing the camera through the parts'
+  // center and swept along the view direction.
+  const performProfileCut = useCallback(
+    (screenPoints: THREE.Vector2[]) => {
+      if (editorModeRef.current !== EditorMode.Cut) return;
 
-    // After finalizing the cut, remove the cutting plane helper
-    if (cuttingPlaneHelperRef.current && sceneRef.current) {
-      sceneRef.current.remove(cuttingPlaneHelperRef.current);
-      cuttingPlaneHelperRef.current = null;
-    }
+      if (!sceneRef.current || !modelRef.current || isProcessingRef.current) {
+        setError(
+          isProcessingRef.current
+            ? "Already processing a cut operation"
+            : "Missing scene or model reference"
+        );
+        return;
+      }
 
-    // Automatically switch to move mode after cutting
-    editorModeRef.current = EditorMode.Move;
-    setEditorMode(EditorMode.Move);
+      const camera = cameraRef.current;
+      const rect = rendererRef.current?.domElement.getBoundingClientRect();
+      if (!camera || !rect) return;
 
-    return;
-  }
+      const targets = getCutTargets();
+      if (targets.length === 0) {
+        setError("Nothing to cut. Hidden and locked parts are not cut.");
+        return;
+      }
 
-  const mesh = meshes[index];
-  try {
-    // Get mesh world matrix
-    mesh.updateMatrixWorld();
-    const meshWorldMatrix = mesh.matrixWorld.clone();
-    
-    // Setup cutting plane with normal and position
-    const planeGeometry = new THREE.PlaneGeometry(1000, 1000);
-    const planeMesh = new THREE.Mesh(planeGeometry);
-    planeMesh.position.copy(modelCenter);
-    const defaultNormal = new THREE.Vector3(0, 0, 1);
-    const quaternion = new THREE.Quaternion().setFromUnitVectors(
-      defaultNormal,
-      cuttingPlane.normal
-    );
-    planeMesh.quaternion.copy(quaternion);
-    planeMesh.updateMatrix();
-    planeMesh.updateMatrixWorld(true);
-    
-    // Debug visualization
-    if (sceneRef.current) {
-      const debugHelper = new THREE.Mesh(
-        new THREE.PlaneGeometry(5, 5),
-        new THREE.MeshBasicMaterial({
-          color: 0x00ff00,
-          transparent: true,
-          opacity: 0.5,
-          side: THREE.DoubleSide,
-        })
+      const direction = new THREE.Vector3(0, 0, -1).applyQuaternion(
+        camera.quaternion
       );
-      debugHelper.position.copy(planeMesh.position);
-      debugHelper.quaternion.copy(planeMesh.quaternion);
-      sceneRef.current.add(debugHelper);
-      console.log("Added debug helper plane");
-      
-      setTimeout(() => {
-        if (sceneRef.current && debugHelper.parent === sceneRef.current) {
-          sceneRef.current.remove(debugHelper);
-        }
-      }, 5000);
-    }
-    
-    // CRITICAL FIX: Pre-transform the geometries directly
-    // Step 1: Clone the mesh geometry
-    const meshGeometry = mesh.geometry.clone();
-    
-    // Step 2: Calculate relative transformation matrix
-    const meshMatrixInverse = new THREE.Matrix4().copy(meshWorldMatrix).invert();
-    const localPlaneMatrix = planeMesh.matrixWorld.clone().multiply(meshMatrixInverse);
-    
-    // Step 3: Create a plane geometry that is pre-transformed
-    const cuttingGeometry = planeGeometry.clone();
-    cuttingGeometry.applyMatrix4(localPlaneMatrix);
-    
-    // Debug visualization of transformed plane
-    if (sceneRef.current) {
-      const localDebugHelper = new THREE.Mesh(
-        new THREE.PlaneGeometry(5, 5),
-        new THREE.MeshBasicMaterial({
-          color: 0x0000ff,
-          transparent: true,
-          opacity: 0.5,
-          side: THREE.DoubleSide,
-        })
+      const viewPlane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+        direction,
+        getTargetsCenter(targets)
       );
-      // Apply the same transformation as the cutting geometry
-      localDebugHelper.geometry.applyMatrix4(localPlaneMatrix);
-      localDebugHelper.applyMatrix4(meshWorldMatrix); // Transform back to world space for debugging
-      localDebugHelper.matrixAutoUpdate = false;
-      
-      sceneRef.current.add(localDebugHelper);
-      console.log("Added transformed plane debug helper (blue)");
-      
-      setTimeout(() => {
-        if (sceneRef.current && localDebugHelper.parent === sceneRef.current) {
-          sceneRef.current.remove(localDebugHelper);
-        }
-      }, 5000);
-    }
-    
-    // Log detailed debug info
-    console.log("Mesh matrix:", meshWorldMatrix.elements);
-    console.log("Local plane matrix:", localPlaneMatrix.elements);
-    
-    // Create brushes with geometries (NO matrices - they're already transformed)
-    const meshBrush = new Brush(meshGeometry);
-    const planeBrush = new Brush(cuttingGeometry);
-    
-    // IMPORTANT: Use identity matrices since we pre-transformed the geometries
-    meshBrush.matrix.identity();
-    planeBrush.matrix.identity();
-    
-    // Perform CSG operations
-    const evaluator = new Evaluator();
-    const part1Brush = evaluator.evaluate(meshBrush, planeBrush, SUBTRACTION);
-    const part2Brush = evaluator.evaluate(meshBrush, planeBrush, INTERSECTION);
-    
-    console.log("CSG operations completed successfully");
-    console.log("Part 1 geometry vertex count:", part1Brush.geometry.attributes.position.count);
-    console.log("Part 2 geometry vertex count:", part2Brush.geometry.attributes.position.count);
-    
-    // Create meshes with the resulting geometry
-    const part1 = new THREE.Mesh(part1Brush.geometry, cloneMaterial(mesh.material));
-    const part2 = new THREE.Mesh(part2Brush.geometry, cloneMaterial(mesh.material));
-    
-    // Apply the original matrix to transform back to world space
-    part1.matrix.copy(mesh.matrix);
-    part2.matrix.copy(mesh.matrix); 
-    part1.matrixAutoUpdate = false;
-    part2.matrixAutoUpdate = false;
-    
-    // Add the parts to their respective groups
-    part1Group.add(part1);
-    part2Group.add(part2);
-    
-    processedCount++;
-    setError(`Processing cut: ${Math.round((processedCount / totalMeshes) * 100)}%`);
-    
-    // Process next mesh in the next frame
-    requestAnimationFrame(() => processMesh(index + 1));
-  } catch (err) {
-    console.error(`Error processing mesh ${index}:`, err);
-    requestAnimationFrame(() => processMesh(index + 1));
-  }
-};
+      const raycaster = new THREE.Raycaster();
+      const points = screenPoints
+        .map(({ x, y }) => {
+          raycaster.setFromCamera(
+            new THREE.Vector2(
+              ((x - rect.left) / rect.width) * 2 - 1,
+              -((y - rect.top) / rect.height) * 2 + 1
+            ),
+            camera
+          );
+          return raycaster.ray.intersectPlane(viewPlane, new THREE.Vector3());
+        })
+        .filter((point): point is THREE.Vector3 => point !== null);
 
-          processMesh(0);
-        } catch (err) {
-          if (err instanceof Error) {
-            setError(`Failed to cut model: ${err.message}`);
-          } else {
-            setError("Failed to cut model: Unknown error");
-          }
-          isProcessingRef.current = false;
-        }
-      }, 100);
-    });
-  }, [modelRef, sceneRef, setError, finalizeGroupCut, setEditorMode]);
+      profileParts(targets, { points, direction }).catch(() => {});
+    },
+    [
+      sceneRef,
+      modelRef,
+      cameraRef,
+      rendererRef,
+      setError,
+      getCutTargets,
+      getTargetsCenter,
+      profileParts,
+    ]
+  );
+
+  // Abort the running cut; the scene is only changed once a cut completes,
+  // so there is nothing to roll back
+  const cancelCut = useCallback(() => {
+    if (!isProcessingRef.current || cutCancelledRef.current) return;
+    cutCancelledRef.current = true;
+    cutPoolRef.current?.cancel();
+  }, []);
+
+  // Stop the workers when the editor goes away
+  useEffect(
+    () => () => {
+      cutCancelledRef.current = true;
+      cutPoolRef.current?.cancel();
+    },
+    []
+  );
 
   const handleMouseDown = useCallback(
     (event: MouseEvent) => {
-      if (editorModeRef.current !== EditorMode.Cut) return;
+      pressPointRef.current = new THREE.Vector2(event.clientX, event.clientY);
+      if (!isDrawingMode(editorModeRef.current)) return;
+      // Profiles are drawn by useProfileDrawing
+      if (
+        editorModeRef.current === EditorMode.Cut &&
+        cutShapeRef.current !== "plane"
+      ) {
+        return;
+      }
+
+      // Dragging a gizmo handle adjusts the current plane instead of
+      // drawing a new one
+      mouseEndPointRef.current = null;
+      if (transformControlsRef.current?.axis) {
+        mouseStartPointRef.current = null;
+        return;
+      }
 
       const rect = rendererRef.current?.domElement.getBoundingClientRect();
       if (!rect) return;
@@ -494,18 +1184,17 @@ const processMesh = (index: number) => {
       const raycaster = new THREE.Raycaster();
       raycaster.setFromCamera(new THREE.Vector2(x, y), cameraRef.current!);
 
-      // Try to intersect with model first
-      const intersects = raycaster.intersectObject(modelRef.current!, true);
+      // Try to intersect with the parts about to be cut first
+      const targets = getCutTargets();
+      if (targets.length === 0) return;
+      const intersects = raycaster.intersectObjects(targets, true);
 
       if (intersects.length > 0) {
         // We hit the model - use intersection point
         mouseStartPointRef.current = intersects[0].point.clone();
       } else {
         // No intersection with model - use a point at a reasonable distance
-        const modelCenter = new THREE.Vector3();
-        new THREE.Box3()
-          .setFromObject(modelRef.current!)
-          .getCenter(modelCenter);
+        const modelCenter = getTargetsCenter(targets);
         const cameraDirection = new THREE.Vector3(0, 0, -1).applyQuaternion(
           cameraRef.current!.quaternion
         );
@@ -523,13 +1212,13 @@ const processMesh = (index: number) => {
         canvas.addEventListener("mousemove", handleMouseMove);
       }
     },
-    [cameraRef, rendererRef, modelRef]
+    [cameraRef, rendererRef, getCutTargets, getTargetsCenter]
   );
 
   const handleMouseMove = useCallback(
     (event: MouseEvent) => {
       if (
-        editorModeRef.current !== EditorMode.Cut ||
+        !isDrawingMode(editorModeRef.current) ||
         !mouseStartPointRef.current
       )
         return;
@@ -544,8 +1233,8 @@ const processMesh = (index: number) => {
       const raycaster = new THREE.Raycaster();
       raycaster.setFromCamera(new THREE.Vector2(x, y), cameraRef.current!);
 
-      // Try to intersect with model first
-      const intersects = raycaster.intersectObject(modelRef.current!, true);
+      // Try to intersect with the parts about to be cut first
+      const intersects = raycaster.intersectObjects(getCutTargets(), true);
 
       if (intersects.length > 0) {
         // We hit the model - use that point directly
@@ -565,6 +1254,17 @@ const processMesh = (index: number) => {
         raycaster.ray.intersectPlane(dragPlane, mouseEndPointRef.current);
       }
 
+      // In Slice mode the drawn line only sets the slicing direction
+      if (editorModeRef.current === EditorMode.Slice) {
+        const direction = mouseEndPointRef.current
+          .clone()
+          .sub(mouseStartPointRef.current);
+        if (direction.lengthSq() > 1e-6) {
+          setDrawnSliceDirection(direction.normalize());
+        }
+        return;
+      }
+
       // Update the cutting plane visualization if we have a valid end point
       if (mouseEndPointRef.current) {
         updateCuttingPlanePreview(
@@ -573,60 +1273,295 @@ const processMesh = (index: number) => {
         );
       }
     },
-    [cameraRef, rendererRef, modelRef]
+    [cameraRef, rendererRef, getCutTargets]
   );
 
-  const updateCuttingPlanePreview = useCallback(
-    (startPoint: THREE.Vector3, endPoint: THREE.Vector3) => {
-      if (!sceneRef.current || !modelRef.current) return;
-
-      // Get model center for positioning the plane
-      const modelCenter = new THREE.Vector3();
-      new THREE.Box3().setFromObject(modelRef.current).getCenter(modelCenter);
-
-      // Calculate direction vector from start to end point
-      const dragVector = new THREE.Vector3().subVectors(endPoint, startPoint);
-
-      // Get camera right vector (perpendicular to viewing direction)
-      const cameraRight = new THREE.Vector3(1, 0, 0).applyQuaternion(
-        cameraRef.current!.quaternion
-      );
+  const removePlaneGizmo = useCallback(() => {
+    if (transformControlsRef.current) {
+      transformControlsRef.current.detach();
+      transformControlsRef.current.getHelper().removeFromParent();
+      transformControlsRef.current.dispose();
+      transformControlsRef.current = null;
+    }
+    if (planeGizmoRef.current) {
+      planeGizmoRef.current.removeFromParent();
+      disposePart(planeGizmoRef.current);
+      planeGizmoRef.current = null;
+    }
+    setPlaneGizmoMode(null);
+  }, []);
 
-      // Calculate plane normal by cross product of drag vector and camera right
-      // This creates a plane that rotates with the drag direction
-      const planeNormal = new THREE.Vector3()
-        .crossVectors(dragVector, cameraRight)
-        .normalize();
+  // Show the red preview of a cutting plane, sized to the parts it would cut
+  const previewCuttingPlane = useCallback(
+    (plane: THREE.Plane | null) => {
+      if (!sceneRef.current) return;
 
-      // Create the cutting plane passing through model center
-      const cuttingPlane = new THREE.Plane();
-      cuttingPlane.setFromNormalAndCoplanarPoint(planeNormal, modelCenter);
+      // A newly drawn or typed plane replaces the one being adjusted
+      if (plane) removePlaneGizmo();
 
       // Remove existing plane helper
       if (cuttingPlaneHelperRef.current) {
         sceneRef.current.remove(cuttingPlaneHelperRef.current);
+        cuttingPlaneHelperRef.current = null;
       }
 
+      const targets = getCutTargets();
+      if (!plane || targets.length === 0) return;
+
       // Create new helper with appropriate size
-      const box = new THREE.Box3().setFromObject(modelRef.current);
+      const box = new THREE.Box3();
+      targets.forEach((target) => box.expandByObject(target));
       const size = new THREE.Vector3();
       box.getSize(size);
       const maxDimension = Math.max(size.x, size.y, size.z) * 1.5;
 
       const planeHelper = new THREE.PlaneHelper(
-        cuttingPlane,
+        plane.clone().normalize(),
         maxDimension,
         0xff0000
       );
       sceneRef.current.add(planeHelper);
       cuttingPlaneHelperRef.current = planeHelper;
     },
-    [sceneRef, modelRef, cameraRef]
+    [sceneRef, getCutTargets, removePlaneGizmo]
+  );
+
+  // Turn a cutting plane into an object with translate/rotate handles so it
+  // can be refined before the cut is applied
+  const showPlaneGizmo = useCallback(
+    (plane: THREE.Plane) => {
+      if (!sceneRef.current || !cameraRef.current || !rendererRef.current) {
+        return;
+      }
+      previewCuttingPlane(null);
+      removePlaneGizmo();
+
+      const bounds = new THREE.Box3();
+      getCutTargets().forEach((target) => bounds.expandByObject(target));
+      const size = bounds.getSize(new THREE.Vector3());
+      const planeSize = Math.max(size.x, size.y, size.z, 0.1) * 1.5;
+
+      // The gizmo's local +Z axis is the plane normal
+      const gizmo = new THREE.Group();
+      gizmo.name = "CuttingPlaneGizmo";
+      const planeGeometry = new THREE.PlaneGeometry(planeSize, planeSize);
+      gizmo.add(
+        new THREE.Mesh(
+          planeGeometry,
+          new THREE.MeshBasicMaterial({
+            color: 0xff0000,
+            transparent: true,
+            opacity: 0.25,
+            side: THREE.DoubleSide,
+            depthWrite: false,
+          })
+        ),
+        new THREE.LineSegments(
+          new THREE.EdgesGeometry(planeGeometry),
+          new THREE.LineBasicMaterial({ color: 0xff0000 })
+        )
+      );
+      plane.projectPoint(bounds.getCenter(new THREE.Vector3()), gizmo.position);
+      gizmo.quaternion.setFromUnitVectors(
+        new THREE.Vector3(0, 0, 1),
+        plane.normal
+      );
+      sceneRef.current.add(gizmo);
+      planeGizmoRef.current = gizmo;
+
+      const controls = new TransformControls(
+        cameraRef.current,
+        rendererRef.current.domElement
+      );
+      controls.setRotationSnap(GIZMO_ROTATION_SNAP);
+      controls.setMode("translate");
+      controls.attach(gizmo);
+      sceneRef.current.add(controls.getHelper());
+      transformControlsRef.current = controls;
+      setPlaneGizmoMode("translate");
+    },
+    [
+      sceneRef,
+      cameraRef,
+      rendererRef,
+      getCutTargets,
+      previewCuttingPlane,
+      removePlaneGizmo,
+    ]
+  );
+
+  const setPlaneGizmoTransformMode = useCallback((mode: PlaneGizmoMode) => {
+    if (!transformControlsRef.current) return;
+    transformControlsRef.current.setMode(mode);
+    setPlaneGizmoMode(mode);
+  }, []);
+
+  const updateCuttingPlanePreview = useCallback(
+    (startPoint: THREE.Vector3, endPoint: THREE.Vector3) => {
+      const targets = getCutTargets();
+      if (targets.length === 0) return;
+
+      // Create the cutting plane passing through the center of the targets
+      previewCuttingPlane(computeDragPlane(startPoint, endPoint, targets));
+    },
+    [getCutTargets, computeDragPlane, previewCuttingPlane]
+  );
+
+  // Switching to a drawn profile drops the plane being set up
+  const setCutShape = useCallback(
+    (shape: CutShape) => {
+      cutShapeRef.current = shape;
+      setCutShapeState(shape);
+      if (shape !== "plane") {
+        previewCuttingPlane(null);
+        removePlaneGizmo();
+      }
+    },
+    [previewCuttingPlane, removePlaneGizmo]
+  );
+
+  // Bounds of the parts the next cut would apply to, for numeric plane entry
+  const getCutBounds = useCallback((): THREE.Box3 | null => {
+    const targets = getCutTargets();
+    if (targets.length === 0) return null;
+    const box = new THREE.Box3();
+    targets.forEach((target) => box.expandByObject(target));
+    return box;
+  }, [getCutTargets]);
+
+  // Range covered by the parts about to be sliced, measured along a direction
+  const getSliceExtent = useCallback(
+    (direction: THREE.Vector3) => measureExtent(getCutTargets(), direction),
+    [getCutTargets]
+  );
+
+  // Parts a cut or slice in the cut history was made on, as they were then
+  const getOperationTargets = useCallback(
+    (index: number) => {
+      const operation = operationsRef.current[index];
+      if (
+        !operation ||
+        (operation.type !== "cut" && operation.type !== "slice")
+      ) {
+        return [];
+      }
+      return operation.parts
+        .map(({ id }) => getNode(id)?.object)
+        .filter((part): part is THREE.Object3D => !!part);
+    },
+    [getNode]
+  );
+
+  const getOperationBounds = useCallback(
+    (index: number) => {
+      const targets = getOperationTargets(index);
+      if (targets.length === 0) return null;
+      const box = new THREE.Box3();
+      targets.forEach((target) => box.expandByObject(target));
+      return box;
+    },
+    [getOperationTargets]
+  );
+
+  const getOperationExtent = useCallback(
+    (index: number, direction: THREE.Vector3) =>
+      measureExtent(getOperationTargets(index), direction),
+    [getOperationTargets]
+  );
+
+  // Show every slab separator the next slice would use
+  const previewSlices = useCallback(
+    (separators: SlabSeparator[] | null) => {
+      if (slicePreviewRef.current) {
+        slicePreviewRef.current.removeFromParent();
+        slicePreviewRef.current.children.forEach((helper) =>
+          (helper as THREE.PlaneHelper).dispose()
+        );
+        slicePreviewRef.current = null;
+      }
+
+      const bounds = getCutBounds();
+      if (!separators || !bounds || !sceneRef.current) return;
+
+      const size = bounds.getSize(new THREE.Vector3());
+      const helperSize = Math.max(size.x, size.y, size.z) * 1.5;
+      const preview = new THREE.Group();
+      preview.name = "SlicePreview";
+      separators.forEach(({ start, end }) => {
+        preview.add(new THREE.PlaneHelper(start, helperSize, 0xff0000));
+        if (!end.equals(start)) {
+          preview.add(new THREE.PlaneHelper(end, helperSize, 0xff8800));
+        }
+      });
+      sceneRef.current.add(preview);
+      slicePreviewRef.current = preview;
+    },
+    [sceneRef, getCutBounds]
+  );
+
+  // Split the parts into slabs between the separators, leaving out those no
+  // separator passes through
+  const sliceParts = useCallback(
+    (targets: THREE.Object3D[], separators: SlabSeparator[]) => {
+      // The sliced parts are replaced by their slabs, so nothing stays selected
+      clearSelection();
+
+      const cuts: PartCut[] = targets
+        .filter((target) => {
+          const box = new THREE.Box3().setFromObject(target);
+          return separators.some(
+            ({ start, end }) =>
+              start.intersectsBox(box) || end.intersectsBox(box)
+          );
+        })
+        .map((target) => ({
+          target,
+          pieces: Array.from(
+            { length: separators.length + 1 },
+            () => new Map<THREE.Mesh, THREE.Mesh>()
+          ),
+          // With a kerf the first face of each gap is measured
+          planes: separators.map(({ start }) => start),
+        }));
+
+      const recipe: CutRecipe = { operation: "Slice", separators };
+      return runCutJobs(cuts, recipe, (mesh) =>
+        getCutPool()
+          .runSlice(planMeshSlice(mesh, separators))
+          .then((slabs) => slabs.map((slab) => buildMeshPart(mesh, slab)))
+      );
+    },
+    [clearSelection, runCutJobs, getCutPool]
+  );
+
+  // Split the parts into slabs between the given separators
+  const performSlice = useCallback(
+    (separators: SlabSeparator[]) => {
+      if (editorModeRef.current !== EditorMode.Slice) return;
+
+      if (!sceneRef.current || !modelRef.current || isProcessingRef.current) {
+        setError(
+          isProcessingRef.current
+            ? "Already processing a cut operation"
+            : "Missing scene or model reference"
+        );
+        return;
+      }
+
+      const targets = getCutTargets();
+      if (targets.length === 0) {
+        setError("Nothing to slice. Hidden and locked parts are not sliced.");
+        return;
+      }
+
+      sliceParts(targets, separators).catch(() => {});
+    },
+    [sceneRef, modelRef, setError, getCutTargets, sliceParts]
   );
 
   const handleMouseUp = useCallback(
     (event: MouseEvent) => {
-      if (editorModeRef.current !== EditorMode.Cut) return;
+      if (!isDrawingMode(editorModeRef.current)) return;
 
       // Remove the mousemove event listener
       const canvas = rendererRef.current?.domElement;
@@ -634,22 +1569,44 @@ const processMesh = (index: number) => {
         canvas.removeEventListener("mousemove", handleMouseMove);
       }
 
+      if (editorModeRef.current === EditorMode.Slice) {
+        mouseStartPointRef.current = null;
+        return;
+      }
+
       // DO NOT recalculate mouseEndPointRef.current here - use the value set during mouse movement
+      const startPoint = mouseStartPointRef.current;
+      const endPoint = mouseEndPointRef.current;
+      mouseStartPointRef.current = null;
 
-      // Verify we have valid cutting points
-      if (!mouseStartPointRef.current || !mouseEndPointRef.current) {
-        setError("Invalid cutting points");
+      // Plain clicks and gizmo drags do not define a new plane
+      if (!startPoint || !endPoint || startPoint.distanceTo(endPoint) < 0.1) {
         return;
       }
 
-      const confirmCut = window.confirm("Proceed with cut at the red plane?");
-      if (confirmCut) {
-        performCut();
-      }
+      const targets = getCutTargets();
+      if (targets.length === 0) return;
+
+      // Hand the drawn plane over to the gizmo; the cut is applied from there
+      showPlaneGizmo(computeDragPlane(startPoint, endPoint, targets));
     },
-    [performCut, setError]
+    [getCutTargets, computeDragPlane, showPlaneGizmo]
   );
 
+  // Cut with the plane currently held by the gizmo
+  const applyPlaneGizmo = useCallback(() => {
+    const gizmo = planeGizmoRef.current;
+    if (!gizmo) return;
+
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(gizmo.quaternion);
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      normal,
+      gizmo.position
+    );
+    removePlaneGizmo();
+    performCut(plane);
+  }, [removePlaneGizmo, performCut]);
+
   useEffect(() => {
     const canvas = rendererRef.current?.domElement;
     if (canvas) {
@@ -666,94 +1623,6 @@ const processMesh = (index: number) => {
     };
   }, [handleMouseDown, handleMouseUp, handleMouseMove, rendererRef]);
 
-  const handleModelClick = useCallback(
-    (event: MouseEvent) => {
-      if (!sceneRef.current || !cameraRef.current || !rendererRef.current)
-        return;
-
-      const canvas = rendererRef.current.domElement;
-      const rect = canvas.getBoundingClientRect();
-
-      // Calculate mouse position in normalized device coordinates (-1 to +1)
-      mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-
-      // Set up raycaster
-      raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
-
-      // Get all objects to check for intersection
-      const objectsToCheck = objectPartsRef.current;
-
-      // Check for intersections
-      const intersects = raycasterRef.current.intersectObjects(
-        objectsToCheck,
-        true
-      );
-
-      // Reset previously selected part color if any
-      if (selectedPartRef.current) {
-        const originalMaterial = originalMaterialsRef.current.get(
-          selectedPartRef.current
-        );
-        if (originalMaterial) {
-          // Restore original material
-          selectedPartRef.current.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-              child.material =
-                originalMaterial instanceof THREE.Material
-                  ? originalMaterial.clone()
-                  : originalMaterial.map((m) => m.clone());
-            }
-          });
-        }
-        selectedPartRef.current = null;
-      }
-
-      // If we clicked on a part, highlight it
-      if (intersects.length > 0) {
-        // Find the parent part group that was clicked
-        let clickedPart = intersects[0].object;
-        while (
-          clickedPart.parent &&
-          !objectPartsRef.current.includes(clickedPart)
-        ) {
-          clickedPart = clickedPart.parent;
-        }
-
-        if (objectPartsRef.current.includes(clickedPart)) {
-          // Store the selected part
-          selectedPartRef.current = clickedPart;
-
-          // Store original materials if not already stored
-          if (!originalMaterialsRef.current.has(clickedPart)) {
-            clickedPart.traverse((child) => {
-              if (child instanceof THREE.Mesh) {
-                originalMaterialsRef.current.set(clickedPart, child.material);
-              }
-            });
-          }
-
-          // Apply blue material to highlight
-          const blueMaterial = new THREE.MeshStandardMaterial({
-            color: 0x0088ff,
-            roughness: 0.5,
-            metalness: 0.5,
-          });
-
-          clickedPart.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-              child.material = blueMaterial;
-            }
-          });
-
-          // Log the clicked model
-          console.log("Selected part:", clickedPart);
-        }
-      }
-    },
-    [cameraRef, rendererRef, sceneRef, objectPartsRef]
-  );
-
   const toggleEditorMode = useCallback(
     (mode: EditorMode) => {
       const prevMode = editorModeRef.current;
@@ -764,25 +1633,25 @@ const processMesh = (index: number) => {
           sceneRef.current.remove(cuttingPlaneHelperRef.current);
           cuttingPlaneHelperRef.current = null;
         }
+        removePlaneGizmo();
       }
 
-      if (mode === EditorMode.Cut && cutCountRef.current > 0) {
-        setError(
-          "Model can only be cut once. Use Reset if you want to cut again."
-        );
-        editorModeRef.current = EditorMode.Move;
-        setEditorMode(EditorMode.Move);
-        if (objectPartsRef.current.length > 0) {
-          setupDragControls(objectPartsRef.current);
-        }
-        return;
+      if (prevMode === EditorMode.Slice && mode !== EditorMode.Slice) {
+        previewSlices(null);
+        setDrawnSliceDirection(null);
+      }
+
+      // Parts are only draggable in Move mode
+      if (mode !== EditorMode.Move && dragControlsRef.current) {
+        dragControlsRef.current.dispose();
+        dragControlsRef.current = null;
       }
 
       editorModeRef.current = mode;
       setEditorMode(mode);
 
       if (controlsRef.current) {
-        controlsRef.current.enabled = mode === EditorMode.View;
+        controlsRef.current.enabled = allowsOrbit(mode);
       }
 
       if (mode === EditorMode.Move && objectPartsRef.current.length > 0) {
@@ -797,7 +1666,14 @@ const processMesh = (index: number) => {
         document.removeEventListener("click", handleModelClick);
       }
     },
-    [controlsRef, setEditorMode, setupDragControls, setError, handleModelClick]
+    [
+      controlsRef,
+      setEditorMode,
+      setupDragControls,
+      handleModelClick,
+      removePlaneGizmo,
+      previewSlices,
+    ]
   );
 
   useEffect(() => {
@@ -815,63 +1691,199 @@ const processMesh = (index: number) => {
     };
   }, [handleMouseDown, handleMouseUp, rendererRef]);
 
-  const exportSelectedPart = useCallback(() => {
-    if (!selectedPartRef.current) {
-      setError("No part selected. Please click on a part to select it first.");
+  // What the editor shows, to be put back by restoreEditor
+  const captureEditor = useCallback(
+    (): EditorSnapshot => ({
+      model: modelRef.current,
+      modelParent: modelRef.current?.parent || null,
+      parts: [...objectPartsRef.current],
+      tree: snapshotTree(),
+      cutCount: cutCountRef.current,
+      operations: operationsRef.current,
+    }),
+    [modelRef, snapshotTree]
+  );
+
+  // Take what was captured out of the scene without disposing of it
+  const hideEditor = useCallback(
+    (snapshot: EditorSnapshot) => {
+      clearSelection();
+      snapshot.parts.forEach((part) => part.parent?.remove(part));
+      snapshot.model?.parent?.remove(snapshot.model);
+    },
+    [clearSelection]
+  );
+
+  const restoreEditor = useCallback(
+    (snapshot: EditorSnapshot) => {
+      clearSelection();
+      modelRef.current = snapshot.model;
+      if (snapshot.model && snapshot.modelParent) {
+        snapshot.modelParent.add(snapshot.model);
+      }
+      snapshot.parts.forEach((part) => sceneRef.current?.add(part));
+      restoreTree(snapshot.tree);
+      cutCountRef.current = snapshot.cutCount;
+      setOperations(snapshot.operations);
+      syncParts();
+    },
+    [sceneRef, modelRef, clearSelection, restoreTree, setOperations, syncParts]
+  );
+
+  // Put a freshly loaded model in the scene, without parts or operations
+  const showPristineModel = useCallback(
+    (freshModel: THREE.Object3D) => {
+      sceneRef.current?.add(freshModel);
+      modelRef.current = freshModel;
+      clearTree();
+      objectPartsRef.current = [];
+      cutCountRef.current = 0;
+      setOperations([]);
+    },
+    [sceneRef, modelRef, clearTree, setOperations]
+  );
+
+  // Throw away every cut and bring back the model exactly as it was loaded
+  const resetEditor = useCallback(() => {
+    if (isProcessingRef.current || !sceneRef.current) return;
+
+    const freshModel = createPristineModel();
+    if (!freshModel) {
+      setError("No model loaded to reset");
       return;
     }
 
-    // Use GLTFExporter to export the selected part
-    const exporter = new GLTFExporter();
-    const options = {
-      binary: true, // Set to true for .glb, false for .gltf
-      animations: [],
-      onlyVisible: true,
-    };
+    const previous = captureEditor();
 
-    try {
-      exporter.parse(
-        selectedPartRef.current,
-        (result) => {
-          const output =
-            result instanceof ArrayBuffer
-              ? new Blob([result], { type: "application/octet-stream" })
-              : new Blob([JSON.stringify(result)], { type: "text/plain" });
-
-          // Create download link
-          const downloadLink = document.createElement("a");
-          const partName = selectedPartRef.current?.name || "part";
-          const extension = result instanceof ArrayBuffer ? "glb" : "gltf";
-          downloadLink.href = URL.createObjectURL(output);
-          downloadLink.download = `${partName}_export.${extension}`;
-
-          // Add to document, click, and remove
-          document.body.appendChild(downloadLink);
-          downloadLink.click();
-          document.body.removeChild(downloadLink);
-
-          // Clean up URL object
-          setTimeout(() => {
-            URL.revokeObjectURL(downloadLink.href);
-            setError(`Successfully exported ${partName}.`);
-            setTimeout(() => setError(null), 3000);
-          }, 100);
-        },
-        (error) => {
-          console.error("Error exporting model:", error);
-          setError(`Export failed: ${error.message || "Unknown error"}`);
-        },
-        options
-      );
-    } catch (err) {
-      console.error("Error during export:", err);
-      if (err instanceof Error) {
-        setError(`Export failed: ${err.message}`);
-      } else {
-        setError("Export failed: Unknown error");
+    const applyReset = () => {
+      clearSelection();
+      if (cuttingPlaneHelperRef.current) {
+        sceneRef.current?.remove(cuttingPlaneHelperRef.current);
+        cuttingPlaneHelperRef.current = null;
       }
-    }
-  }, [selectedPartRef, setError]);
+      dragControlsRef.current?.dispose();
+      dragControlsRef.current = null;
+
+      previous.parts.forEach((part) => {
+        part.parent?.remove(part);
+        disposePart(part);
+      });
+      previous.model?.parent?.remove(previous.model);
+
+      showPristineModel(freshModel);
+      toggleEditorMode(EditorMode.View);
+    };
+
+    const revertReset = () => {
+      freshModel.parent?.remove(freshModel);
+      restoreEditor(previous);
+    };
+
+    applyReset();
+    pushCommand({ label: "Reset", undo: revertReset, redo: applyReset });
+
+    setError("Model reset to its original state.");
+    setTimeout(() => setError(null), 3000);
+  }, [
+    sceneRef,
+    createPristineModel,
+    setError,
+    captureEditor,
+    restoreEditor,
+    showPristineModel,
+    clearSelection,
+    toggleEditorMode,
+    pushCommand,
+  ]);
+
+  const {
+    partDetails,
+    renamePart,
+    setPartColor,
+    setPartVisible,
+    setPartLocked,
+    groupParts,
+    groupSelectedParts,
+    ungroupParts,
+    ungroupSelectedParts,
+    deleteParts,
+    deleteSelectedParts,
+    joinParts,
+    joinSelectedParts,
+  } = usePartEditing({
+    sceneRef,
+    objectPartsRef,
+    selectedPartsRef,
+    editorModeRef,
+    partNodes,
+    partsVersion,
+    getNode,
+    findByObject,
+    renameNode,
+    groupNodes,
+    ungroupNode,
+    setNodesDeleted,
+    snapshotTree,
+    restoreTree,
+    setupDragControls,
+    clearSelection,
+    applySelection,
+    syncParts,
+    touchParts,
+    getTargetsCenter,
+    pushCommand,
+    logOperation,
+    setError,
+  });
+
+  const { getProjectState, replayProject, editCut, editSlice } =
+    useOperationReplay({
+      sceneRef,
+      modelRef,
+      createPristineModel,
+      operationsRef,
+      isProcessingRef,
+      partNodes,
+      getRoot,
+      getNode,
+      findByObject,
+      renameNode,
+      cutParts,
+      sliceParts,
+      profileParts,
+      groupParts,
+      ungroupParts,
+      deleteParts,
+      setPartColor,
+      joinParts,
+      clearSelection,
+      syncParts,
+      touchParts,
+      captureEditor,
+      hideEditor,
+      restoreEditor,
+      showPristineModel,
+      pushCommand,
+      saveHistory,
+      restoreHistory,
+      clearHistory,
+      setError,
+    });
+
+  const {
+    exportSelectedPart,
+    exportAllParts,
+    exportCompression,
+    setExportCompression,
+    exportFormatId,
+    setExportFormatId,
+  } = usePartExport({
+    objectPartsRef,
+    selectedPartsRef,
+    getRoot,
+    modelFrame,
+    setError,
+  });
 
   // Add to the useEffect that handles button click events
   useEffect(() => {
@@ -916,10 +1928,56 @@ const processMesh = (index: number) => {
   // Include the exportSelectedPart in the return
   return {
     performCut,
+    cutShape,
+    setCutShape,
+    performProfileCut,
     objectPartsRef,
     setupDragControls,
     toggleEditorMode,
     handleModelClick,
     exportSelectedPart,
+    exportAllParts,
+    exportCompression,
+    setExportCompression,
+    exportFormatId,
+    setExportFormatId,
+    cutSections,
+    partNodes,
+    partDetails,
+    renamePart,
+    setPartColor,
+    setPartVisible,
+    setPartLocked,
+    selectedPartIds,
+    selectPartById,
+    selectPartsInArea,
+    groupSelectedParts,
+    ungroupSelectedParts,
+    deleteSelectedParts,
+    joinSelectedParts,
+    getProjectState,
+    replayProject,
+    operations,
+    editCut,
+    editSlice,
+    getOperationBounds,
+    getOperationExtent,
+    undoLastOperation,
+    redoLastOperation,
+    undoLabel,
+    redoLabel,
+    resetEditor,
+    previewCuttingPlane,
+    getCutBounds,
+    planeGizmoMode,
+    setPlaneGizmoTransformMode,
+    applyPlaneGizmo,
+    cancelPlaneGizmo: removePlaneGizmo,
+    cutProgress,
+    cancelCut,
+    drawnSliceDirection,
+    getSliceExtent,
+    previewSlices,
+    performSlice,
   };
 }
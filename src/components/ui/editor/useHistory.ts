@@ -0,0 +1,89 @@
+import { useCallback, useRef, useState } from "react";
+
+// A reversible editor operation. Commands are pushed after they have been
+// performed, so `redo` only runs when stepping forward through the history.
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+const MAX_HISTORY = 100;
+
+export function useHistory() {
+  const undoStackRef = useRef<HistoryCommand[]>([]);
+  const redoStackRef = useRef<HistoryCommand[]>([]);
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+
+  const publish = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    const redoStack = redoStackRef.current;
+    setUndoLabel(
+      undoStack.length > 0 ? undoStack[undoStack.length - 1].label : null
+    );
+    setRedoLabel(
+      redoStack.length > 0 ? redoStack[redoStack.length - 1].label : null
+    );
+  }, []);
+
+  const pushCommand = useCallback(
+    (command: HistoryCommand) => {
+      undoStackRef.current.push(command);
+      if (undoStackRef.current.length > MAX_HISTORY) {
+        undoStackRef.current.shift();
+      }
+      redoStackRef.current = [];
+      publish();
+    },
+    [publish]
+  );
+
+  const undo = useCallback(() => {
+    const command = undoStackRef.current.pop();
+    if (!command) return null;
+    command.undo();
+    redoStackRef.current.push(command);
+    publish();
+    return command;
+  }, [publish]);
+
+  const redo = useCallback(() => {
+    const command = redoStackRef.current.pop();
+    if (!command) return null;
+    command.redo();
+    undoStackRef.current.push(command);
+    publish();
+    return command;
+  }, [publish]);
+
+  // The undo stack as it is, to put back with restoreHistory after running
+  // operations that should not be recorded one by one
+  const saveHistory = useCallback(() => [...undoStackRef.current], []);
+
+  const restoreHistory = useCallback(
+    (undoStack: HistoryCommand[]) => {
+      undoStackRef.current = [...undoStack];
+      redoStackRef.current = [];
+      publish();
+    },
+    [publish]
+  );
+
+  const clearHistory = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    publish();
+  }, [publish]);
+
+  return {
+    undoLabel,
+    redoLabel,
+    pushCommand,
+    undo,
+    redo,
+    saveHistory,
+    restoreHistory,
+    clearHistory,
+  };
+}
@@ -0,0 +1,390 @@
+import { useCallback, useEffect, useRef, useState, RefObject } from "react";
+import * as THREE from "three";
+import { CSS2DObject } from "three/examples/jsm/renderers/CSS2DRenderer";
+import { EditorMode } from "./useMouseHandlers";
+import { CutSection } from "./crossSection";
+import {
+  formatArea,
+  formatLength,
+  IDENTITY_FRAME,
+  ModelFrame,
+  toModelArea,
+  toModelLength,
+} from "./units";
+
+export type MeasureTool = "distance" | "angle";
+
+// What a picked point was snapped to
+export type SnapKind = "vertex" | "edge" | "surface";
+
+export interface MeasurePoint {
+  position: THREE.Vector3;
+  snap: SnapKind;
+}
+
+// A distance between two points, or the angle at the middle one of three
+export interface Measurement {
+  id: number;
+  tool: MeasureTool;
+  points: MeasurePoint[];
+}
+
+interface UseMeasurementsProps {
+  sceneRef: RefObject<THREE.Scene | null>;
+  cameraRef: RefObject<THREE.PerspectiveCamera | null>;
+  rendererRef: RefObject<THREE.WebGLRenderer | null>;
+  // Objects points can be picked on
+  getTargets: () => THREE.Object3D[];
+  editorMode: EditorMode;
+  modelFrame: ModelFrame | null;
+  cutSections: CutSection[];
+}
+
+export const POINTS_PER_TOOL: Record<MeasureTool, number> = {
+  distance: 2,
+  angle: 3,
+};
+
+// Pointer travel in pixels up to which a press counts as a click rather
+// than the start of an orbit
+const CLICK_TOLERANCE = 4;
+
+// Screen distance in pixels within which points snap to vertices and edges
+const SNAP_DISTANCE = 10;
+
+const SNAP_COLORS: Record<SnapKind, number> = {
+  vertex: 0x00ff88,
+  edge: 0xffcc00,
+  surface: 0xffffff,
+};
+
+const OVERLAY_COLOR = 0x00ccff;
+
+// Length or angle of a measurement, with its unit
+export function describeMeasurement(
+  { tool, points }: Measurement,
+  frame: ModelFrame
+): string {
+  const [a, b, c] = points.map(({ position }) => position);
+  if (tool === "distance") {
+    return formatLength(toModelLength(frame, a.distanceTo(b)), frame.unit);
+  }
+  const angle = a.clone().sub(b).angleTo(c.clone().sub(b));
+  return `${Number(THREE.MathUtils.radToDeg(angle).toFixed(1))}°`;
+}
+
+export function describeSection(section: CutSection, frame: ModelFrame) {
+  return (
+    `${formatArea(toModelArea(frame, section.area), frame.unit)}, ` +
+    `perimeter ${formatLength(
+      toModelLength(frame, section.perimeter),
+      frame.unit
+    )}`
+  );
+}
+
+// Move a picked surface point onto a corner or edge of the hit triangle
+// when one is close to it on screen
+const snapIntersection = (
+  hit: THREE.Intersection,
+  camera: THREE.Camera,
+  canvas: HTMLCanvasElement
+): MeasurePoint => {
+  const mesh = hit.object;
+  const surface: MeasurePoint = {
+    position: hit.point.clone(),
+    snap: "surface",
+  };
+  if (!(mesh instanceof THREE.Mesh) || !hit.face) return surface;
+
+  const toScreen = (point: THREE.Vector3) => {
+    const projected = point.clone().project(camera);
+    return new THREE.Vector2(
+      ((projected.x + 1) / 2) * canvas.clientWidth,
+      ((1 - projected.y) / 2) * canvas.clientHeight
+    );
+  };
+  const hitOnScreen = toScreen(hit.point);
+  const position = mesh.geometry.attributes.position;
+  const corners = [hit.face.a, hit.face.b, hit.face.c].map((index) =>
+    new THREE.Vector3()
+      .fromBufferAttribute(position, index)
+      .applyMatrix4(mesh.matrixWorld)
+  );
+
+  let best: MeasurePoint | null = null;
+  let bestDistance = SNAP_DISTANCE;
+  corners.forEach((corner) => {
+    const distance = toScreen(corner).distanceTo(hitOnScreen);
+    if (distance <= bestDistance) {
+      best = { position: corner, snap: "vertex" };
+      bestDistance = distance;
+    }
+  });
+  if (best) return best;
+
+  bestDistance = SNAP_DISTANCE;
+  corners.forEach((corner, i) => {
+    const onEdge = new THREE.Line3(
+      corner,
+      corners[(i + 1) % 3]
+    ).closestPointToPoint(hit.point, true, new THREE.Vector3());
+    const distance = toScreen(onEdge).distanceTo(hitOnScreen);
+    if (distance <= bestDistance) {
+      best = { position: onEdge, snap: "edge" };
+      bestDistance = distance;
+    }
+  });
+  return best || surface;
+};
+
+const createMarkers = (points: MeasurePoint[]) => {
+  const geometry = new THREE.BufferGeometry().setFromPoints(
+    points.map(({ position }) => position)
+  );
+  geometry.setAttribute(
+    "color",
+    new THREE.Float32BufferAttribute(
+      points.flatMap(({ snap }) =>
+        new THREE.Color(SNAP_COLORS[snap]).toArray()
+      ),
+      3
+    )
+  );
+  const markers = new THREE.Points(
+    geometry,
+    new THREE.PointsMaterial({
+      size: 8,
+      sizeAttenuation: false,
+      vertexColors: true,
+      depthTest: false,
+    })
+  );
+  markers.renderOrder = 1000;
+  return markers;
+};
+
+const createPolyline = (points: MeasurePoint[]) => {
+  const line = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints(
+      points.map(({ position }) => position)
+    ),
+    new THREE.LineBasicMaterial({ color: OVERLAY_COLOR, depthTest: false })
+  );
+  line.renderOrder = 999;
+  return line;
+};
+
+const createLabel = (text: string, position: THREE.Vector3, className = "") => {
+  const element = document.createElement("div");
+  element.className = `px-1 rounded bg-gray-900 bg-opacity-75 text-xs whitespace-nowrap ${
+    className || "text-white"
+  }`;
+  element.textContent = text;
+  const label = new CSS2DObject(element);
+  label.position.copy(position);
+  return label;
+};
+
+// Remove an overlay and free its GPU resources. Labels are detached one by
+// one so the label renderer drops their elements.
+const disposeOverlay = (overlay: THREE.Object3D) => {
+  overlay.removeFromParent();
+  [...overlay.children].forEach((child) => {
+    overlay.remove(child);
+    if (child instanceof THREE.Line || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+};
+
+export function useMeasurements({
+  sceneRef,
+  cameraRef,
+  rendererRef,
+  getTargets,
+  editorMode,
+  modelFrame,
+  cutSections,
+}: UseMeasurementsProps) {
+  const [measureTool, setTool] = useState<MeasureTool>("distance");
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // Points picked for the measurement in progress
+  const [pendingPoints, setPendingPoints] = useState<MeasurePoint[]>([]);
+  const pendingPointsRef = useRef<MeasurePoint[]>([]);
+  const measureToolRef = useRef<MeasureTool>("distance");
+  const nextIdRef = useRef(1);
+
+  const updatePendingPoints = useCallback((points: MeasurePoint[]) => {
+    pendingPointsRef.current = points;
+    setPendingPoints(points);
+  }, []);
+
+  const setMeasureTool = useCallback(
+    (tool: MeasureTool) => {
+      measureToolRef.current = tool;
+      setTool(tool);
+      updatePendingPoints([]);
+    },
+    [updatePendingPoints]
+  );
+
+  const cancelMeasurement = useCallback(
+    () => updatePendingPoints([]),
+    [updatePendingPoints]
+  );
+
+  const removeMeasurement = useCallback((id: number) => {
+    setMeasurements((previous) => previous.filter((m) => m.id !== id));
+  }, []);
+
+  const clearMeasurements = useCallback(() => {
+    setMeasurements([]);
+    updatePendingPoints([]);
+  }, [updatePendingPoints]);
+
+  const addPoint = useCallback(
+    (point: MeasurePoint) => {
+      const points = [...pendingPointsRef.current, point];
+      const tool = measureToolRef.current;
+      if (points.length < POINTS_PER_TOOL[tool]) {
+        updatePendingPoints(points);
+        return;
+      }
+      const measurement = { id: nextIdRef.current++, tool, points };
+      setMeasurements((previous) => [...previous, measurement]);
+      updatePendingPoints([]);
+    },
+    [updatePendingPoints]
+  );
+
+  // Snapped point under the pointer, or null when nothing is hit
+  const pickPoint = useCallback(
+    (event: PointerEvent): MeasurePoint | null => {
+      const camera = cameraRef.current;
+      const canvas = rendererRef.current?.domElement;
+      if (!camera || !canvas) return null;
+
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      const raycaster = new THREE.Raycaster();
+      raycaster.setFromCamera(pointer, camera);
+      const [hit] = raycaster.intersectObjects(getTargets(), true);
+      return hit ? snapIntersection(hit, camera, canvas) : null;
+    },
+    [cameraRef, rendererRef, getTargets]
+  );
+
+  // Pick points with clicks and show where the next one would snap to
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    const scene = sceneRef.current;
+    if (editorMode !== EditorMode.Measure || !canvas || !scene) return;
+
+    let hover: THREE.Points | null = null;
+    const showHover = (point: MeasurePoint | null) => {
+      if (hover) disposeOverlay(hover);
+      hover = null;
+      if (!point) return;
+      hover = createMarkers([point]);
+      scene.add(hover);
+    };
+
+    let pressedAt: THREE.Vector2 | null = null;
+    const handlePointerDown = (event: PointerEvent) => {
+      pressedAt =
+        event.button === 0
+          ? new THREE.Vector2(event.clientX, event.clientY)
+          : null;
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+      const moved = pressedAt
+        ? pressedAt.distanceTo(new THREE.Vector2(event.clientX, event.clientY))
+        : Infinity;
+      pressedAt = null;
+      if (moved > CLICK_TOLERANCE) return;
+      const point = pickPoint(event);
+      if (point) addPoint(point);
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!pressedAt) showHover(pickPoint(event));
+    };
+    const handlePointerLeave = () => showHover(null);
+
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointerup", handlePointerUp);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+    return () => {
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointerup", handlePointerUp);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      showHover(null);
+    };
+  }, [editorMode, sceneRef, rendererRef, pickPoint, addPoint]);
+
+  // Lines, markers and labels of every measurement and cut section, shown
+  // while measuring
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (editorMode !== EditorMode.Measure || !scene) return;
+    const frame = modelFrame || IDENTITY_FRAME;
+
+    const overlay = new THREE.Group();
+    overlay.name = "MeasurementOverlay";
+
+    measurements.forEach((measurement) => {
+      const positions = measurement.points.map(({ position }) => position);
+      overlay.add(
+        createPolyline(measurement.points),
+        createMarkers(measurement.points),
+        createLabel(
+          describeMeasurement(measurement, frame),
+          measurement.tool === "distance"
+            ? positions[0].clone().lerp(positions[1], 0.5)
+            : positions[1]
+        )
+      );
+    });
+
+    if (pendingPoints.length > 0) {
+      overlay.add(createMarkers(pendingPoints));
+      if (pendingPoints.length > 1) overlay.add(createPolyline(pendingPoints));
+    }
+
+    cutSections.forEach((section) =>
+      overlay.add(
+        createLabel(
+          `${section.part}: ${describeSection(section, frame)}`,
+          section.center,
+          "text-yellow-300"
+        )
+      )
+    );
+
+    scene.add(overlay);
+    return () => disposeOverlay(overlay);
+  }, [
+    editorMode,
+    sceneRef,
+    modelFrame,
+    measurements,
+    pendingPoints,
+    cutSections,
+  ]);
+
+  return {
+    measureTool,
+    setMeasureTool,
+    measurements,
+    pendingPointCount: pendingPoints.length,
+    cancelMeasurement,
+    removeMeasurement,
+    clearMeasurements,
+  };
+}
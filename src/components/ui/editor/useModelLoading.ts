@@ -1,23 +1,52 @@
 import { useCallback, useState, useRef, useEffect } from 'react';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { cloneMaterial } from './planeCutter';
+import {
+  checkModelFile,
+  createResourceManager,
+  ModelResources,
+} from './modelFormats';
+import { defaultUnitForFormat, LengthUnit, ModelFrame } from './units';
 
 interface UseModelLoadingProps {
   sceneRef: React.MutableRefObject<THREE.Scene | null>;
+  rendererRef?: React.MutableRefObject<THREE.WebGLRenderer | null>;
   initialFile?: File;
+  initialResources?: ModelResources;
 }
 
-export function useModelLoading({ sceneRef, initialFile }: UseModelLoadingProps) {
+// Deep copy of a model with its own materials; geometry is shared since
+// cutting never modifies the source geometry
+const cloneModel = (source: THREE.Object3D) => {
+  const copy = source.clone(true);
+  copy.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.material = cloneMaterial(object.material);
+    }
+  });
+  return copy;
+};
+
+export function useModelLoading({ sceneRef, rendererRef, initialFile, initialResources }: UseModelLoadingProps) {
   const [modelLoaded, setModelLoaded] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const modelRef = useRef<THREE.Object3D | null>(null);
+  // Untouched copy of the normalized model, used to reset the editor
+  const pristineModelRef = useRef<THREE.Object3D | null>(null);
+  // Releases the object URLs of the current model's companion files
+  const disposeResourcesRef = useRef<(() => void) | null>(null);
+  // Where the file's coordinates sit in the scene, and the unit they are in
+  const [modelFrame, setModelFrame] = useState<ModelFrame | null>(null);
+  // Files the current model was loaded from, kept for saving projects
+  const modelSourceRef = useRef<{ file: File; resources: ModelResources } | null>(null);
 
-  // Load model function
-  const loadModel = useCallback((file: File) => {
+  // Load model function. Resolves to the model once it is in the scene, or
+  // to null if it could not be loaded.
+  const loadModel = useCallback((file: File, resources: ModelResources = {}): Promise<THREE.Object3D | null> => {
     if (!sceneRef.current) {
       setError("Scene not initialized");
-      return;
+      return Promise.resolve(null);
     }
   
     setError(null);
@@ -36,83 +65,145 @@ export function useModelLoading({ sceneRef, initialFile }: UseModelLoadingProps)
       sceneRef.current.remove(modelRef.current);
       modelRef.current = null;
     }
+    disposeResourcesRef.current?.();
+    disposeResourcesRef.current = null;
   
-    // Create object URL for the file
-    const objectUrl = URL.createObjectURL(file);
-  
-    // Load the model with GLTFLoader
-    const loader = new GLTFLoader();
-  
-    loader.load(
-      objectUrl,
-      (gltf) => {
-        // Success callback
-        const model = gltf.scene;
-  
+    // Read the file ourselves so progress works for every format
+    const reader = new FileReader();
+    reader.onprogress = (progress) => {
+      if (progress.lengthComputable) {
+        const progressPercent = Math.round(
+          (progress.loaded / progress.total) * 100
+        );
+        setLoadingProgress(progressPercent);
+      }
+    };
+    const readFile = new Promise<ArrayBuffer>((resolve, reject) => {
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+    });
+    reader.readAsArrayBuffer(file);
+
+    return checkModelFile(file).then(async ({ format, error }) => {
+      if (!format) {
+        reader.abort();
+        setError(error);
+        return null;
+      }
+
+      const { manager, missing, dispose } = createResourceManager(resources);
+      disposeResourcesRef.current = dispose;
+      const missingNote = () =>
+        missing.size > 0
+          ? ` Missing files: ${Array.from(missing).join(', ')}.`
+          : '';
+
+      try {
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        const model = await format.parse(await readFile, {
+          name: baseName,
+          manager,
+          renderer: rendererRef?.current ?? null,
+        });
+        if (!model.name) model.name = baseName;
+
         // Mark the entire model and all its children as original
         model.userData.isOriginalModel = true;
         model.traverse((object) => {
           object.userData.isOriginalModel = true;
         });
-  
+
         // Center the model
         const box = new THREE.Box3().setFromObject(model);
+        if (box.isEmpty()) {
+          throw new Error("the file contains no geometry");
+        }
         const center = box.getCenter(new THREE.Vector3());
         const size = box.getSize(new THREE.Vector3());
-  
-        // Normalize model size
+
+        // Fit the model to the view. This only affects the scene; lengths
+        // are shown and exported in the file's own units.
         const maxDim = Math.max(size.x, size.y, size.z);
         const scale = 2 / maxDim;
         model.scale.set(scale, scale, scale);
-  
+
         // Center model
         model.position.x = -center.x * scale;
         model.position.y = -center.y * scale;
         model.position.z = -center.z * scale;
-  
+
+        pristineModelRef.current = cloneModel(model);
+
         // Add model to scene
         if (sceneRef.current) {
           sceneRef.current.add(model);
           modelRef.current = model;
+          modelSourceRef.current = { file, resources };
+          setModelFrame({
+            scale,
+            offset: model.position.clone(),
+            unit: defaultUnitForFormat(format.label),
+          });
           setModelLoaded(true);
           setLoadingProgress(100);
-        } else {
-          setError("Failed to add model to scene");
-        }
-  
-        // Clean up object URL
-        URL.revokeObjectURL(objectUrl);
-      },
-      (progress) => {
-        // Progress callback
-        if (progress.lengthComputable) {
-          const progressPercent = Math.round(
-            (progress.loaded / progress.total) * 100
-          );
-          setLoadingProgress(progressPercent);
+          if (missing.size > 0) {
+            setError(`Model loaded without some referenced files.${missingNote()}`);
+          }
+          return model;
         }
-      },
-      (error) => {
-        // Error callback
-        console.error("Error loading model:", error);
-        setError("Failed to load the 3D model. Please try a different file.");
-        URL.revokeObjectURL(objectUrl);
+        setError("Failed to add model to scene");
+        return null;
+      } catch (loadError) {
+        console.error("Error loading model:", loadError);
+        const reason =
+          (loadError instanceof Error ? loadError.message : String(loadError))
+            .replace(/\.$/, '');
+        setError(
+          `Failed to load the ${format.label} file: ${reason}.${missingNote()}`
+        );
+        return null;
       }
-    );
-  }, [sceneRef]);
+    });
+  }, [sceneRef, rendererRef]);
+
+  // Fresh copy of the model exactly as it was loaded, with its original
+  // transform, materials and normalization
+  const createPristineModel = useCallback((): THREE.Object3D | null => {
+    if (!pristineModelRef.current) return null;
+    const model = cloneModel(pristineModelRef.current);
+    model.userData.isOriginalModel = true;
+    model.traverse((object) => {
+      object.userData.isOriginalModel = true;
+    });
+    return model;
+  }, []);
 
   // Load model when initialFile changes
   useEffect(() => {
     if (initialFile && sceneRef.current) {
-      loadModel(initialFile);
+      loadModel(initialFile, initialResources);
     }
-  }, [initialFile, sceneRef, loadModel]);
+  }, [initialFile, initialResources, sceneRef, loadModel]);
+
+  // The unit the file's coordinates are in, as chosen by the user
+  const setModelUnit = useCallback((unit: LengthUnit) => {
+    setModelFrame((frame) => (frame ? { ...frame, unit } : frame));
+  }, []);
+
+  const getModelSource = useCallback(() => modelSourceRef.current, []);
+
+  // Release the companion files' URLs with the editor
+  useEffect(() => () => disposeResourcesRef.current?.(), []);
 
   return {
     modelRef,
     modelLoaded,
     loadingProgress,
     error,
-    loadModel
+    loadModel,
+    createPristineModel,
+    modelFrame,
+    setModelUnit,
+    getModelSource
   };
 }
\ No newline at end of file
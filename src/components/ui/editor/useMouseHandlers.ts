@@ -6,8 +6,14 @@ export enum EditorMode {
   View,
   Cut,
   Move,
+  Slice,
+  Measure,
 }
 
+// Modes in which dragging on the canvas orbits the camera
+export const allowsOrbit = (mode: EditorMode) =>
+  mode === EditorMode.View || mode === EditorMode.Measure;
+
 interface UseMouseHandlersProps {
   canvasRef: RefObject<HTMLDivElement>;
   sceneRef: RefObject<THREE.Scene | null>;
@@ -0,0 +1,363 @@
+import { useCallback, RefObject } from "react";
+import * as THREE from "three";
+import { JointOptions } from "./jointPlacement";
+import { SlabSeparator } from "./planeCutter";
+import { CutProfile } from "./profileCutter";
+import {
+  applyProjectTransform,
+  fromProjectPlane,
+  fromProjectProfile,
+  Project,
+  ProjectOperation,
+  ProjectPartRef,
+  ProjectState,
+  toProjectPlane,
+  toProjectTransform,
+} from "./projectFile";
+import { HistoryCommand } from "./useHistory";
+import { PartNode, PartTreeSnapshot } from "./usePartTree";
+
+// Everything the editor shows, kept so a reset or a recomputed history can
+// be undone
+export interface EditorSnapshot {
+  model: THREE.Object3D | null;
+  modelParent: THREE.Object3D | null;
+  parts: THREE.Object3D[];
+  tree: PartTreeSnapshot;
+  cutCount: number;
+  operations: ProjectOperation[];
+}
+
+interface UseOperationReplayProps {
+  sceneRef: RefObject<THREE.Scene | null>;
+  modelRef: RefObject<THREE.Object3D | null>;
+  createPristineModel: () => THREE.Object3D | null;
+  // Operations applied so far, in order
+  operationsRef: RefObject<ProjectOperation[]>;
+  isProcessingRef: RefObject<boolean>;
+  partNodes: PartNode[];
+  getRoot: () => PartNode | null;
+  getNode: (id: string) => PartNode | null;
+  findByObject: (object: THREE.Object3D) => PartNode | null;
+  renameNode: (id: string, name: string) => void;
+  cutParts: (targets: THREE.Object3D[], plane: THREE.Plane) => Promise<void>;
+  sliceParts: (
+    targets: THREE.Object3D[],
+    separators: SlabSeparator[]
+  ) => Promise<void>;
+  profileParts: (
+    targets: THREE.Object3D[],
+    profile: CutProfile
+  ) => Promise<void>;
+  groupParts: (parts: THREE.Object3D[]) => THREE.Object3D | null;
+  ungroupParts: (parts: THREE.Object3D[]) => boolean;
+  deleteParts: (parts: THREE.Object3D[]) => void;
+  setPartColor: (id: string, color: string) => void;
+  joinParts: (parts: THREE.Object3D[], options: JointOptions) => void;
+  clearSelection: () => void;
+  syncParts: () => void;
+  touchParts: () => void;
+  captureEditor: () => EditorSnapshot;
+  hideEditor: (snapshot: EditorSnapshot) => void;
+  restoreEditor: (snapshot: EditorSnapshot) => void;
+  // Put a freshly loaded model in the scene, without parts or operations
+  showPristineModel: (model: THREE.Object3D) => void;
+  pushCommand: (command: HistoryCommand) => void;
+  saveHistory: () => HistoryCommand[];
+  restoreHistory: (undoStack: HistoryCommand[]) => void;
+  clearHistory: () => void;
+  setError: (error: string | null) => void;
+}
+
+// Operations applied to the model again: when a project is opened, and
+// when an earlier cut or slice is edited and everything after it is
+// computed anew
+export function useOperationReplay({
+  sceneRef,
+  modelRef,
+  createPristineModel,
+  operationsRef,
+  isProcessingRef,
+  partNodes,
+  getRoot,
+  getNode,
+  findByObject,
+  renameNode,
+  cutParts,
+  sliceParts,
+  profileParts,
+  groupParts,
+  ungroupParts,
+  deleteParts,
+  setPartColor,
+  joinParts,
+  clearSelection,
+  syncParts,
+  touchParts,
+  captureEditor,
+  hideEditor,
+  restoreEditor,
+  showPristineModel,
+  pushCommand,
+  saveHistory,
+  restoreHistory,
+  clearHistory,
+  setError,
+}: UseOperationReplayProps) {
+  // Everything a project file records about the session besides the model
+  const getProjectState = useCallback(
+    (): Pick<Project, "rootId" | "operations" | "parts"> => ({
+      rootId: getRoot()?.id || null,
+      operations: [...operationsRef.current],
+      parts: partNodes
+        .filter((node) => !node.deleted)
+        .map(({ id, name, object }) => ({
+          id,
+          name,
+          visible: object.visible,
+          locked: Boolean(object.userData.locked),
+          transform: toProjectTransform(object),
+        })),
+    }),
+    [operationsRef, getRoot, partNodes]
+  );
+
+  // Rebuild a saved session on the freshly loaded model. The operations are
+  // applied again in order, placing each part where it was when the
+  // operation was made, then the parts get their saved names, flags and
+  // transforms. The history starts out empty afterwards.
+  const replayProject = useCallback(
+    async ({
+      rootId,
+      operations,
+      parts,
+    }: Pick<ProjectState, "rootId" | "operations" | "parts">) => {
+      const model = modelRef.current;
+      if (!model) throw new Error("No model loaded");
+
+      // Parts of this session by their id in the saved one
+      const objects = new Map<string, THREE.Object3D>();
+      if (rootId) objects.set(rootId, model);
+      const partFor = (id: string) => {
+        const part = objects.get(id);
+        if (!part) throw new Error("The project refers to an unknown part");
+        return part;
+      };
+      // A deleted or ungrouped part leaves no node behind
+      const nodeFor = (id: string) => {
+        const node = findByObject(partFor(id));
+        if (!node) throw new Error("The project refers to an unknown part");
+        return node;
+      };
+      const placeParts = (refs: ProjectPartRef[]) =>
+        refs.map(({ id, transform }) => {
+          const part = partFor(id);
+          applyProjectTransform(part, transform);
+          return part;
+        });
+
+      for (const operation of operations) {
+        switch (operation.type) {
+          case "cut":
+          case "slice":
+          case "profile": {
+            const targets = placeParts(operation.parts);
+            if (operation.type === "cut") {
+              await cutParts(targets, fromProjectPlane(operation.plane));
+            } else if (operation.type === "slice") {
+              await sliceParts(
+                targets,
+                operation.separators.map(({ start, end }) => ({
+                  start: fromProjectPlane(start),
+                  end: fromProjectPlane(end),
+                }))
+              );
+            } else {
+              await profileParts(
+                targets,
+                fromProjectProfile(operation.profile)
+              );
+            }
+            // Pieces come out in the same order as when the operation was
+            // made. An edited slice may leave more or fewer of them.
+            operation.parts.forEach(({ pieces }, i) => {
+              const node = findByObject(targets[i]);
+              if (!node || node.childIds.length === 0) {
+                throw new Error(
+                  `${targets[i].name || "A part"} is no longer divided`
+                );
+              }
+              node.childIds
+                .slice(0, pieces.length)
+                .forEach((childId, j) =>
+                  objects.set(pieces[j], getNode(childId)!.object)
+                );
+            });
+            break;
+          }
+          case "group": {
+            const group = groupParts(placeParts(operation.members));
+            if (!group) throw new Error("A saved group could not be made");
+            objects.set(operation.id, group);
+            break;
+          }
+          case "ungroup":
+            ungroupParts(placeParts(operation.groups));
+            break;
+          case "delete":
+            deleteParts(operation.ids.map(partFor));
+            break;
+          case "color":
+            setPartColor(nodeFor(operation.id).id, operation.color);
+            break;
+          case "joint":
+            joinParts(placeParts(operation.parts), operation.options);
+            break;
+        }
+      }
+
+      parts.forEach(({ id, name, visible, locked, transform }) => {
+        const part = objects.get(id);
+        const node = part && findByObject(part);
+        if (!part || !node) return;
+        renameNode(node.id, name);
+        part.visible = visible;
+        part.userData.locked = locked;
+        applyProjectTransform(part, transform);
+      });
+
+      clearSelection();
+      syncParts();
+      touchParts();
+      clearHistory();
+    },
+    [
+      modelRef,
+      cutParts,
+      sliceParts,
+      profileParts,
+      findByObject,
+      getNode,
+      groupParts,
+      ungroupParts,
+      deleteParts,
+      setPartColor,
+      joinParts,
+      renameNode,
+      clearSelection,
+      syncParts,
+      touchParts,
+      clearHistory,
+    ]
+  );
+
+  // Give an earlier cut or slice new planes and compute it and every later
+  // operation again from the model as loaded, like a feature tree. Parts
+  // keep their names, flags and places where they still exist. The undo
+  // history is kept, with one more step that brings back the parts as they
+  // were before the edit.
+  const recomputeOperations = useCallback(
+    async (index: number, edited: ProjectOperation) => {
+      const freshModel = createPristineModel();
+      if (!freshModel || !sceneRef.current) {
+        setError("No model loaded to recompute");
+        return;
+      }
+
+      const before = captureEditor();
+      const state = getProjectState();
+      const history = saveHistory();
+      const operations = state.operations.map((operation, i) =>
+        i === index ? edited : operation
+      );
+
+      hideEditor(before);
+      showPristineModel(freshModel);
+
+      try {
+        await replayProject({ ...state, operations });
+      } catch (err) {
+        console.error("Error recomputing the cuts:", err);
+        hideEditor(captureEditor());
+        restoreEditor(before);
+        restoreHistory(history);
+        setError(
+          `Could not recompute the cuts: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`
+        );
+        return;
+      }
+
+      const after = captureEditor();
+      restoreHistory(history);
+      pushCommand({
+        label: `Edit ${edited.type} #${index + 1}`,
+        undo: () => {
+          hideEditor(after);
+          restoreEditor(before);
+        },
+        redo: () => {
+          hideEditor(before);
+          restoreEditor(after);
+        },
+      });
+
+      const later = operations.length - index - 1;
+      setError(
+        later > 0
+          ? `Recomputed ${edited.type} #${index + 1} and ${later} later operations.`
+          : `Recomputed ${edited.type} #${index + 1}.`
+      );
+      setTimeout(() => setError(null), 3000);
+    },
+    [
+      sceneRef,
+      createPristineModel,
+      setError,
+      captureEditor,
+      hideEditor,
+      restoreEditor,
+      getProjectState,
+      saveHistory,
+      restoreHistory,
+      showPristineModel,
+      replayProject,
+      pushCommand,
+    ]
+  );
+
+  const editCut = useCallback(
+    (index: number, plane: THREE.Plane) => {
+      const operation = operationsRef.current[index];
+      if (isProcessingRef.current || operation?.type !== "cut") return;
+      recomputeOperations(index, {
+        ...operation,
+        plane: toProjectPlane(plane),
+      });
+    },
+    [operationsRef, isProcessingRef, recomputeOperations]
+  );
+
+  const editSlice = useCallback(
+    (index: number, separators: SlabSeparator[]) => {
+      const operation = operationsRef.current[index];
+      if (isProcessingRef.current || operation?.type !== "slice") return;
+      recomputeOperations(index, {
+        ...operation,
+        separators: separators.map(({ start, end }) => ({
+          start: toProjectPlane(start),
+          end: toProjectPlane(end),
+        })),
+      });
+    },
+    [operationsRef, isProcessingRef, recomputeOperations]
+  );
+
+  return {
+    getProjectState,
+    replayProject,
+    editCut,
+    editSlice,
+  };
+}
@@ -0,0 +1,540 @@
+import { useCallback, useEffect, useRef, useState, RefObject } from "react";
+import * as THREE from "three";
+import { carveJoints } from "./joinery";
+import { JointOptions } from "./jointPlacement";
+import { computePartStats, PartStats } from "./partStats";
+import { cloneMaterial, collectMeshes } from "./planeCutter";
+import { ProjectOperation, toProjectTransform } from "./projectFile";
+import { HistoryCommand } from "./useHistory";
+import { EditorMode } from "./useMouseHandlers";
+import { PartNode, PartTreeSnapshot } from "./usePartTree";
+
+// A part as listed in the part inspector
+export interface PartDetails {
+  id: string;
+  name: string;
+  // Hex color of the part's first material
+  color: string;
+  visible: boolean;
+  locked: boolean;
+  stats: PartStats;
+}
+
+interface UsePartEditingProps {
+  sceneRef: RefObject<THREE.Scene | null>;
+  objectPartsRef: RefObject<THREE.Object3D[]>;
+  selectedPartsRef: RefObject<THREE.Object3D[]>;
+  editorModeRef: RefObject<EditorMode>;
+  partNodes: PartNode[];
+  // Bumped when parts change without the part tree changing
+  partsVersion: number;
+  getNode: (id: string) => PartNode | null;
+  findByObject: (object: THREE.Object3D) => PartNode | null;
+  renameNode: (id: string, name: string) => void;
+  groupNodes: (ids: string[], group: THREE.Object3D) => PartNode;
+  ungroupNode: (id: string) => PartNode[];
+  setNodesDeleted: (ids: string[], deleted: boolean) => void;
+  snapshotTree: () => PartTreeSnapshot;
+  restoreTree: (snapshot: PartTreeSnapshot) => void;
+  setupDragControls: (objects: THREE.Object3D[]) => void;
+  clearSelection: () => void;
+  applySelection: (parts: THREE.Object3D[]) => void;
+  syncParts: () => void;
+  touchParts: () => void;
+  getTargetsCenter: (targets: THREE.Object3D[]) => THREE.Vector3;
+  pushCommand: (command: HistoryCommand) => void;
+  logOperation: (operation: ProjectOperation, applied: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+const asArray = (material: THREE.Material | THREE.Material[]) =>
+  Array.isArray(material) ? material : [material];
+
+const colorOf = (material: THREE.Material): THREE.Color | null =>
+  "color" in material && material.color instanceof THREE.Color
+    ? material.color
+    : null;
+
+// Changes made to parts from the part inspector and the toolbar: renaming,
+// recoloring, hiding, locking, grouping, deleting and joining. Each one is
+// logged as an operation and can be undone.
+export function usePartEditing({
+  sceneRef,
+  objectPartsRef,
+  selectedPartsRef,
+  editorModeRef,
+  partNodes,
+  partsVersion,
+  getNode,
+  findByObject,
+  renameNode,
+  groupNodes,
+  ungroupNode,
+  setNodesDeleted,
+  snapshotTree,
+  restoreTree,
+  setupDragControls,
+  clearSelection,
+  applySelection,
+  syncParts,
+  touchParts,
+  getTargetsCenter,
+  pushCommand,
+  logOperation,
+  setError,
+}: UsePartEditingProps) {
+  const groupCountRef = useRef<number>(0);
+
+  // Name, color, visibility, lock state and measurements of every part,
+  // refreshed when parts are cut, moved or edited
+  const [partDetails, setPartDetails] = useState<PartDetails[]>([]);
+  useEffect(() => {
+    setPartDetails(
+      partNodes
+        .filter((node) => objectPartsRef.current.includes(node.object))
+        .map(({ id, name, object }) => {
+          const [mesh] = collectMeshes(object);
+          const color = mesh && colorOf(asArray(mesh.material)[0]);
+          return {
+            id,
+            name,
+            color: `#${color ? color.getHexString() : "ffffff"}`,
+            visible: object.visible,
+            locked: Boolean(object.userData.locked),
+            stats: computePartStats(object),
+          };
+        })
+    );
+  }, [objectPartsRef, partNodes, partsVersion]);
+
+  const renamePart = useCallback(
+    (id: string, name: string) => {
+      const node = getNode(id);
+      const next = name.trim();
+      if (!node || !next || next === node.name) return;
+
+      const previous = node.name;
+      renameNode(id, next);
+      pushCommand({
+        label: `Rename ${previous} to ${next}`,
+        undo: () => renameNode(id, previous),
+        redo: () => renameNode(id, next),
+      });
+    },
+    [getNode, renameNode, pushCommand]
+  );
+
+  // Give every material of a part the color. The materials are copied, as
+  // cut pieces share them with the part they come from.
+  const setPartColor = useCallback(
+    (id: string, color: string) => {
+      const node = getNode(id);
+      if (!node) return;
+
+      const previous = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+      const next = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+      collectMeshes(node.object).forEach((mesh) => {
+        const material = mesh.material;
+        const recolored = cloneMaterial(material);
+        asArray(recolored).forEach((copy) => colorOf(copy)?.set(color));
+        previous.set(mesh, material);
+        next.set(mesh, recolored);
+      });
+
+      const apply = (
+        materials: Map<THREE.Mesh, THREE.Material | THREE.Material[]>
+      ) => {
+        materials.forEach((material, mesh) => {
+          mesh.material = material;
+        });
+        touchParts();
+      };
+
+      const logged: ProjectOperation = { type: "color", id, color };
+      apply(next);
+      logOperation(logged, true);
+      pushCommand({
+        label: `Recolor ${node.name}`,
+        undo: () => {
+          apply(previous);
+          logOperation(logged, false);
+        },
+        redo: () => {
+          apply(next);
+          logOperation(logged, true);
+        },
+      });
+    },
+    [getNode, pushCommand, touchParts, logOperation]
+  );
+
+  // Change whether a part is shown or locked, refreshing the draggable parts
+  const setPartFlag = useCallback(
+    (id: string, flag: "visible" | "locked", value: boolean) => {
+      const node = getNode(id);
+      if (!node) return;
+
+      const part = node.object;
+      const apply = (enabled: boolean) => {
+        if (flag === "visible") {
+          part.visible = enabled;
+        } else {
+          part.userData.locked = enabled;
+        }
+        if (editorModeRef.current === EditorMode.Move) {
+          setupDragControls(objectPartsRef.current);
+        }
+        touchParts();
+      };
+
+      const previous =
+        flag === "visible" ? part.visible : Boolean(part.userData.locked);
+      if (previous === value) return;
+      apply(value);
+
+      const action = {
+        visible: value ? "Show" : "Hide",
+        locked: value ? "Lock" : "Unlock",
+      }[flag];
+      pushCommand({
+        label: `${action} ${node.name}`,
+        undo: () => apply(previous),
+        redo: () => apply(value),
+      });
+    },
+    [
+      objectPartsRef,
+      editorModeRef,
+      getNode,
+      setupDragControls,
+      pushCommand,
+      touchParts,
+    ]
+  );
+
+  const setPartVisible = useCallback(
+    (id: string, visible: boolean) => setPartFlag(id, "visible", visible),
+    [setPartFlag]
+  );
+
+  const setPartLocked = useCallback(
+    (id: string, locked: boolean) => setPartFlag(id, "locked", locked),
+    [setPartFlag]
+  );
+
+  // Gather parts into a new part that is moved, cut and exported as one
+  const groupParts = useCallback(
+    (parts: THREE.Object3D[]): THREE.Object3D | null => {
+      const scene = sceneRef.current;
+      if (!scene || parts.length < 2) return null;
+
+      const ids = parts.map((part) => findByObject(part)!.id);
+      const parents = parts.map((part) => part.parent || scene);
+      const members = parts.map((part, i) => ({
+        id: ids[i],
+        transform: toProjectTransform(part),
+      }));
+      const group = new THREE.Group();
+      group.name = `Group ${++groupCountRef.current}`;
+      group.position.copy(getTargetsCenter(parts));
+
+      const attach = () => {
+        scene.add(group);
+        parts.forEach((part) => group.attach(part));
+      };
+      const detach = () => {
+        parts.forEach((part, i) => parents[i].attach(part));
+        group.removeFromParent();
+      };
+
+      const before = snapshotTree();
+      clearSelection();
+      attach();
+      const { id } = groupNodes(ids, group);
+      syncParts();
+      applySelection([group]);
+      const after = snapshotTree();
+
+      const logged: ProjectOperation = { type: "group", id, members };
+      logOperation(logged, true);
+      pushCommand({
+        label: `Group ${parts.length} parts`,
+        undo: () => {
+          clearSelection();
+          detach();
+          restoreTree(before);
+          syncParts();
+          applySelection(parts);
+          logOperation(logged, false);
+        },
+        redo: () => {
+          clearSelection();
+          attach();
+          restoreTree(after);
+          syncParts();
+          applySelection([group]);
+          logOperation(logged, true);
+        },
+      });
+      return group;
+    },
+    [
+      sceneRef,
+      findByObject,
+      getTargetsCenter,
+      snapshotTree,
+      restoreTree,
+      clearSelection,
+      groupNodes,
+      syncParts,
+      applySelection,
+      pushCommand,
+      logOperation,
+    ]
+  );
+
+  const groupSelectedParts = useCallback(() => {
+    if (!groupParts(selectedPartsRef.current)) {
+      setError("Select at least two parts to group them.");
+    }
+  }, [selectedPartsRef, groupParts, setError]);
+
+  // Dissolve the groups among the parts, selecting their members instead.
+  // Returns whether there was a group to dissolve.
+  const ungroupParts = useCallback(
+    (parts: THREE.Object3D[]) => {
+      const groups = parts
+        .map((part) => findByObject(part))
+        .filter((node): node is PartNode => !!node && node.memberIds.length > 0)
+        .map((node) => ({
+          id: node.id,
+          group: node.object,
+          parent: node.object.parent,
+          members: node.memberIds.map((id) => getNode(id)!.object),
+        }));
+      if (groups.length === 0) return false;
+
+      const members = groups.flatMap((entry) => entry.members);
+      const dissolve = () =>
+        groups.forEach(({ group, parent, members }) => {
+          members.forEach((member) =>
+            (parent || member.parent)?.attach(member)
+          );
+          group.removeFromParent();
+        });
+      const reassemble = () =>
+        groups.forEach(({ group, parent, members }) => {
+          parent?.add(group);
+          members.forEach((member) => group.attach(member));
+        });
+
+      const logged: ProjectOperation = {
+        type: "ungroup",
+        groups: groups.map(({ id, group }) => ({
+          id,
+          transform: toProjectTransform(group),
+        })),
+      };
+
+      const before = snapshotTree();
+      clearSelection();
+      dissolve();
+      groups.forEach(({ id }) => ungroupNode(id));
+      syncParts();
+      applySelection(members);
+      const after = snapshotTree();
+
+      logOperation(logged, true);
+      pushCommand({
+        label:
+          groups.length > 1
+            ? `Ungroup ${groups.length} groups`
+            : `Ungroup ${groups[0].group.name}`,
+        undo: () => {
+          clearSelection();
+          reassemble();
+          restoreTree(before);
+          syncParts();
+          applySelection(groups.map(({ group }) => group));
+          logOperation(logged, false);
+        },
+        redo: () => {
+          clearSelection();
+          dissolve();
+          restoreTree(after);
+          syncParts();
+          applySelection(members);
+          logOperation(logged, true);
+        },
+      });
+      return true;
+    },
+    [
+      findByObject,
+      getNode,
+      snapshotTree,
+      restoreTree,
+      clearSelection,
+      ungroupNode,
+      syncParts,
+      applySelection,
+      pushCommand,
+      logOperation,
+    ]
+  );
+
+  const ungroupSelectedParts = useCallback(() => {
+    if (!ungroupParts(selectedPartsRef.current)) {
+      setError("Select a group to ungroup it.");
+    }
+  }, [selectedPartsRef, ungroupParts, setError]);
+
+  // Remove parts from the scene. Their tree nodes are only marked as
+  // deleted, so the parts come back on undo.
+  const deleteParts = useCallback(
+    (parts: THREE.Object3D[]) => {
+      const scene = sceneRef.current;
+      if (!scene || parts.length === 0) return;
+
+      const ids = parts.map((part) => findByObject(part)!.id);
+      const parents = parts.map((part) => part.parent || scene);
+      const logged: ProjectOperation = { type: "delete", ids };
+      const remove = () => {
+        clearSelection();
+        parts.forEach((part) => part.removeFromParent());
+        setNodesDeleted(ids, true);
+        syncParts();
+        logOperation(logged, true);
+      };
+
+      remove();
+      pushCommand({
+        label:
+          parts.length > 1
+            ? `Delete ${parts.length} parts`
+            : `Delete ${parts[0].name || "part"}`,
+        undo: () => {
+          parts.forEach((part, i) => parents[i].add(part));
+          setNodesDeleted(ids, false);
+          syncParts();
+          applySelection(parts);
+          logOperation(logged, false);
+        },
+        redo: remove,
+      });
+    },
+    [
+      sceneRef,
+      findByObject,
+      clearSelection,
+      setNodesDeleted,
+      syncParts,
+      applySelection,
+      pushCommand,
+      logOperation,
+    ]
+  );
+
+  const deleteSelectedParts = useCallback(() => {
+    if (selectedPartsRef.current.length === 0) {
+      setError("No parts selected to delete.");
+      return;
+    }
+    deleteParts(selectedPartsRef.current);
+  }, [selectedPartsRef, deleteParts, setError]);
+
+  // Carve joints into two pieces of a cut, across the face they were cut
+  // apart along. Throws when the parts share no cut face or it has no room
+  // for the joints.
+  const joinParts = useCallback(
+    (parts: THREE.Object3D[], options: JointOptions) => {
+      const nodes = parts.map((part) => findByObject(part));
+      if (parts.length !== 2 || nodes.some((node) => !node)) {
+        throw new Error("Joints go between two parts");
+      }
+      const logged: ProjectOperation = {
+        type: "joint",
+        parts: parts.map((part, i) => ({
+          id: nodes[i]!.id,
+          transform: toProjectTransform(part),
+        })),
+        options,
+      };
+
+      const next = carveJoints(parts[0], parts[1], options);
+      const previous = new Map<
+        THREE.Mesh,
+        {
+          geometry: THREE.BufferGeometry;
+          material: THREE.Material | THREE.Material[];
+        }
+      >();
+      next.forEach((_, mesh) =>
+        previous.set(mesh, { geometry: mesh.geometry, material: mesh.material })
+      );
+
+      const apply = (meshes: typeof previous) => {
+        meshes.forEach(({ geometry, material }, mesh) => {
+          mesh.geometry = geometry;
+          mesh.material = material;
+        });
+        touchParts();
+      };
+
+      apply(next);
+      logOperation(logged, true);
+      pushCommand({
+        label: `Join ${nodes[0]!.name} and ${nodes[1]!.name}`,
+        undo: () => {
+          apply(previous);
+          logOperation(logged, false);
+        },
+        redo: () => {
+          apply(next);
+          logOperation(logged, true);
+        },
+      });
+    },
+    [findByObject, touchParts, logOperation, pushCommand]
+  );
+
+  // The first selected part gets the pegs and tabs
+  const joinSelectedParts = useCallback(
+    (options: JointOptions) => {
+      const parts = selectedPartsRef.current;
+      if (parts.length !== 2) {
+        setError("Select the two pieces of a cut to join them.");
+        return;
+      }
+      try {
+        joinParts(parts, options);
+        setError(`Joints added between ${parts[0].name} and ${parts[1].name}.`);
+        setTimeout(() => setError(null), 3000);
+      } catch (err) {
+        console.error("Error adding joints:", err);
+        setError(
+          `Adding joints failed: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`
+        );
+      }
+    },
+    [selectedPartsRef, joinParts, setError]
+  );
+
+  return {
+    partDetails,
+    renamePart,
+    setPartColor,
+    setPartVisible,
+    setPartLocked,
+    groupParts,
+    groupSelectedParts,
+    ungroupParts,
+    ungroupSelectedParts,
+    deleteParts,
+    deleteSelectedParts,
+    joinParts,
+    joinSelectedParts,
+  };
+}
@@ -0,0 +1,159 @@
+import { useCallback, useState, RefObject } from "react";
+import * as THREE from "three";
+import { ExportCompression } from "./glbCompression";
+import {
+  downloadFile,
+  exportPart,
+  exportPartsAsGlb,
+  exportPartsAsZip,
+  findPartFileFormat,
+  PART_FILE_FORMATS,
+  PartPackaging,
+  zipFiles,
+} from "./partExport";
+import { PartNode } from "./usePartTree";
+import { IDENTITY_FRAME, ModelFrame } from "./units";
+
+interface UsePartExportProps {
+  objectPartsRef: RefObject<THREE.Object3D[]>;
+  selectedPartsRef: RefObject<THREE.Object3D[]>;
+  // The loaded model's node, which names the exported files
+  getRoot: () => PartNode | null;
+  modelFrame: ModelFrame | null;
+  setError: (error: string | null) => void;
+}
+
+// Downloads of the selected parts or of every part, in the format and with
+// the compression chosen in the export panel
+export function usePartExport({
+  objectPartsRef,
+  selectedPartsRef,
+  getRoot,
+  modelFrame,
+  setError,
+}: UsePartExportProps) {
+  const [exportCompression, setExportCompression] =
+    useState<ExportCompression>("none");
+  const [exportFormatId, setExportFormatId] = useState(PART_FILE_FORMATS[0].id);
+
+  const getExportOptions = useCallback(
+    () => ({
+      compression: exportCompression,
+      frame: modelFrame || IDENTITY_FRAME,
+    }),
+    [exportCompression, modelFrame]
+  );
+
+  // Download the selected part, or a ZIP of the selected parts in the chosen
+  // format when several are selected
+  const exportSelectedPart = useCallback(async () => {
+    const parts = selectedPartsRef.current;
+    if (parts.length === 0) {
+      setError("No part selected. Please click on a part to select it first.");
+      return;
+    }
+
+    const [part] = parts;
+    const partName = part.name || "part";
+    const format = findPartFileFormat(exportFormatId);
+    try {
+      if (parts.length > 1) {
+        const model = getRoot()?.name || "model";
+        const zip = await exportPartsAsZip(
+          model,
+          parts,
+          format,
+          getExportOptions()
+        );
+        downloadFile(
+          zip,
+          `${model.replace(/[^\w.-]+/g, "_")}_selection.zip`,
+          "application/zip"
+        );
+        setError(`Exported ${parts.length} selected parts.`);
+        setTimeout(() => setError(null), 3000);
+        return;
+      }
+
+      const files = await exportPart(part, format, getExportOptions());
+      // Formats with companion files, such as OBJ and its MTL, are zipped
+      if (files.length > 1) {
+        downloadFile(
+          zipFiles(files),
+          `${partName}_export.zip`,
+          "application/zip"
+        );
+      } else {
+        downloadFile(
+          files[0].data,
+          `${partName}_export.${format.extension}`,
+          format.mimeType
+        );
+      }
+      setError(`Successfully exported ${partName}.`);
+      setTimeout(() => setError(null), 3000);
+    } catch (err) {
+      console.error("Error exporting model:", err);
+      setError(
+        `Export failed: ${err instanceof Error ? err.message : "Unknown error"}`
+      );
+    }
+  }, [selectedPartsRef, exportFormatId, getExportOptions, getRoot, setError]);
+
+  // Download every part, either as one GLB with a node per part or as a ZIP
+  // of per-part files; both come with a manifest of names, bounds and volumes
+  const exportAllParts = useCallback(
+    async (packaging: PartPackaging) => {
+      const parts = objectPartsRef.current;
+      if (parts.length === 0) {
+        setError("Nothing to export yet. Cut the model into parts first.");
+        return;
+      }
+
+      const model = getRoot()?.name || "model";
+      const baseName = model.replace(/[^\w.-]+/g, "_");
+      const options = getExportOptions();
+
+      try {
+        if (packaging === "glb") {
+          const { glb, manifest } = await exportPartsAsGlb(
+            model,
+            parts,
+            options
+          );
+          downloadFile(glb, `${baseName}_parts.glb`, "model/gltf-binary");
+          downloadFile(
+            JSON.stringify(manifest, null, 2),
+            `${baseName}_parts.manifest.json`,
+            "application/json"
+          );
+        } else {
+          const zip = await exportPartsAsZip(
+            model,
+            parts,
+            findPartFileFormat(exportFormatId),
+            options
+          );
+          downloadFile(zip, `${baseName}_parts.zip`, "application/zip");
+        }
+        setError(`Exported ${parts.length} parts.`);
+        setTimeout(() => setError(null), 3000);
+      } catch (err) {
+        console.error("Error exporting parts:", err);
+        setError(
+          `Export failed: ${err instanceof Error ? err.message : "Unknown error"}`
+        );
+      }
+    },
+    [objectPartsRef, exportFormatId, getExportOptions, getRoot, setError]
+  );
+
+  return {
+    exportSelectedPart,
+    exportAllParts,
+    exportCompression,
+    setExportCompression,
+    exportFormatId,
+    setExportFormatId,
+  };
+}
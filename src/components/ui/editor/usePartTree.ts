@@ -0,0 +1,230 @@
+import { useCallback, useRef, useState } from "react";
+import * as THREE from "three";
+
+export interface PartNode {
+  id: string;
+  name: string;
+  object: THREE.Object3D;
+  parentId: string | null;
+  childIds: string[];
+  depth: number;
+  // Parts gathered into this one, for nodes created by grouping
+  memberIds: string[];
+  // Group the part belongs to; grouped parts are handled through the group
+  groupId: string | null;
+  // Deleted parts stay in the tree so the deletion can be undone
+  deleted: boolean;
+}
+
+export interface PartTreeSnapshot {
+  nodes: PartNode[];
+  rootId: string | null;
+}
+
+export function usePartTree() {
+  const nodesRef = useRef<Map<string, PartNode>>(new Map());
+  const rootIdRef = useRef<string | null>(null);
+  const nextIdRef = useRef<number>(1);
+
+  // Snapshot of the tree used for rendering, refreshed after every mutation
+  const [partNodes, setPartNodes] = useState<PartNode[]>([]);
+
+  const publish = useCallback(() => {
+    setPartNodes(Array.from(nodesRef.current.values()));
+  }, []);
+
+  const createNode = (
+    object: THREE.Object3D,
+    parent: PartNode | null
+  ): PartNode => {
+    const node: PartNode = {
+      id: `part-${nextIdRef.current++}`,
+      name: object.name || "Part",
+      object,
+      parentId: parent ? parent.id : null,
+      childIds: [],
+      depth: parent ? parent.depth + 1 : 0,
+      memberIds: [],
+      groupId: null,
+      deleted: false,
+    };
+    object.userData.partId = node.id;
+    nodesRef.current.set(node.id, node);
+    return node;
+  };
+
+  const clear = useCallback(() => {
+    nodesRef.current.forEach((node) => {
+      delete node.object.userData.partId;
+    });
+    nodesRef.current.clear();
+    rootIdRef.current = null;
+    publish();
+  }, [publish]);
+
+  // Start a new tree with the loaded model as its root
+  const setRoot = useCallback(
+    (object: THREE.Object3D): PartNode => {
+      nodesRef.current.clear();
+      const root = createNode(object, null);
+      rootIdRef.current = root.id;
+      publish();
+      return root;
+    },
+    [publish]
+  );
+
+  const getRoot = useCallback((): PartNode | null => {
+    return rootIdRef.current
+      ? nodesRef.current.get(rootIdRef.current) || null
+      : null;
+  }, []);
+
+  const getNode = useCallback((id: string): PartNode | null => {
+    return nodesRef.current.get(id) || null;
+  }, []);
+
+  const findByObject = useCallback((object: THREE.Object3D): PartNode | null => {
+    const id = object.userData.partId;
+    return typeof id === "string" ? nodesRef.current.get(id) || null : null;
+  }, []);
+
+  // Register the pieces produced by cutting a part as its children
+  const addChildren = useCallback(
+    (parentId: string, objects: THREE.Object3D[]): PartNode[] => {
+      const parent = nodesRef.current.get(parentId);
+      if (!parent) {
+        throw new Error(`Unknown part ${parentId}`);
+      }
+      const children = objects.map((object) => createNode(object, parent));
+      parent.childIds.push(...children.map((child) => child.id));
+      publish();
+      return children;
+    },
+    [publish]
+  );
+
+  const renameNode = useCallback(
+    (id: string, name: string) => {
+      const node = nodesRef.current.get(id);
+      if (!node) return;
+      node.name = name;
+      node.object.name = name;
+      publish();
+    },
+    [publish]
+  );
+
+  // Gather parts into a new group node, which stands in for them from then on
+  const groupNodes = useCallback(
+    (ids: string[], object: THREE.Object3D): PartNode => {
+      const members = ids.map((id) => {
+        const node = nodesRef.current.get(id);
+        if (!node) {
+          throw new Error(`Unknown part ${id}`);
+        }
+        return node;
+      });
+      const group = createNode(object, null);
+      group.memberIds = [...ids];
+      members.forEach((member) => {
+        member.groupId = group.id;
+      });
+      publish();
+      return group;
+    },
+    [publish]
+  );
+
+  // Dissolve a group, making its members parts of their own again
+  const ungroupNode = useCallback(
+    (id: string): PartNode[] => {
+      const group = nodesRef.current.get(id);
+      if (!group) return [];
+
+      const members = group.memberIds
+        .map((memberId) => nodesRef.current.get(memberId))
+        .filter((member): member is PartNode => !!member);
+      members.forEach((member) => {
+        member.groupId = null;
+      });
+      delete group.object.userData.partId;
+      nodesRef.current.delete(id);
+      publish();
+      return members;
+    },
+    [publish]
+  );
+
+  const setNodesDeleted = useCallback(
+    (ids: string[], deleted: boolean) => {
+      ids.forEach((id) => {
+        const node = nodesRef.current.get(id);
+        if (node) node.deleted = deleted;
+      });
+      publish();
+    },
+    [publish]
+  );
+
+  // Leaves are the parts currently present in the scene: nodes that have not
+  // been cut, grouped or deleted
+  const getLeaves = useCallback((): PartNode[] => {
+    return Array.from(nodesRef.current.values()).filter(
+      (node) => node.childIds.length === 0 && !node.groupId && !node.deleted
+    );
+  }, []);
+
+  // Copy of the tree structure, used to bring back a tree after a reset
+  const snapshot = useCallback((): PartTreeSnapshot => {
+    return {
+      nodes: Array.from(nodesRef.current.values()).map((node) => ({
+        ...node,
+        childIds: [...node.childIds],
+        memberIds: [...node.memberIds],
+      })),
+      rootId: rootIdRef.current,
+    };
+  }, []);
+
+  const restore = useCallback(
+    (tree: PartTreeSnapshot) => {
+      nodesRef.current.forEach((node) => {
+        delete node.object.userData.partId;
+      });
+      nodesRef.current = new Map(
+        tree.nodes.map((node) => {
+          node.object.userData.partId = node.id;
+          return [
+            node.id,
+            {
+              ...node,
+              childIds: [...node.childIds],
+              memberIds: [...node.memberIds],
+            },
+          ];
+        })
+      );
+      rootIdRef.current = tree.rootId;
+      publish();
+    },
+    [publish]
+  );
+
+  return {
+    partNodes,
+    clear,
+    setRoot,
+    getRoot,
+    getNode,
+    findByObject,
+    addChildren,
+    renameNode,
+    groupNodes,
+    ungroupNode,
+    setNodesDeleted,
+    getLeaves,
+    snapshot,
+    restore,
+  };
+}
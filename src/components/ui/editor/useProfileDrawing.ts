@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState, RefObject } from "react";
+import * as THREE from "three";
+import { CutShape } from "./profileCutter";
+import { EditorMode } from "./useMouseHandlers";
+
+interface UseProfileDrawingProps {
+  rendererRef: RefObject<THREE.WebGLRenderer | null>;
+  editorMode: EditorMode;
+  cutShape: CutShape;
+  // Cut along the drawn line, given in client coordinates
+  onDraw: (points: THREE.Vector2[]) => void;
+}
+
+// Pointer travel in pixels below which a new point repeats the last one
+const MIN_POINT_SPACING = 4;
+
+// Points of a smoothed spline per segment between drawn points
+const SPLINE_DIVISIONS = 8;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// The line through the drawn points: straight segments, or a smooth curve
+// for a spline
+const traceProfile = (points: THREE.Vector2[], shape: CutShape) =>
+  shape === "spline" && points.length > 2
+    ? new THREE.SplineCurve(points).getPoints(
+        (points.length - 1) * SPLINE_DIVISIONS
+      )
+    : points;
+
+// In Cut mode with a drawn cut shape, clicks on the canvas place the points
+// of a polyline or spline, finished by a double click or finishProfile, and
+// a drag draws a freehand line, finished when the pointer is released. The
+// line is shown over the canvas while it is drawn.
+export function useProfileDrawing({
+  rendererRef,
+  editorMode,
+  cutShape,
+  onDraw,
+}: UseProfileDrawingProps) {
+  const pointsRef = useRef<THREE.Vector2[]>([]);
+  const [pointCount, setPointCount] = useState(0);
+  // The next segment of a polyline or spline follows the pointer
+  const hoverRef = useRef<THREE.Vector2 | null>(null);
+  const outlineRef = useRef<SVGSVGElement | null>(null);
+
+  const active = editorMode === EditorMode.Cut && cutShape !== "plane";
+
+  const drawOutline = useCallback(() => {
+    const container = rendererRef.current?.domElement.parentElement;
+    const points = hoverRef.current
+      ? [...pointsRef.current, hoverRef.current]
+      : pointsRef.current;
+    if (!container || points.length < 2) {
+      outlineRef.current?.remove();
+      outlineRef.current = null;
+      return;
+    }
+
+    if (!outlineRef.current) {
+      const outline = document.createElementNS(SVG_NS, "svg");
+      outline.style.position = "absolute";
+      outline.style.inset = "0";
+      outline.style.width = "100%";
+      outline.style.height = "100%";
+      outline.style.pointerEvents = "none";
+      const line = document.createElementNS(SVG_NS, "polyline");
+      line.setAttribute("fill", "none");
+      line.setAttribute("stroke", "#ff0000");
+      line.setAttribute("stroke-width", "2");
+      outline.appendChild(line);
+      container.appendChild(outline);
+      outlineRef.current = outline;
+    }
+    const rect = container.getBoundingClientRect();
+    (outlineRef.current.firstChild as SVGPolylineElement).setAttribute(
+      "points",
+      traceProfile(points, cutShape)
+        .map(({ x, y }) => `${x - rect.left},${y - rect.top}`)
+        .join(" ")
+    );
+  }, [rendererRef, cutShape]);
+
+  const setPoints = useCallback(
+    (points: THREE.Vector2[]) => {
+      pointsRef.current = points;
+      setPointCount(points.length);
+      drawOutline();
+    },
+    [drawOutline]
+  );
+
+  const cancelProfile = useCallback(() => {
+    hoverRef.current = null;
+    setPoints([]);
+  }, [setPoints]);
+
+  const finishProfile = useCallback(() => {
+    const points = pointsRef.current;
+    cancelProfile();
+    if (points.length >= 2) onDraw(traceProfile(points, cutShape));
+  }, [cancelProfile, onDraw, cutShape]);
+
+  const removeLastProfilePoint = useCallback(
+    () => setPoints(pointsRef.current.slice(0, -1)),
+    [setPoints]
+  );
+
+  // A line being drawn is dropped when the mode or shape changes
+  useEffect(() => cancelProfile, [active, cancelProfile]);
+
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (!active || !canvas) return;
+
+    let dragging = false;
+    const addPoint = (event: PointerEvent) => {
+      const point = new THREE.Vector2(event.clientX, event.clientY);
+      const last = pointsRef.current[pointsRef.current.length - 1];
+      if (last && last.distanceTo(point) < MIN_POINT_SPACING) return;
+      setPoints([...pointsRef.current, point]);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      if (cutShape === "freehand") {
+        dragging = true;
+        pointsRef.current = [];
+      }
+      addPoint(event);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (cutShape === "freehand") {
+        if (dragging) addPoint(event);
+        return;
+      }
+      hoverRef.current = new THREE.Vector2(event.clientX, event.clientY);
+      drawOutline();
+    };
+
+    const handlePointerUp = () => {
+      if (!dragging) return;
+      dragging = false;
+      finishProfile();
+    };
+
+    const handlePointerLeave = () => {
+      hoverRef.current = null;
+      drawOutline();
+    };
+
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+    canvas.addEventListener("dblclick", finishProfile);
+    window.addEventListener("pointerup", handlePointerUp);
+    return () => {
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      canvas.removeEventListener("dblclick", finishProfile);
+      window.removeEventListener("pointerup", handlePointerUp);
+    };
+  }, [active, cutShape, rendererRef, setPoints, drawOutline, finishProfile]);
+
+  return {
+    profilePointCount: pointCount,
+    finishProfile,
+    cancelProfile,
+    removeLastProfilePoint,
+  };
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+import { ModelResources } from "./modelFormats";
+import { downloadFile } from "./partExport";
+import {
+  Project,
+  PROJECT_EXTENSION,
+  ProjectState,
+  readProjectFile,
+  writeProjectFile,
+} from "./projectFile";
+import { StoredSession } from "./sessionStore";
+import { LengthUnit, ModelFrame } from "./units";
+
+interface UseProjectFileProps {
+  initialProject?: File;
+  // Session kept in the browser, restored the same way as a project
+  initialSession?: StoredSession;
+  modelFrame: ModelFrame | null;
+  loadModel: (
+    file: File,
+    resources?: ModelResources
+  ) => Promise<THREE.Object3D | null>;
+  setModelUnit: (unit: LengthUnit) => void;
+  getModelSource: () => { file: File; resources: ModelResources } | null;
+  getProjectState: () => Pick<Project, "rootId" | "operations" | "parts">;
+  replayProject: (state: ProjectState) => Promise<void>;
+  setError: (error: string | null) => void;
+}
+
+// Save the session as a project file, and open the project or stored
+// session the editor was started with by loading its model and replaying it
+export function useProjectFile({
+  initialProject,
+  initialSession,
+  modelFrame,
+  loadModel,
+  setModelUnit,
+  getModelSource,
+  getProjectState,
+  replayProject,
+  setError,
+}: UseProjectFileProps) {
+  // The project or session being opened, so it is only opened once
+  const openedRef = useRef<File | StoredSession | null>(null);
+  // Whether the editor is still opening what it was started with
+  const [isOpening, setIsOpening] = useState(
+    Boolean(initialProject || initialSession)
+  );
+
+  useEffect(() => {
+    const source = initialProject || initialSession;
+    if (!source || openedRef.current === source) return;
+    openedRef.current = source;
+
+    const opened: Promise<Omit<StoredSession, "id">> = initialProject
+      ? readProjectFile(initialProject).then(
+          ({ project, file, resources }) => ({
+            file,
+            resources,
+            state: project,
+          })
+        )
+      : Promise.resolve(initialSession!);
+
+    opened
+      .then(async ({ file, resources, state }) => {
+        // Loading errors are reported by the model loader
+        if (!(await loadModel(file, resources))) return;
+        setModelUnit(state.unit);
+        await replayProject(state);
+        setError(`Opened ${initialProject ? initialProject.name : file.name}.`);
+        setTimeout(() => setError(null), 3000);
+      })
+      .catch((err) => {
+        console.error("Error opening project:", err);
+        setError(
+          `Could not open the project: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`
+        );
+      })
+      .finally(() => setIsOpening(false));
+  }, [
+    initialProject,
+    initialSession,
+    loadModel,
+    setModelUnit,
+    replayProject,
+    setError,
+  ]);
+
+  const saveProject = useCallback(async () => {
+    const source = getModelSource();
+    if (!source || !modelFrame) {
+      setError("No model loaded to save");
+      return;
+    }
+
+    try {
+      const data = await writeProjectFile(
+        { unit: modelFrame.unit, ...getProjectState() },
+        source.file,
+        source.resources
+      );
+      const baseName = source.file.name.replace(/\.[^.]+$/, "");
+      downloadFile(data, `${baseName}${PROJECT_EXTENSION}`, "application/zip");
+      setError(`Project saved as ${baseName}${PROJECT_EXTENSION}.`);
+      setTimeout(() => setError(null), 3000);
+    } catch (err) {
+      console.error("Error saving project:", err);
+      setError(
+        `Saving the project failed: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+    }
+  }, [getModelSource, modelFrame, getProjectState, setError]);
+
+  return { saveProject, isOpening };
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { ModelResources } from "./modelFormats";
+import { Project } from "./projectFile";
+import { PartDetails } from "./usePartEditing";
+import { saveSessionModel, saveSessionState } from "./sessionStore";
+import { ModelFrame } from "./units";
+
+interface UseSessionPersistenceProps {
+  sessionId: string;
+  // Nothing is stored until the model is loaded and any saved state has
+  // been replayed onto it
+  enabled: boolean;
+  modelFrame: ModelFrame | null;
+  // The parts as listed in the inspector; the list is rebuilt whenever
+  // parts are cut, moved or edited
+  parts: PartDetails[];
+  getModelSource: () => { file: File; resources: ModelResources } | null;
+  getProjectState: () => Pick<Project, "rootId" | "operations" | "parts">;
+}
+
+// Changes are stored once they have settled for this long
+const AUTOSAVE_DELAY = 1000;
+
+// Keep the session in the browser's storage as it is edited, so a reload or
+// a later visit can restore it
+export function useSessionPersistence({
+  sessionId,
+  enabled,
+  modelFrame,
+  parts,
+  getModelSource,
+  getProjectState,
+}: UseSessionPersistenceProps) {
+  // The model files only need storing once per session
+  const storedModelRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !modelFrame) return;
+
+    const timer = setTimeout(async () => {
+      const source = getModelSource();
+      if (!source) return;
+      try {
+        if (storedModelRef.current !== sessionId) {
+          await saveSessionModel(sessionId, source.file, source.resources);
+          storedModelRef.current = sessionId;
+        }
+        await saveSessionState(
+          {
+            id: sessionId,
+            name: source.file.name,
+            updatedAt: Date.now(),
+            partCount: parts.length,
+          },
+          { unit: modelFrame.unit, ...getProjectState() }
+        );
+      } catch (err) {
+        // Private browsing or a full disk only cost the autosave
+        console.error("Could not store the session:", err);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionId, enabled, modelFrame, parts, getModelSource, getProjectState]);
+}
@@ -1,6 +1,15 @@
 import { useRef, useEffect, useState, RefObject } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
+import { CSS2DRenderer } from "three/examples/jsm/renderers/CSS2DRenderer";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass";
+import { OutlinePass } from "three/examples/jsm/postprocessing/OutlinePass";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass";
+
+// Outline colors of the selected parts and of the part under the pointer
+const SELECTION_OUTLINE_COLOR = 0x0088ff;
+const HOVER_OUTLINE_COLOR = 0xffffff;
 
 // Change the parameter type to match React's RefObject
 export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
@@ -8,6 +17,13 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
+  // Draws the HTML labels (CSS2DObjects) of the scene over the canvas
+  const labelRendererRef = useRef<CSS2DRenderer | null>(null);
+  const composerRef = useRef<EffectComposer | null>(null);
+  // Outlines drawn around objects without touching their materials; set
+  // their selectedObjects to highlight parts
+  const selectionOutlineRef = useRef<OutlinePass | null>(null);
+  const hoverOutlineRef = useRef<OutlinePass | null>(null);
 
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -46,6 +62,45 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
     canvasRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
+    const labelRenderer = new CSS2DRenderer();
+    labelRenderer.setSize(
+      canvasRef.current.clientWidth,
+      canvasRef.current.clientHeight,
+    );
+    labelRenderer.domElement.style.position = "absolute";
+    labelRenderer.domElement.style.top = "0";
+    labelRenderer.domElement.style.left = "0";
+    labelRenderer.domElement.style.pointerEvents = "none";
+    canvasRef.current.appendChild(labelRenderer.domElement);
+    labelRendererRef.current = labelRenderer;
+
+    // Render through a composer so selection and hover can be outlined
+    const composer = new EffectComposer(renderer);
+    composer.setPixelRatio(window.devicePixelRatio);
+    composer.setSize(
+      canvasRef.current.clientWidth,
+      canvasRef.current.clientHeight,
+    );
+    composer.addPass(new RenderPass(scene, camera));
+
+    const createOutline = (color: number, edgeStrength: number) => {
+      const outline = new OutlinePass(
+        renderer.getSize(new THREE.Vector2()),
+        scene,
+        camera,
+      );
+      outline.visibleEdgeColor.set(color);
+      outline.hiddenEdgeColor.set(color).multiplyScalar(0.3);
+      outline.edgeStrength = edgeStrength;
+      outline.edgeThickness = 1;
+      composer.addPass(outline);
+      return outline;
+    };
+    hoverOutlineRef.current = createOutline(HOVER_OUTLINE_COLOR, 2);
+    selectionOutlineRef.current = createOutline(SELECTION_OUTLINE_COLOR, 5);
+    composer.addPass(new OutputPass());
+    composerRef.current = composer;
+
     // Setup controls
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.enableDamping = true;
@@ -90,6 +145,8 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
         cameraRef.current.aspect = width / height;
         cameraRef.current.updateProjectionMatrix();
         rendererRef.current.setSize(width, height);
+        composerRef.current?.setSize(width, height);
+        labelRendererRef.current?.setSize(width, height);
       }
     };
 
@@ -101,7 +158,12 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
       requestAnimationFrame(animate);
       if (controlsRef.current) controlsRef.current.update();
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
+        if (composerRef.current) {
+          composerRef.current.render();
+        } else {
+          rendererRef.current.render(sceneRef.current, cameraRef.current);
+        }
+        labelRendererRef.current?.render(sceneRef.current, cameraRef.current);
       }
     };
 
@@ -113,6 +175,7 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
       window.removeEventListener("resize", handleResize);
 
       if (controlsRef.current) controlsRef.current.dispose();
+      if (composerRef.current) composerRef.current.dispose();
       if (rendererRef.current) rendererRef.current.dispose();
 
       if (canvasRef.current) {
@@ -128,6 +191,8 @@ export function useThreeJsSetup(canvasRef: RefObject<HTMLDivElement>) {
     cameraRef,
     rendererRef,
     controlsRef,
+    selectionOutlineRef,
+    hoverOutlineRef,
     isInitialized,
   };
 }
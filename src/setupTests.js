@@ -3,3 +3,15 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import "@testing-library/jest-dom";
+
+// jsdom lacks the text codecs react-router and the file readers use
+import { TextDecoder, TextEncoder as NodeTextEncoder } from "util";
+
+// Node's encoder returns arrays from outside the test environment, which
+// fail the `instanceof Uint8Array` checks of libraries such as fflate
+class TextEncoder extends NodeTextEncoder {
+  encode(input) {
+    return new Uint8Array(super.encode(input));
+  }
+}
+Object.assign(global, { TextDecoder, TextEncoder });